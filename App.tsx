@@ -1,13 +1,23 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { EntryList } from './components/EntryList';
 import { Editor } from './components/Editor';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { ReportLibrary } from './components/ReportLibrary';
+import { JournalChat } from './components/JournalChat';
 import { SettingsPanel } from './components/SettingsPanel';
 import { CalendarView } from './components/CalendarView';
-import { Entry, ViewMode, ThemeMode, AppSettings, Report, DEFAULT_SETTINGS } from './types';
+import { UnlockScreen } from './components/UnlockScreen';
+import { ImportDialog } from './components/ImportDialog';
+import { Entry, EntryUpdateOptions, ViewMode, ThemeMode, AppSettings, Report, DEFAULT_SETTINGS } from './types';
 import { StorageService } from './services/storageService';
-import { Moon, Sun } from 'lucide-react';
+import { I18n } from './i18n';
+import { useI18n } from './hooks/useI18n';
+import { useAutoAnalyze } from './hooks/useAutoAnalyze';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
+import { useEntrySearch } from './hooks/useEntrySearch';
+import { TagService, TagChanges } from './services/tagService';
+import { Moon, Sun, Loader2 } from 'lucide-react';
 
 const App: React.FC = () => {
   const [entries, setEntries] = useState<Entry[]>([]);
@@ -18,18 +28,49 @@ const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [reports, setReports] = useState<Report[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const entriesRef = useRef<Entry[]>(entries);
+  entriesRef.current = entries;
+  const { t } = useI18n();
+
+  // Initial Load, deferred until an encrypted diary has been unlocked
+  useEffect(() => {
+    if (isLocked) return;
+    let cancelled = false;
+
+    const loadData = async () => {
+      try {
+        const { unlocked } = await StorageService.getEncryptionStatus();
+        if (!unlocked) {
+          if (!cancelled) setIsLocked(true);
+          return;
+        }
+
+        const [loadedEntries, loadedSettings, loadedReports] = await Promise.all([
+          StorageService.loadEntries(),
+          StorageService.loadSettings(),
+          StorageService.loadReports(),
+        ]);
+        if (cancelled) return;
+        setEntries(loadedEntries);
+        setSettings(loadedSettings);
+        setReports(loadedReports);
+      } catch (e: any) {
+        console.error("Failed to open diary storage", e);
+        if (!cancelled) setLoadError(e.message || String(e));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadData();
+
+    return () => { cancelled = true; };
+  }, [isLocked]);
 
-  // Initial Load
   useEffect(() => {
-    const loadedEntries = StorageService.loadEntries();
-    setEntries(loadedEntries);
-    
-    const loadedSettings = StorageService.loadSettings();
-    setSettings(loadedSettings);
-    
-    const loadedReports = StorageService.loadReports();
-    setReports(loadedReports);
-    
     // Check system preference for theme
     if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) {
       setTheme('dark');
@@ -45,20 +86,20 @@ const App: React.FC = () => {
     }
   }, [theme]);
 
+  // Language Effect, skipped until the stored settings are in so the
+  // defaults don't override the remembered language
+  useEffect(() => {
+    if (!isLoading) I18n.setLanguage(settings.language);
+  }, [settings.language, isLoading]);
+
   // Derived State
   const selectedEntry = useMemo(() => 
     entries.find(e => e.id === selectedEntryId) || null, 
   [entries, selectedEntryId]);
 
-  const filteredEntries = useMemo(() => {
-    if (!searchQuery) return entries;
-    const lowerQ = searchQuery.toLowerCase();
-    return entries.filter(e => 
-      e.title.toLowerCase().includes(lowerQ) || 
-      e.content.toLowerCase().includes(lowerQ) ||
-      e.tags.some(t => t.toLowerCase().includes(lowerQ))
-    );
-  }, [entries, searchQuery]);
+  const search = useEntrySearch(entries, searchQuery);
+  const tagCounts = useMemo(() => TagService.count(entries), [entries]);
+  const entryIds = useMemo(() => new Set(entries.map(e => e.id)), [entries]);
 
   // Handlers
   const handleCreateEntry = (date?: Date) => {
@@ -68,35 +109,75 @@ const App: React.FC = () => {
     setViewMode('editor');
   };
 
-  const handleUpdateEntry = (updates: Partial<Entry>) => {
-    if (!selectedEntryId) return;
-    
-    setEntries(prev => prev.map(entry => {
-      if (entry.id === selectedEntryId) {
-        const updated = { ...entry, ...updates, updatedAt: new Date().toISOString() };
-        StorageService.saveEntry(updated); // Async save, fire and forget for UI responsiveness
-        return updated;
-      }
-      return entry;
-    }));
+  // Updates are applied to the ref synchronously so that several updates in
+  // a row (e.g. save, then AI results) each build on the previous one.
+  // The returned save rejects when storage fails; every caller handles that.
+  const handleUpdateEntry = (id: string, updates: Partial<Entry>, options?: EntryUpdateOptions): Promise<void> => {
+    const entry = entriesRef.current.find(e => e.id === id);
+    if (!entry) return Promise.resolve();
+
+    const updated = { ...entry, ...updates, updatedAt: new Date().toISOString() };
+    entriesRef.current = entriesRef.current.map(e => e.id === id ? updated : e);
+    setEntries(prev => prev.map(e => e.id === id ? updated : e));
+
+    StorageService.recordRevision(entry, updated, options).catch(e => console.error("Failed to record revision", e));
+    if (updated.content !== entry.content) autoAnalyze.schedule(id);
+    return StorageService.saveEntry(updated);
   };
 
+  const autoAnalyze = useAutoAnalyze(settings, id => entriesRef.current.find(e => e.id === id), handleUpdateEntry);
+  const analysisQueue = useAnalysisQueue(!isLocked && !isLoading, settings, id => entriesRef.current.find(e => e.id === id), handleUpdateEntry);
+
   const handleDeleteEntry = (id: string) => {
-    StorageService.deleteEntry(id);
+    StorageService.deleteEntry(id).catch(e => console.error("Failed to delete entry", e));
     setEntries(prev => prev.filter(e => e.id !== id));
     if (selectedEntryId === id) {
       setSelectedEntryId(null);
     }
   };
 
+  // Renaming, merging or deleting a tag touches many entries at once; they
+  // are saved together and keep no revisions
+  const handleRetagEntries = (changes: TagChanges) => {
+    const tags = new Map(changes.map(change => [change.id, change.tags]));
+    const updatedAt = new Date().toISOString();
+    const retag = (e: Entry) => tags.has(e.id) ? { ...e, tags: tags.get(e.id)!, updatedAt } : e;
+    entriesRef.current = entriesRef.current.map(retag);
+    setEntries(prev => prev.map(retag));
+    StorageService.saveEntries(entriesRef.current.filter(e => tags.has(e.id)))
+      .catch(e => console.error("Failed to save retagged entries", e));
+  };
+
   const handleSettingsChange = (newSettings: AppSettings) => {
     setSettings(newSettings);
-    StorageService.saveSettings(newSettings);
+    StorageService.saveSettings(newSettings).catch(e => console.error("Failed to save settings", e));
+  };
+
+  // Storage makes room by removing old unpinned reports; drop them here too
+  const saveReport = (report: Report) => {
+    StorageService.saveReport(report)
+      .then(removed => {
+        if (removed.length) setReports(prev => prev.filter(r => !removed.includes(r.id)));
+      })
+      .catch(e => console.error("Failed to save report", e));
   };
 
   const handleReportGenerated = (report: Report) => {
     setReports(prev => [report, ...prev]);
-    StorageService.saveReport(report);
+    saveReport(report);
+  };
+
+  const handleUpdateReport = (id: string, updates: Partial<Report>) => {
+    const report = reports.find(r => r.id === id);
+    if (!report) return;
+    const updated = { ...report, ...updates };
+    setReports(prev => prev.map(r => r.id === id ? updated : r));
+    saveReport(updated);
+  };
+
+  const handleDeleteReport = (id: string) => {
+    StorageService.deleteReport(id).catch(e => console.error("Failed to delete report", e));
+    setReports(prev => prev.filter(r => r.id !== id));
   };
 
   const toggleTheme = () => {
@@ -111,9 +192,38 @@ const App: React.FC = () => {
       new Date(b.date).getTime() - new Date(a.date).getTime()
     );
     setEntries(merged);
-    merged.forEach(e => StorageService.saveEntry(e));
+    StorageService.saveEntries(newEntries).catch(e => console.error("Failed to save imported entries", e));
+  };
+
+  const handleLock = () => {
+    // Drop decrypted data from memory along with the key
+    autoAnalyze.cancelAll();
+    setEntries([]);
+    setReports([]);
+    setSelectedEntryId(null);
+    setIsLoading(true);
+    setIsLocked(true);
   };
 
+  if (isLocked) {
+    return <UnlockScreen onUnlock={() => { setIsLoading(true); setIsLocked(false); }} />;
+  }
+
+  if (isLoading || loadError) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-50 dark:bg-slate-950 text-slate-500 dark:text-slate-400 p-8 text-center">
+        {loadError ? (
+          <div>
+            <h2 className="text-xl font-serif font-medium text-slate-700 dark:text-slate-200 mb-2">{t('app.loadFailed')}</h2>
+            <p className="text-sm">{loadError}</p>
+          </div>
+        ) : (
+          <Loader2 className="w-8 h-8 animate-spin text-indigo-400" />
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-screen overflow-hidden bg-gray-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100">
       {/* Sidebar - Navigation */}
@@ -122,7 +232,7 @@ const App: React.FC = () => {
         setViewMode={setViewMode}
         isOpen={isSidebarOpen}
         setIsOpen={setIsSidebarOpen}
-        onImport={handleImport}
+        onOpenImport={() => setIsImportOpen(true)}
         allEntries={entries}
         settings={settings}
       />
@@ -133,7 +243,7 @@ const App: React.FC = () => {
         {/* Top Mobile/Tablet Header (mostly for theme toggle and sidebar toggle on small screens) */}
         <div className="md:hidden flex items-center justify-between p-4 border-b border-gray-200 dark:border-slate-800 bg-white dark:bg-slate-900">
            <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="p-2 hover:bg-gray-100 dark:hover:bg-slate-800 rounded">
-             <span className="sr-only">Menu</span>
+             <span className="sr-only">{t('app.menu')}</span>
              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
            </button>
            <h1 className="font-serif font-bold text-lg">Lumina</h1>
@@ -151,11 +261,15 @@ const App: React.FC = () => {
               flex-col w-full md:w-80 lg:w-96 border-r border-gray-200 dark:border-slate-800 bg-white dark:bg-slate-900 z-10
             `}>
               <EntryList 
-                entries={filteredEntries}
+                entries={search.entries}
+                searchMatches={search.matches}
+                invalidQuery={search.invalid}
                 selectedId={selectedEntryId}
                 onSelect={setSelectedEntryId}
                 onDelete={handleDeleteEntry}
                 onCreate={() => handleCreateEntry()}
+                analyzingIds={autoAnalyze.analyzingIds}
+                tagColors={settings.tagColors}
                 searchQuery={searchQuery}
                 setSearchQuery={setSearchQuery}
               />
@@ -170,7 +284,7 @@ const App: React.FC = () => {
               <button 
                 onClick={toggleTheme} 
                 className="p-2 rounded-full bg-white dark:bg-slate-800 shadow-sm border border-gray-200 dark:border-slate-700 text-slate-500 hover:text-primary-600 dark:text-slate-400 dark:hover:text-primary-400 transition-colors"
-                title="Toggle Theme"
+                title={t('app.toggleTheme')}
               >
                 {theme === 'light' ? <Moon size={18} /> : <Sun size={18} />}
               </button>
@@ -182,12 +296,35 @@ const App: React.FC = () => {
                 settings={settings}
                 reports={reports}
                 onReportGenerated={handleReportGenerated}
+                onOpenLibrary={() => setViewMode('reports')}
+                analysisQueue={analysisQueue}
+              />
+            ) : viewMode === 'reports' ? (
+              <ReportLibrary
+                entries={entries}
+                settings={settings}
+                reports={reports}
+                onReportGenerated={handleReportGenerated}
+                onUpdateReport={handleUpdateReport}
+                onDeleteReport={handleDeleteReport}
+              />
+            ) : viewMode === 'chat' ? (
+              <JournalChat
+                entries={entries}
+                settings={settings}
+                onOpenEntry={(id) => {
+                  setSelectedEntryId(id);
+                  setViewMode('editor');
+                }}
               />
             ) : viewMode === 'settings' ? (
               <SettingsPanel 
                 settings={settings}
                 onSettingsChange={handleSettingsChange}
                 theme={theme}
+                onLock={handleLock}
+                entries={entries}
+                onRetagEntries={handleRetagEntries}
               />
             ) : viewMode === 'calendar' ? (
               <CalendarView
@@ -202,9 +339,11 @@ const App: React.FC = () => {
               selectedEntry ? (
                 <Editor 
                   entry={selectedEntry} 
-                  onUpdate={handleUpdateEntry} 
+                  onUpdate={(updates, options) => handleUpdateEntry(selectedEntry.id, updates, options)}
                   onBack={() => setSelectedEntryId(null)}
                   settings={settings}
+                  isAutoAnalyzing={autoAnalyze.analyzingIds.has(selectedEntry.id)}
+                  knownTags={tagCounts}
                 />
               ) : (
                 <div className="flex-1 flex flex-col items-center justify-center text-slate-400 p-8 text-center">
@@ -213,13 +352,13 @@ const App: React.FC = () => {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                     </svg>
                   </div>
-                  <h2 className="text-2xl font-serif font-medium text-slate-700 dark:text-slate-200 mb-2">选择一篇日记</h2>
-                  <p className="max-w-xs mx-auto">从列表中选择一篇日记，或者创建新的日记开始写作。</p>
+                  <h2 className="text-2xl font-serif font-medium text-slate-700 dark:text-slate-200 mb-2">{t('app.emptyTitle')}</h2>
+                  <p className="max-w-xs mx-auto">{t('app.emptyHint')}</p>
                   <button 
                     onClick={() => handleCreateEntry()}
                     className="mt-6 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-full font-medium transition-colors"
                   >
-                    写新日记
+                    {t('app.newEntry')}
                   </button>
                 </div>
               )
@@ -227,6 +366,15 @@ const App: React.FC = () => {
           </main>
         </div>
       </div>
+
+      {isImportOpen && (
+        <ImportDialog
+          existingIds={entryIds}
+          tagColors={settings.tagColors}
+          onImport={handleImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,219 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Entry, AppSettings } from '../types';
+import { Layers, Pause, Play, RotateCcw, Trash2, AlertCircle, Loader2, ListChecks } from 'lucide-react';
+import { AIProviderService } from '../services/aiProviderService';
+import { AnalysisTracker } from '../services/analysisTracker';
+import { AnalysisQueueControls } from '../hooks/useAnalysisQueue';
+import { useI18n } from '../hooks/useI18n';
+
+interface AnalysisQueuePanelProps {
+  entries: Entry[];
+  settings: AppSettings;
+  queue: AnalysisQueueControls;
+}
+
+// Bulk analysis of entries that were never analyzed or changed since: pick
+// some or all of them, then follow the queue's progress and failures
+export const AnalysisQueuePanel: React.FC<AnalysisQueuePanelProps> = ({ entries, settings, queue }) => {
+  const { t } = useI18n();
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(Date.now());
+
+  const { jobs, paused, cooldownUntil, stopReason } = queue;
+  const entriesById = useMemo(() => new Map(entries.map(e => [e.id, e])), [entries]);
+
+  // Entries needing analysis that are not already waiting in the queue
+  const candidates = useMemo(() => {
+    const queued = new Set(jobs.filter(job => job.status === 'pending' || job.status === 'running').map(job => job.entryId));
+    return entries.filter(e => !queued.has(e.id) && AnalysisTracker.needsAnalysis(e));
+  }, [entries, jobs]);
+
+  const done = jobs.filter(job => job.status === 'done').length;
+  const failed = jobs.filter(job => job.status === 'failed');
+  const remaining = jobs.filter(job => job.status === 'pending' || job.status === 'running').length;
+  const running = jobs.find(job => job.status === 'running');
+  const progress = jobs.length ? Math.round(((done + failed.length) / jobs.length) * 100) : 0;
+
+  // Ticks the cool-down countdown
+  useEffect(() => {
+    if (!cooldownUntil) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [cooldownUntil]);
+
+  if (!jobs.length && !candidates.length) return null;
+
+  const start = (entryIds: string[]) => {
+    if (!AIProviderService.isConfigured(settings)) {
+      alert(t('ai.notConfigured'));
+      return;
+    }
+    queue.enqueue(entryIds);
+    if (paused) queue.resume();
+    setIsSelecting(false);
+    setSelected(new Set());
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const entryTitle = (id: string) => entriesById.get(id)?.title || t('common.untitled');
+
+  const buttonClass = 'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5';
+
+  return (
+    <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-indigo-500" />
+            {t('queue.title')}
+          </h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">{t('queue.hint')}</p>
+        </div>
+        {candidates.length > 0 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsSelecting(!isSelecting)}
+              className={`${buttonClass} ${isSelecting ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300'}`}
+            >
+              <ListChecks className="w-4 h-4" />
+              {t('queue.choose')}
+            </button>
+            <button
+              onClick={() => start(candidates.map(e => e.id))}
+              className={`${buttonClass} bg-indigo-600 text-white hover:bg-indigo-700`}
+            >
+              {t('queue.analyzeAll', { count: candidates.length })}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Picking entries */}
+      {isSelecting && candidates.length > 0 && (
+        <div className="border border-gray-100 dark:border-slate-800 rounded-xl">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100 dark:border-slate-800 text-sm">
+            <label className="flex items-center gap-2 text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.size === candidates.length}
+                onChange={() => setSelected(selected.size === candidates.length ? new Set() : new Set(candidates.map(e => e.id)))}
+                className="accent-indigo-500"
+              />
+              {t('queue.selectAll')}
+            </label>
+            <button
+              onClick={() => start([...selected])}
+              disabled={!selected.size}
+              className={`${buttonClass} bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {t('queue.analyzeSelected', { count: selected.size })}
+            </button>
+          </div>
+          <ul className="max-h-60 overflow-y-auto p-2 space-y-1">
+            {candidates.map(entry => (
+              <li key={entry.id}>
+                <label className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(entry.id)}
+                    onChange={() => toggleSelected(entry.id)}
+                    className="accent-indigo-500"
+                  />
+                  <span className="flex-1 truncate text-slate-700 dark:text-slate-200">{entry.title || t('common.untitled')}</span>
+                  <span className="text-xs text-slate-400">
+                    {AnalysisTracker.isStale(entry) ? t('analysis.stale') : t('queue.unanalyzed')}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Progress */}
+      {jobs.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-300">
+            <span className="flex items-center gap-2">
+              {running && !paused && <Loader2 className="w-4 h-4 animate-spin text-indigo-500" />}
+              {t('queue.progress', { done, total: jobs.length })}
+              {failed.length > 0 && <span className="text-red-500">{t('queue.failedCount', { count: failed.length })}</span>}
+            </span>
+            <div className="flex items-center gap-2">
+              {remaining > 0 && (paused ? (
+                <button onClick={queue.resume} className={`${buttonClass} bg-indigo-600 text-white hover:bg-indigo-700`}>
+                  <Play className="w-4 h-4" /> {t('queue.resume')}
+                </button>
+              ) : (
+                <button onClick={queue.pause} className={`${buttonClass} bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300`}>
+                  <Pause className="w-4 h-4" /> {t('queue.pause')}
+                </button>
+              ))}
+              {failed.length > 0 && (
+                <button onClick={queue.retryFailed} className={`${buttonClass} bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300`}>
+                  <RotateCcw className="w-4 h-4" /> {t('queue.retryFailed')}
+                </button>
+              )}
+              <button
+                onClick={remaining > 0 ? queue.clearAll : queue.clearFinished}
+                className={`${buttonClass} text-slate-400 hover:text-red-500`}
+                title={remaining > 0 ? t('queue.clearAll') : t('queue.clearFinished')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="w-full bg-gray-100 dark:bg-slate-800 rounded-full h-2">
+            <div className="h-2 rounded-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }} />
+          </div>
+
+          {running && !paused && (
+            <p className="text-xs text-slate-400 truncate">{t('queue.current', { title: entryTitle(running.entryId) })}</p>
+          )}
+          {paused && remaining > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {stopReason ? t('queue.stopped', { reason: stopReason }) : t('queue.paused', { count: remaining })}
+            </p>
+          )}
+          {cooldownUntil && !paused && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {t('queue.cooldown', { seconds: Math.max(0, Math.ceil((cooldownUntil - now) / 1000)) })}
+            </p>
+          )}
+
+          {/* Per-entry failures */}
+          {failed.length > 0 && (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {failed.map(job => (
+                <li key={job.entryId} className="flex items-start gap-2 text-xs p-2 rounded-lg bg-red-50 dark:bg-red-900/20">
+                  <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium text-slate-700 dark:text-slate-200 truncate">{entryTitle(job.entryId)}</div>
+                    <div className="text-red-600 dark:text-red-400 break-words">{job.error}</div>
+                  </div>
+                  <button
+                    onClick={() => start([job.entryId])}
+                    className="text-slate-400 hover:text-indigo-600"
+                    title={t('queue.retry')}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
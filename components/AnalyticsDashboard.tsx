@@ -1,70 +1,115 @@
 import React, { useState, useMemo } from 'react';
-import { Entry, AppSettings, ReportType, Report } from '../types';
-import { AIProviderService } from '../services/aiProviderService';
+import { Entry, AppSettings, ReportType, ReportPeriod, Report, DateRange } from '../types';
+import { AIProviderService, planReport, ReportPlan } from '../services/aiProviderService';
+import { getProvider } from '../services/providers';
+import { ReportTemplates } from '../services/reportTemplates';
+import { ReportViewer } from './ReportViewer';
+import { AnalysisQueuePanel } from './AnalysisQueuePanel';
+import { ReportExportMenu } from './ReportExportMenu';
+import { AnalysisQueueControls } from '../hooks/useAnalysisQueue';
+import { useReportGenerator } from '../hooks/useReportGenerator';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   BarChart, Bar, Cell, PieChart, Pie
 } from 'recharts';
-import { FileText, Loader2, TrendingUp, Calendar, Hash, Clock, BookOpen, Sparkles, ChevronDown, History } from 'lucide-react';
-import { format, subDays, subMonths, subYears, startOfWeek, startOfMonth, startOfYear, isWithinInterval } from 'date-fns';
-import { zhCN } from 'date-fns/locale';
+import { FileText, Loader2, TrendingUp, Calendar, Hash, Clock, BookOpen, Sparkles, ChevronDown, ChevronLeft, ChevronRight, History, X, Library } from 'lucide-react';
+import {
+  subDays, addWeeks, addMonths, addYears, startOfWeek, endOfWeek, startOfMonth, endOfMonth,
+  startOfYear, endOfYear, startOfDay, endOfDay, isWithinInterval, parseISO, format
+} from 'date-fns';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
 
 interface AnalyticsProps {
   entries: Entry[];
   settings: AppSettings;
   reports: Report[];
   onReportGenerated: (report: Report) => void;
+  onOpenLibrary: () => void;
+  analysisQueue: AnalysisQueueControls;
 }
 
-const REPORT_TYPE_CONFIG: Record<ReportType, { label: string; icon: string; dateRange: () => { start: Date; end: Date } }> = {
-  weekly: {
-    label: '周报',
-    icon: '📅',
-    dateRange: () => ({
-      start: startOfWeek(new Date(), { weekStartsOn: 1 }),
-      end: new Date()
-    })
+// Periodic templates step through whole weeks, months or years: offset 0
+// is the current one, -1 the one before. Custom ranges are picked by the user.
+const PERIODS: Record<ReportPeriod, ((offset: number) => DateRange) | null> = {
+  week: (offset) => {
+    const date = addWeeks(new Date(), offset);
+    return { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) };
   },
-  monthly: {
-    label: '月报',
-    icon: '📆',
-    dateRange: () => ({
-      start: startOfMonth(new Date()),
-      end: new Date()
-    })
+  month: (offset) => {
+    const date = addMonths(new Date(), offset);
+    return { start: startOfMonth(date), end: endOfMonth(date) };
   },
-  yearly: {
-    label: '年报',
-    icon: '📊',
-    dateRange: () => ({
-      start: startOfYear(new Date()),
-      end: new Date()
-    })
-  }
+  year: (offset) => {
+    const date = addYears(new Date(), offset);
+    return { start: startOfYear(date), end: endOfYear(date) };
+  },
+  custom: null,
+};
+
+// What the report will be built from when the entries do not fit one request
+const CONDENSED_LABELS: Record<Exclude<ReportPlan['level'], 'direct'>, MessageKey> = {
+  week: 'analytics.condensedWeekly',
+  month: 'analytics.condensedMonthly',
+  year: 'analytics.condensedYearly',
 };
 
-export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings, reports, onReportGenerated }) => {
-  const [report, setReport] = useState<string | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
+// Shown for reports whose template has since been deleted
+const FALLBACK_ICON = '📝';
+
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings, reports, onReportGenerated, onOpenLibrary, analysisQueue }) => {
+  const { t, formatDate } = useI18n();
+  const {
+    content: report, savedReport, isGenerating, digestProgress,
+    generate, cancel: handleCancelReport, show: showReport
+  } = useReportGenerator(settings, onReportGenerated);
   const [reportType, setReportType] = useState<ReportType>('weekly');
+  const [periodOffset, setPeriodOffset] = useState(0);
+  const [customStart, setCustomStart] = useState(() => format(subDays(new Date(), 13), DAY_FORMAT));
+  const [customEnd, setCustomEnd] = useState(() => format(new Date(), DAY_FORMAT));
   const [showReportTypeDropdown, setShowReportTypeDropdown] = useState(false);
   const [showReportHistory, setShowReportHistory] = useState(false);
+  const [selectedReportIds, setSelectedReportIds] = useState<Set<string>>(new Set());
+
+  // The period the report covers; null while the custom dates are incomplete or reversed
+  const templates = useMemo(() => ReportTemplates.list(settings), [settings]);
+  // Falls back to the first template if the chosen one was deleted
+  const template = templates.find(tp => tp.id === reportType) || templates[0];
+  const stepPeriod = PERIODS[template.period];
+
+  const reportRange = useMemo((): DateRange | null => {
+    if (stepPeriod) return stepPeriod(periodOffset);
+    if (!customStart || !customEnd) return null;
+    const range = { start: startOfDay(parseISO(customStart)), end: endOfDay(parseISO(customEnd)) };
+    return range.start <= range.end ? range : null;
+  }, [stepPeriod, periodOffset, customStart, customEnd]);
 
-  // Filter entries for the selected report type
+  // Filter entries for the selected period
   const filteredEntries = useMemo(() => {
-    const { start, end } = REPORT_TYPE_CONFIG[reportType].dateRange();
+    if (!reportRange) return [];
     return entries.filter(e => {
       const entryDate = new Date(e.date);
-      return isWithinInterval(entryDate, { start, end });
+      return isWithinInterval(entryDate, reportRange);
     });
-  }, [entries, reportType]);
+  }, [entries, reportRange]);
+
+  // "March 2025", "2025", or the first and last day
+  const describeRange = (period: ReportPeriod, range: DateRange) => {
+    if (period === 'month') return formatDate(range.start, 'date.monthYear');
+    if (period === 'year') return formatDate(range.start, 'date.year');
+    return `${formatDate(range.start, 'date.medium')} – ${formatDate(range.end, 'date.medium')}`;
+  };
+
+  const reportPlan = useMemo(() => planReport(filteredEntries), [filteredEntries]);
 
   // Prepare Data for Charts
   const sentimentData = entries
     .filter(e => e.sentimentScore !== undefined)
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
     .map(e => ({
-      date: format(new Date(e.date), 'MM/dd'),
+      date: formatDate(e.date, 'date.chartDay'),
       score: e.sentimentScore,
       title: e.title
     }))
@@ -78,9 +123,9 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
   }, {} as Record<string, number>);
 
   const moodData = [
-    { name: '积极', value: moodCounts['positive'] || 0, color: '#22c55e' },
-    { name: '中性', value: moodCounts['neutral'] || 0, color: '#eab308' },
-    { name: '消极', value: moodCounts['negative'] || 0, color: '#ef4444' },
+    { name: t('sentiment.positive'), value: moodCounts['positive'] || 0, color: '#22c55e' },
+    { name: t('sentiment.neutral'), value: moodCounts['neutral'] || 0, color: '#eab308' },
+    { name: t('sentiment.negative'), value: moodCounts['negative'] || 0, color: '#ef4444' },
   ];
 
   // Calculate writing streaks
@@ -113,8 +158,8 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
 
   // Most frequent tags
   const tagCounts = entries.reduce((acc, curr) => {
-    curr.tags.forEach(t => {
-        acc[t] = (acc[t] || 0) + 1;
+    curr.tags.forEach(tag => {
+        acc[tag] = (acc[tag] || 0) + 1;
     });
     return acc;
   }, {} as Record<string, number>);
@@ -123,47 +168,43 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
     .sort((a, b) => (b[1] as number) - (a[1] as number))
     .slice(0, 5);
 
-  const handleGenerateReport = async () => {
-    if (!settings.providers[settings.activeProvider].apiKey) {
-      alert('请先在设置中配置 API Key');
-      return;
-    }
+  const handleGenerateReport = () => {
+    if (!reportRange) return;
+    generate({
+      template,
+      range: reportRange,
+      entries: filteredEntries,
+      title: `${template.name} · ${describeRange(template.period, reportRange)}`,
+    });
+  };
 
-    setIsGenerating(true);
-    try {
-      const result = await AIProviderService.generateReport(filteredEntries, reportType, settings);
-      setReport(result);
-      
-      // Save report to history
-      const newReport: Report = {
-        id: Date.now().toString(36),
-        type: reportType,
-        title: `${REPORT_TYPE_CONFIG[reportType].label} - ${format(new Date(), 'yyyy-MM-dd')}`,
-        content: result,
-        startDate: REPORT_TYPE_CONFIG[reportType].dateRange().start.toISOString(),
-        endDate: new Date().toISOString(),
-        createdAt: new Date().toISOString(),
-        entryCount: filteredEntries.length
-      };
-      onReportGenerated(newReport);
-    } catch (e: any) {
-      alert(e.message || '报告生成失败');
-    } finally {
-      setIsGenerating(false);
-    }
+  // The report on screen belongs to the previous period, so it goes
+  const changePeriod = (offset: number) => {
+    setPeriodOffset(offset);
+    showReport(null);
   };
 
   const loadHistoricalReport = (historicalReport: Report) => {
-    setReport(historicalReport.content);
+    showReport(historicalReport);
     setShowReportHistory(false);
   };
 
+  const toggleReportSelected = (id: string) => {
+    setSelectedReportIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const exportContext = { entries, templates };
+
   return (
     <div className="flex-1 h-full overflow-y-auto p-6 md:p-10 bg-gray-50 dark:bg-slate-950">
       <div className="max-w-6xl mx-auto space-y-8">
         <header className="mb-8">
-          <h1 className="text-3xl font-serif font-bold text-slate-800 dark:text-slate-100">📊 数据洞察</h1>
-          <p className="text-slate-500 dark:text-slate-400 mt-2">追踪你的情绪变化和写作习惯</p>
+          <h1 className="text-3xl font-serif font-bold text-slate-800 dark:text-slate-100">{t('analytics.title')}</h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-2">{t('analytics.subtitle')}</p>
         </header>
 
         {/* Stats Row */}
@@ -171,12 +212,12 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
           <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800">
             <div className="flex items-center text-indigo-500 mb-2">
               <TrendingUp className="w-5 h-5 mr-2" />
-              <span className="font-medium text-sm">平均情绪</span>
+              <span className="font-medium text-sm">{t('analytics.avgMood')}</span>
             </div>
             <div className="text-2xl font-bold text-slate-800 dark:text-slate-100">
               {sentimentData.length > 0 
                 ? Math.round(sentimentData.reduce((a, b) => a + (b.score || 0), 0) / sentimentData.length) + '%' 
-                : 'N/A'
+                : t('common.notAvailable')
               }
             </div>
           </div>
@@ -184,17 +225,17 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
           <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800">
             <div className="flex items-center text-emerald-500 mb-2">
               <Calendar className="w-5 h-5 mr-2" />
-              <span className="font-medium text-sm">连续天数</span>
+              <span className="font-medium text-sm">{t('analytics.streak')}</span>
             </div>
             <div className="text-2xl font-bold text-slate-800 dark:text-slate-100">
-              {calculateStreak()} 天
+              {t('analytics.streakDays', { count: calculateStreak() })}
             </div>
           </div>
 
           <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800">
             <div className="flex items-center text-amber-500 mb-2">
               <BookOpen className="w-5 h-5 mr-2" />
-              <span className="font-medium text-sm">平均字数</span>
+              <span className="font-medium text-sm">{t('analytics.avgWords')}</span>
             </div>
             <div className="text-2xl font-bold text-slate-800 dark:text-slate-100">
               {avgWords}
@@ -204,19 +245,22 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
           <div className="bg-white dark:bg-slate-900 p-5 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800">
             <div className="flex items-center text-purple-500 mb-2">
               <Hash className="w-5 h-5 mr-2" />
-              <span className="font-medium text-sm">热门话题</span>
+              <span className="font-medium text-sm">{t('analytics.topTopic')}</span>
             </div>
             <div className="text-2xl font-bold text-slate-800 dark:text-slate-100 truncate">
-              {topTags.length > 0 ? topTags[0][0] : '暂无'}
+              {topTags.length > 0 ? topTags[0][0] : t('common.none')}
             </div>
           </div>
         </div>
 
+        {/* Fills in the charts for entries that were never analyzed */}
+        <AnalysisQueuePanel entries={entries} settings={settings} queue={analysisQueue} />
+
         {/* Main Charts */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Sentiment Chart */}
           <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800">
-            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-6">📈 情绪趋势</h3>
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-6">{t('analytics.moodTrend')}</h3>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={sentimentData}>
@@ -241,7 +285,7 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
 
           {/* Mood Bar Chart */}
           <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800">
-            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-6">🎭 情绪分布</h3>
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-6">{t('analytics.moodDistribution')}</h3>
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={moodData}>
@@ -263,7 +307,7 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
         {/* Top Tags */}
         {topTags.length > 0 && (
           <div className="bg-white dark:bg-slate-900 p-6 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800">
-            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-4">🏷️ 常用标签</h3>
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-4">{t('analytics.topTags')}</h3>
             <div className="flex flex-wrap gap-3">
               {topTags.map(([tag, count]) => (
                 <span
@@ -283,10 +327,10 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
             <div>
               <h2 className="text-2xl font-serif font-bold mb-2 flex items-center gap-2">
                 <Sparkles className="w-6 h-6" />
-                AI 智能报告
+                {t('analytics.aiReport')}
               </h2>
               <p className="text-white/80 text-sm">
-                使用 {settings.activeProvider.toUpperCase()} 生成深度分析报告
+                {t('analytics.aiReportHint', { provider: getProvider(settings.activeProvider).name })}
               </p>
             </div>
             
@@ -297,25 +341,26 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
                   onClick={() => setShowReportTypeDropdown(!showReportTypeDropdown)}
                   className="bg-white/20 backdrop-blur-sm px-4 py-2 rounded-lg font-medium hover:bg-white/30 transition-colors flex items-center gap-2"
                 >
-                  {REPORT_TYPE_CONFIG[reportType].icon} {REPORT_TYPE_CONFIG[reportType].label}
+                  {template.icon} {template.name}
                   <ChevronDown className="w-4 h-4" />
                 </button>
                 
                 {showReportTypeDropdown && (
                   <div className="absolute top-full mt-2 right-0 bg-white dark:bg-slate-800 rounded-xl shadow-xl overflow-hidden z-10 min-w-[160px]">
-                    {(Object.keys(REPORT_TYPE_CONFIG) as ReportType[]).map((type) => (
+                    {templates.map(({ id: type, icon, name }) => (
                       <button
                         key={type}
                         onClick={() => {
                           setReportType(type);
+                          setPeriodOffset(0);
                           setShowReportTypeDropdown(false);
-                          setReport(null);
+                          showReport(null);
                         }}
                         className={`w-full px-4 py-3 text-left hover:bg-gray-100 dark:hover:bg-slate-700 flex items-center gap-2 ${
-                          reportType === type ? 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400' : 'text-gray-700 dark:text-gray-300'
+                          template.id === type ? 'bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400' : 'text-gray-700 dark:text-gray-300'
                         }`}
                       >
-                        {REPORT_TYPE_CONFIG[type].icon} {REPORT_TYPE_CONFIG[type].label}
+                        {icon} {name}
                       </button>
                     ))}
                   </div>
@@ -327,51 +372,161 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
                 <button
                   onClick={() => setShowReportHistory(!showReportHistory)}
                   className="bg-white/20 backdrop-blur-sm p-2 rounded-lg hover:bg-white/30 transition-colors"
-                  title="历史报告"
+                  title={t('analytics.history')}
                 >
                   <History className="w-5 h-5" />
                 </button>
               )}
               
-              {/* Generate Button */}
-              <button 
-                onClick={handleGenerateReport}
-                disabled={isGenerating || filteredEntries.length === 0}
-                className="bg-white text-indigo-600 px-5 py-2 rounded-lg font-medium hover:bg-indigo-50 transition-colors disabled:opacity-70 disabled:cursor-not-allowed flex items-center shadow-sm"
-              >
-                {isGenerating ? <Loader2 className="animate-spin w-4 h-4 mr-2" /> : <FileText className="w-4 h-4 mr-2" />}
-                {isGenerating ? '生成中...' : '生成报告'}
-              </button>
+              {/* Generate / Cancel Button */}
+              {isGenerating ? (
+                <button
+                  onClick={handleCancelReport}
+                  className="bg-white text-indigo-600 px-5 py-2 rounded-lg font-medium hover:bg-indigo-50 transition-colors flex items-center shadow-sm"
+                  title={t('analytics.cancel')}
+                >
+                  <Loader2 className="animate-spin w-4 h-4 mr-2" />
+                  {t('analytics.generating')}
+                  <X className="w-4 h-4 ml-2" />
+                </button>
+              ) : (
+                <button 
+                  onClick={handleGenerateReport}
+                  disabled={!reportRange || filteredEntries.length === 0}
+                  className="bg-white text-indigo-600 px-5 py-2 rounded-lg font-medium hover:bg-indigo-50 transition-colors disabled:opacity-70 disabled:cursor-not-allowed flex items-center shadow-sm"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  {t('analytics.generate')}
+                </button>
+              )}
             </div>
           </div>
 
+          {/* Period */}
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            {stepPeriod ? (
+              <>
+                <button
+                  onClick={() => changePeriod(periodOffset - 1)}
+                  disabled={isGenerating}
+                  className="bg-white/20 p-1.5 rounded-lg hover:bg-white/30 transition-colors disabled:opacity-50"
+                  title={t('analytics.previousPeriod')}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="font-medium min-w-[8rem] text-center">
+                  {reportRange && describeRange(template.period, reportRange)}
+                </span>
+                <button
+                  onClick={() => changePeriod(periodOffset + 1)}
+                  disabled={isGenerating || periodOffset >= 0}
+                  className="bg-white/20 p-1.5 rounded-lg hover:bg-white/30 transition-colors disabled:opacity-50"
+                  title={t('analytics.nextPeriod')}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+                {periodOffset < 0 && (
+                  <button
+                    onClick={() => changePeriod(0)}
+                    disabled={isGenerating}
+                    className="text-sm text-white/80 hover:text-white underline underline-offset-2 ml-1"
+                  >
+                    {t('analytics.currentPeriod')}
+                  </button>
+                )}
+              </>
+            ) : (
+              <>
+                <span className="text-sm text-white/80">{t('analytics.rangeFrom')}</span>
+                <input
+                  type="date"
+                  value={customStart}
+                  max={customEnd || undefined}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  disabled={isGenerating}
+                  className="bg-white/20 rounded-lg px-2 py-1 text-sm text-white [color-scheme:dark] focus:outline-none focus:ring-2 focus:ring-white/50"
+                />
+                <span className="text-sm text-white/80">{t('analytics.rangeTo')}</span>
+                <input
+                  type="date"
+                  value={customEnd}
+                  min={customStart || undefined}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  disabled={isGenerating}
+                  className="bg-white/20 rounded-lg px-2 py-1 text-sm text-white [color-scheme:dark] focus:outline-none focus:ring-2 focus:ring-white/50"
+                />
+                {!reportRange && customStart && customEnd && (
+                  <span className="text-yellow-300 text-sm">{t('analytics.invalidRange')}</span>
+                )}
+              </>
+            )}
+          </div>
+
           {/* Entry Count Info */}
           <div className="mb-4 text-white/70 text-sm">
-            📝 本期共 {filteredEntries.length} 篇日记
-            {filteredEntries.length === 0 && <span className="text-yellow-300 ml-2">（需要至少 1 篇日记才能生成报告）</span>}
+            {t('analytics.periodCount', { count: filteredEntries.length })}
+            {filteredEntries.length > 0 && t('analytics.tokenEstimate', { tokens: reportPlan.tokens.toLocaleString() })}
+            {filteredEntries.length === 0 && <span className="text-yellow-300 ml-2">{t('analytics.needEntries')}</span>}
+            {reportPlan.level !== 'direct' && (
+              <div className="mt-1 text-white/60 text-xs">
+                {t(CONDENSED_LABELS[reportPlan.level], { count: reportPlan.groups })}
+              </div>
+            )}
+            {isGenerating && digestProgress && !report && (
+              <div className="mt-2 flex items-center gap-2 text-white/90">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {t('analytics.digestProgress', digestProgress)}
+              </div>
+            )}
           </div>
 
           {/* Report History Panel */}
           {showReportHistory && reports.length > 0 && (
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-4 mb-4 border border-white/20">
-              <h4 className="font-semibold mb-3 flex items-center gap-2">
-                <History className="w-4 h-4" />
-                历史报告
-              </h4>
-              <div className="space-y-2 max-h-48 overflow-y-auto">
-                {reports.slice(0, 10).map((r) => (
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold flex items-center gap-2">
+                  <History className="w-4 h-4" />
+                  {t('analytics.history')}
+                </h4>
+                <div className="flex items-center gap-2">
+                  {selectedReportIds.size > 0 && (
+                    <ReportExportMenu
+                      reports={reports.filter(r => selectedReportIds.has(r.id))}
+                      context={exportContext}
+                      label={t('export.selected', { count: selectedReportIds.size })}
+                    />
+                  )}
                   <button
-                    key={r.id}
-                    onClick={() => loadHistoricalReport(r)}
-                    className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/10 transition-colors flex items-center justify-between"
+                    onClick={onOpenLibrary}
+                    className="bg-white/20 backdrop-blur-sm px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-white/30 transition-colors flex items-center gap-1.5"
                   >
-                    <span>
-                      {REPORT_TYPE_CONFIG[r.type].icon} {r.title}
-                    </span>
-                    <span className="text-white/60 text-xs">
-                      {format(new Date(r.createdAt), 'MM/dd HH:mm')}
-                    </span>
+                    <Library className="w-4 h-4" />
+                    {t('analytics.openLibrary', { count: reports.length })}
                   </button>
+                </div>
+              </div>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {reports.slice(0, 10).map((r) => (
+                  <div key={r.id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedReportIds.has(r.id)}
+                      onChange={() => toggleReportSelected(r.id)}
+                      className="accent-white"
+                    />
+                    <button
+                      onClick={() => loadHistoricalReport(r)}
+                      className="flex-1 text-left px-3 py-2 rounded-lg hover:bg-white/10 transition-colors flex items-center justify-between"
+                    >
+                      <span>
+                        {templates.find(tp => tp.id === r.type)?.icon ?? FALLBACK_ICON} {r.title}
+                      </span>
+                      <span className="text-white/60 text-xs">
+                        {r.generatedBy && <span className="mr-2">{getProvider(r.generatedBy.provider).name}</span>}
+                        {formatDate(r.createdAt, 'date.shortDateTime')}
+                      </span>
+                    </button>
+                  </div>
                 ))}
               </div>
             </div>
@@ -380,9 +535,20 @@ export const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ entries, settings
           {/* Report Content */}
           {report && (
             <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-sm leading-relaxed border border-white/20 animate-fade-in">
-              <div className="prose prose-invert max-w-none">
-                <div className="whitespace-pre-wrap font-sans">{report}</div>
-              </div>
+              <ReportViewer markdown={report} />
+              {savedReport && (
+                <div className="mt-4 pt-3 border-t border-white/20 flex items-center justify-between gap-2">
+                  <p className="text-xs text-white/60 flex items-center gap-1">
+                    {savedReport.generatedBy && (
+                      <>
+                        <Sparkles className="w-3 h-3" />
+                        {t('analytics.generatedBy', { source: AIProviderService.describeAttribution(savedReport.generatedBy) })}
+                      </>
+                    )}
+                  </p>
+                  <ReportExportMenu reports={[savedReport]} context={exportContext} />
+                </div>
+              )}
             </div>
           )}
         </div>
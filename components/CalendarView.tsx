@@ -12,8 +12,9 @@ import {
   getDay,
   isToday
 } from 'date-fns';
-import { zhCN } from 'date-fns/locale';
 import { ChevronLeft, ChevronRight, Calendar, Smile, Meh, Frown, Edit3 } from 'lucide-react';
+import { MarkdownService } from '../services/markdownService';
+import { useI18n } from '../hooks/useI18n';
 
 interface CalendarViewProps {
   entries: Entry[];
@@ -21,8 +22,6 @@ interface CalendarViewProps {
   onCreateEntry: (date: Date) => void;
 }
 
-const WEEKDAYS = ['一', '二', '三', '四', '五', '六', '日'];
-
 const getSentimentIcon = (sentiment?: string) => {
   switch (sentiment) {
     case 'positive':
@@ -50,6 +49,7 @@ const getMoodColor = (sentiment?: string) => {
 };
 
 export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEntry, onCreateEntry }) => {
+  const { t, formatDate } = useI18n();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
 
@@ -135,9 +135,9 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
             <div className="p-2 rounded-lg bg-indigo-100 dark:bg-indigo-900/50">
               <Calendar className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
             </div>
-            <h1 className="text-3xl font-serif font-bold text-slate-800 dark:text-slate-100">日历视图</h1>
+            <h1 className="text-3xl font-serif font-bold text-slate-800 dark:text-slate-100">{t('calendar.title')}</h1>
           </div>
-          <p className="text-slate-500 dark:text-slate-400">以日历形式浏览你的日记</p>
+          <p className="text-slate-500 dark:text-slate-400">{t('calendar.subtitle')}</p>
         </header>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -154,13 +154,13 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
               
               <div className="flex items-center gap-4">
                 <h2 className="text-xl font-semibold text-slate-800 dark:text-slate-100">
-                  {format(currentMonth, 'yyyy年 M月', { locale: zhCN })}
+                  {formatDate(currentMonth, 'date.monthYear')}
                 </h2>
                 <button
                   onClick={handleToday}
                   className="text-sm px-3 py-1 rounded-lg bg-indigo-100 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-200 dark:hover:bg-indigo-900 transition-colors"
                 >
-                  今天
+                  {t('calendar.today')}
                 </button>
               </div>
               
@@ -174,7 +174,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
 
             {/* Weekday Headers */}
             <div className="grid grid-cols-7 gap-1 mb-2">
-              {WEEKDAYS.map((day) => (
+              {t('calendar.weekdays').split(',').map((day) => (
                 <div
                   key={day}
                   className="text-center text-sm font-medium text-slate-500 dark:text-slate-400 py-2"
@@ -257,27 +257,27 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
           <div className="space-y-6">
             {/* Month Stats */}
             <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800 p-6">
-              <h3 className="font-semibold text-slate-800 dark:text-slate-100 mb-4">本月统计</h3>
+              <h3 className="font-semibold text-slate-800 dark:text-slate-100 mb-4">{t('calendar.monthStats')}</h3>
               <div className="space-y-3">
                 <div className="flex justify-between items-center">
-                  <span className="text-slate-600 dark:text-slate-400">总日记数</span>
+                  <span className="text-slate-600 dark:text-slate-400">{t('sidebar.totalEntries')}</span>
                   <span className="font-semibold text-slate-800 dark:text-slate-100">{monthStats.total}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-slate-600 dark:text-slate-400 flex items-center gap-1">
-                    <Smile className="w-4 h-4 text-green-500" /> 积极
+                    <Smile className="w-4 h-4 text-green-500" /> {t('sentiment.positive')}
                   </span>
                   <span className="font-semibold text-green-600">{monthStats.positive}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-slate-600 dark:text-slate-400 flex items-center gap-1">
-                    <Meh className="w-4 h-4 text-yellow-500" /> 中性
+                    <Meh className="w-4 h-4 text-yellow-500" /> {t('sentiment.neutral')}
                   </span>
                   <span className="font-semibold text-yellow-600">{monthStats.neutral}</span>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-slate-600 dark:text-slate-400 flex items-center gap-1">
-                    <Frown className="w-4 h-4 text-red-500" /> 消极
+                    <Frown className="w-4 h-4 text-red-500" /> {t('sentiment.negative')}
                   </span>
                   <span className="font-semibold text-red-600">{monthStats.negative}</span>
                 </div>
@@ -288,7 +288,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
             <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800 p-6">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="font-semibold text-slate-800 dark:text-slate-100">
-                  {selectedDate ? format(selectedDate, 'M月d日', { locale: zhCN }) : '选择日期'}
+                  {selectedDate ? formatDate(selectedDate, 'date.short') : t('calendar.pickDate')}
                 </h3>
                 {selectedDate && (
                   <button
@@ -296,7 +296,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
                     className="text-sm px-3 py-1 rounded-lg bg-indigo-500 text-white hover:bg-indigo-600 transition-colors flex items-center gap-1"
                   >
                     <Edit3 className="w-3 h-3" />
-                    写日记
+                    {t('calendar.write')}
                   </button>
                 )}
               </div>
@@ -314,11 +314,11 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
                           <div className="flex items-center gap-2">
                             {entry.mood && <span>{entry.mood}</span>}
                             <h4 className="font-medium text-slate-800 dark:text-slate-100 truncate">
-                              {entry.title || '无标题'}
+                              {entry.title || t('common.untitled')}
                             </h4>
                           </div>
                           <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2 mt-1">
-                            {entry.summary || entry.content.slice(0, 100)}
+                            {entry.summary || MarkdownService.toPlainText(entry.content).slice(0, 100)}
                           </p>
                         </div>
                         {getSentimentIcon(entry.sentiment)}
@@ -340,36 +340,36 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ entries, onSelectEnt
                 </div>
               ) : selectedDate ? (
                 <div className="text-center py-8">
-                  <p className="text-slate-400 dark:text-slate-500 mb-4">这一天还没有日记</p>
+                  <p className="text-slate-400 dark:text-slate-500 mb-4">{t('calendar.noEntries')}</p>
                   <button
                     onClick={() => handleCreateOnDate(selectedDate)}
                     className="px-4 py-2 rounded-lg bg-indigo-500 text-white hover:bg-indigo-600 transition-colors"
                   >
-                    开始写日记
+                    {t('calendar.startWriting')}
                   </button>
                 </div>
               ) : (
                 <p className="text-slate-400 dark:text-slate-500 text-center py-8">
-                  点击日历上的日期查看日记
+                  {t('calendar.hint')}
                 </p>
               )}
             </div>
 
             {/* Legend */}
             <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800 p-4">
-              <h4 className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-3">图例</h4>
+              <h4 className="text-sm font-medium text-slate-600 dark:text-slate-400 mb-3">{t('calendar.legend')}</h4>
               <div className="flex flex-wrap gap-2">
                 <div className="flex items-center gap-1.5">
                   <div className="w-4 h-4 rounded bg-green-100 dark:bg-green-900/30 border-2 border-green-300 dark:border-green-700" />
-                  <span className="text-xs text-slate-500">积极</span>
+                  <span className="text-xs text-slate-500">{t('sentiment.positive')}</span>
                 </div>
                 <div className="flex items-center gap-1.5">
                   <div className="w-4 h-4 rounded bg-yellow-100 dark:bg-yellow-900/30 border-2 border-yellow-300 dark:border-yellow-700" />
-                  <span className="text-xs text-slate-500">中性</span>
+                  <span className="text-xs text-slate-500">{t('sentiment.neutral')}</span>
                 </div>
                 <div className="flex items-center gap-1.5">
                   <div className="w-4 h-4 rounded bg-red-100 dark:bg-red-900/30 border-2 border-red-300 dark:border-red-700" />
-                  <span className="text-xs text-slate-500">消极</span>
+                  <span className="text-xs text-slate-500">{t('sentiment.negative')}</span>
                 </div>
               </div>
             </div>
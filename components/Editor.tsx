@@ -1,65 +1,171 @@
-import React, { useState, useEffect } from 'react';
-import { Entry, AppSettings } from '../types';
-import { ChevronLeft, Sparkles, Loader2, Tag, Hash, Save } from 'lucide-react';
-import { format } from 'date-fns';
-import { zhCN } from 'date-fns/locale';
+import React, { useState, useRef, useEffect } from 'react';
+import { Entry, AppSettings, EntryRevision, EntryUpdateOptions } from '../types';
+import { ChevronLeft, Sparkles, Loader2, Tag, Save, History, Check, RotateCcw, X, RefreshCw } from 'lucide-react';
 import { AIProviderService } from '../services/aiProviderService';
+import { AnalysisTracker } from '../services/analysisTracker';
+import { RevisionHistory } from './RevisionHistory';
+import { useAutosave, SaveStatus } from '../hooks/useAutosave';
+import { MarkdownToolbar, EditorViewMode, commandForShortcut } from './MarkdownToolbar';
+import { MarkdownView } from './MarkdownView';
+import { TagInput } from './TagInput';
+import { TagCount } from '../services/tagService';
+import { MarkdownService, MarkdownCommand, TextEdit } from '../services/markdownService';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
 
 interface EditorProps {
   entry: Entry;
-  onUpdate: (updates: Partial<Entry>) => void;
+  onUpdate: (updates: Partial<Entry>, options?: EntryUpdateOptions) => Promise<void>; // Rejects when the save fails
   onBack: () => void;
   settings: AppSettings;
+  isAutoAnalyzing: boolean; // A background analysis of this entry is running
+  knownTags: TagCount[];
 }
 
-export const Editor: React.FC<EditorProps> = ({ entry, onUpdate, onBack, settings }) => {
+const SAVE_STATUS_LABELS: Record<SaveStatus, MessageKey> = {
+  saved: 'editor.saved',
+  saving: 'editor.saving',
+  unsaved: 'editor.unsaved',
+};
+
+export const Editor: React.FC<EditorProps> = ({ entry, onUpdate, onBack, settings, isAutoAnalyzing, knownTags }) => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [localTitle, setLocalTitle] = useState(entry.title);
-  const [localContent, setLocalContent] = useState(entry.content);
+  const [streamingSummary, setStreamingSummary] = useState<string | null>(null);
+  const analysisController = useRef<AbortController | null>(null);
+  // The entry as it is now, for results that arrive after tags were edited
+  const latestEntry = useRef(entry);
+  latestEntry.current = entry;
+  const { t, formatDate } = useI18n();
+  const [showHistory, setShowHistory] = useState(false);
+  const [viewMode, setViewMode] = useState<EditorViewMode>('edit');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const {
+    title: localTitle,
+    content: localContent,
+    setTitle: setLocalTitle,
+    setContent: setLocalContent,
+    reset,
+    status: saveStatus,
+    flush,
+    recoverableDraft,
+    recoverDraft,
+    discardDraft,
+  } = useAutosave(entry, onUpdate);
+
+  const applyEdit = (edit: TextEdit) => {
+    setLocalContent(edit.text);
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const handleCommand = (command: MarkdownCommand) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    applyEdit(MarkdownService.applyCommand(localContent, textarea.selectionStart, textarea.selectionEnd, command));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Never interfere while an IME (e.g. pinyin) is composing
+    if (e.nativeEvent.isComposing) return;
+
+    if ((e.metaKey || e.ctrlKey) && !e.shiftKey && !e.altKey && e.code === 'KeyE') {
+      e.preventDefault();
+      setViewMode('preview');
+      return;
+    }
+
+    const command = commandForShortcut(e);
+    if (command) {
+      e.preventDefault();
+      handleCommand(command);
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && e.currentTarget.selectionStart === e.currentTarget.selectionEnd) {
+      const edit = MarkdownService.continueList(localContent, e.currentTarget.selectionStart);
+      if (edit) {
+        e.preventDefault();
+        applyEdit(edit);
+      }
+    }
+  };
 
-  useEffect(() => {
-    setLocalTitle(entry.title);
-    setLocalContent(entry.content);
-  }, [entry.id]);
+  const handlePreviewKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.metaKey || e.ctrlKey) && e.code === 'KeyE') {
+      e.preventDefault();
+      setViewMode('edit');
+      requestAnimationFrame(() => textareaRef.current?.focus());
+    }
+  };
 
-  const handleBlur = () => {
-    if (localTitle !== entry.title || localContent !== entry.content) {
-      onUpdate({ title: localTitle, content: localContent });
+  const handleToggleTask = (line: number) => {
+    setLocalContent(MarkdownService.toggleTask(localContent, line));
+  };
+
+  const handleRestore = async (revision: EntryRevision) => {
+    reset(revision.title, revision.content);
+    try {
+      await onUpdate({ title: revision.title, content: revision.content, tags: revision.tags });
+    } catch (error: any) {
+      alert(error.message || t('revisions.restoreFailed'));
     }
   };
 
+  // A running analysis belongs to the entry it was started on
+  useEffect(() => () => analysisController.current?.abort(), [entry.id]);
+
   const handleAnalyze = async () => {
     if (!localContent.trim()) return;
     
-    // Check if API key is configured
-    if (!settings.providers[settings.activeProvider].apiKey) {
-      alert('请先在设置中配置 API Key');
+    // Check if the AI provider is configured
+    if (!AIProviderService.isConfigured(settings)) {
+      alert(t('ai.notConfigured'));
       return;
     }
     
+    const controller = new AbortController();
+    analysisController.current = controller;
     setIsAnalyzing(true);
+    setStreamingSummary(null);
     try {
       // Save first
-      onUpdate({ title: localTitle, content: localContent });
-      
-      const result = await AIProviderService.analyzeEntry(localContent, settings);
-      onUpdate({
-        sentiment: result.sentiment,
-        sentimentScore: result.sentimentScore,
-        summary: result.summary,
-        tags: [...new Set([...entry.tags, ...result.tags])],
-        mood: result.mood,
-        aiAnalysis: {
-            suggestions: result.suggestions
-        }
+      await flush();
+
+      const result = await AIProviderService.analyzeEntry(localContent, settings, {
+        signal: controller.signal,
+        onChunk: (partial) => {
+          const summary = AIProviderService.readPartialSummary(partial);
+          if (summary !== null) setStreamingSummary(summary);
+        },
       });
+      if (controller.signal.aborted) return;
+      await onUpdate(AnalysisTracker.toEntryUpdates(latestEntry.current, result, localContent));
     } catch (error: any) {
-      alert(error.message || "AI 分析失败，请检查 API Key 配置");
+      if (!controller.signal.aborted) {
+        alert(error.message || t('editor.analyzeFailed'));
+      }
     } finally {
-      setIsAnalyzing(false);
+      if (analysisController.current === controller) {
+        analysisController.current = null;
+        setIsAnalyzing(false);
+        setStreamingSummary(null);
+      }
     }
   };
 
+  // Compared against the unsaved text too, so the badge appears while typing
+  const isAnalysisStale = AnalysisTracker.isStale({ ...entry, content: localContent });
+
+  const handleCancelAnalysis = () => {
+    analysisController.current?.abort();
+    analysisController.current = null;
+    setIsAnalyzing(false);
+    setStreamingSummary(null);
+  };
+
   return (
     <div className="flex flex-col h-full bg-white dark:bg-slate-900">
       {/* Editor Toolbar */}
@@ -69,46 +175,89 @@ export const Editor: React.FC<EditorProps> = ({ entry, onUpdate, onBack, setting
                 <ChevronLeft />
             </button>
             <div className="text-sm text-slate-400">
-                {format(new Date(entry.date), 'yyyy年M月d日', { locale: zhCN })} &bull; {format(new Date(entry.date), 'HH:mm')}
+                {formatDate(entry.date, 'date.long')} &bull; {formatDate(entry.date, 'date.time')}
             </div>
         </div>
         
         <div className="flex items-center space-x-3">
+            <span
+                className={`text-xs flex items-center ${saveStatus === 'unsaved' ? 'text-amber-500' : 'text-slate-300 dark:text-slate-600'}`}
+                aria-live="polite"
+            >
+                {saveStatus === 'saving' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                {saveStatus === 'saved' && <Check className="w-3 h-3 mr-1" />}
+                {t(SAVE_STATUS_LABELS[saveStatus])}
+            </span>
             <span className="text-xs text-slate-300 dark:text-slate-600 hidden sm:inline-block">
-                {localContent.length} 字
+                {t('editor.charCount', { count: localContent.length })}
             </span>
+            {isAutoAnalyzing && !isAnalyzing ? (
+                <span className="text-xs flex items-center text-indigo-400" title={t('analysis.autoRunning')}>
+                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                    {t('analysis.autoRunningShort')}
+                </span>
+            ) : isAnalysisStale && !isAnalyzing && (
+                <span
+                    className="text-xs flex items-center px-2 py-0.5 rounded-full bg-amber-50 text-amber-600 dark:bg-amber-900/30 dark:text-amber-300"
+                    title={t('analysis.staleHint')}
+                >
+                    <RefreshCw className="w-3 h-3 mr-1" />
+                    {t('analysis.stale')}
+                </span>
+            )}
             <button
-                onClick={() => onUpdate({ title: localTitle, content: localContent })}
-                className="p-2 text-slate-400 hover:text-indigo-600 transition-colors md:hidden"
+                onClick={() => setShowHistory(!showHistory)}
+                className={`p-2 transition-colors ${showHistory ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600'}`}
+                title={t('editor.history')}
             >
-                <Save className="w-5 h-5" />
+                <History className="w-5 h-5" />
             </button>
-            <button 
-                onClick={handleAnalyze}
-                disabled={isAnalyzing || !localContent}
-                className={`
-                    flex items-center px-4 py-2 rounded-full text-sm font-medium transition-all shadow-sm
-                    ${isAnalyzing 
-                        ? 'bg-slate-100 text-slate-400 cursor-not-allowed dark:bg-slate-800' 
-                        : 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white hover:from-indigo-600 hover:to-purple-700 hover:shadow-md'
-                    }
-                `}
+            <button
+                onClick={flush}
+                className="p-2 text-slate-400 hover:text-indigo-600 transition-colors md:hidden"
             >
-                {isAnalyzing ? (
-                    <>
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                        分析中...
-                    </>
-                ) : (
-                    <>
-                        <Sparkles className="w-4 h-4 mr-2" />
-                        AI 分析
-                    </>
-                )}
+                <Save className="w-5 h-5" />
             </button>
+            {isAnalyzing ? (
+                <button
+                    onClick={handleCancelAnalysis}
+                    className="flex items-center px-4 py-2 rounded-full text-sm font-medium transition-all shadow-sm bg-slate-100 text-slate-500 hover:text-red-500 dark:bg-slate-800"
+                    title={t('editor.cancelAnalysis')}
+                >
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    {t('editor.analyzing')}
+                    <X className="w-4 h-4 ml-2" />
+                </button>
+            ) : (
+                <button 
+                    onClick={handleAnalyze}
+                    disabled={!localContent}
+                    className="flex items-center px-4 py-2 rounded-full text-sm font-medium transition-all shadow-sm bg-gradient-to-r from-indigo-500 to-purple-600 text-white hover:from-indigo-600 hover:to-purple-700 hover:shadow-md"
+                >
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    {t('editor.analyze')}
+                </button>
+            )}
         </div>
       </div>
 
+      {/* Draft recovery */}
+      {recoverableDraft && (
+        <div className="flex items-center justify-between px-6 py-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-100 dark:border-amber-900/40 text-sm text-amber-800 dark:text-amber-200">
+            <span>{t('editor.draftFound', { time: formatDate(recoverableDraft.savedAt, 'date.shortTime') })}</span>
+            <div className="flex items-center space-x-2">
+                <button onClick={recoverDraft} className="flex items-center px-3 py-1 rounded-full bg-amber-500 text-white hover:bg-amber-600 transition-colors">
+                    <RotateCcw className="w-3 h-3 mr-1" /> {t('editor.restoreDraft')}
+                </button>
+                <button onClick={discardDraft} className="px-3 py-1 rounded-full text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors">
+                    {t('editor.discardDraft')}
+                </button>
+            </div>
+        </div>
+      )}
+
+      <MarkdownToolbar onCommand={handleCommand} viewMode={viewMode} onViewModeChange={setViewMode} />
+
       <div className="flex flex-1 overflow-hidden">
         {/* Main Text Area */}
         <div className="flex-1 flex flex-col h-full overflow-y-auto px-6 py-6 md:px-12 md:py-8 custom-scrollbar">
@@ -116,31 +265,61 @@ export const Editor: React.FC<EditorProps> = ({ entry, onUpdate, onBack, setting
                 type="text"
                 value={localTitle}
                 onChange={(e) => setLocalTitle(e.target.value)}
-                onBlur={handleBlur}
-                placeholder="给这篇日记起个标题..."
-                className="text-3xl md:text-4xl font-serif font-bold text-slate-800 dark:text-slate-100 placeholder-slate-300 dark:placeholder-slate-700 border-none outline-none bg-transparent mb-6 w-full"
+                onBlur={flush}
+                placeholder={t('editor.titlePlaceholder')}
+                className="text-3xl md:text-4xl font-serif font-bold text-slate-800 dark:text-slate-100 placeholder-slate-300 dark:placeholder-slate-700 border-none outline-none bg-transparent mb-3 w-full"
             />
-            <textarea
-                value={localContent}
-                onChange={(e) => setLocalContent(e.target.value)}
-                onBlur={handleBlur}
-                placeholder="今天有什么想说的？"
-                className="flex-1 w-full resize-none border-none outline-none bg-transparent text-lg leading-relaxed text-slate-600 dark:text-slate-300 placeholder-slate-300 dark:placeholder-slate-700 font-sans"
+            <TagInput
+                tags={entry.tags}
+                onChange={(tags) => onUpdate({ tags }, { coalesce: true }).catch(e => console.error("Failed to save tags", e))}
+                known={knownTags}
+                colors={settings.tagColors}
             />
+            <div className="flex-1 flex gap-8 min-h-0">
+                {viewMode !== 'preview' && (
+                    <textarea
+                        ref={textareaRef}
+                        value={localContent}
+                        onChange={(e) => setLocalContent(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        onBlur={flush}
+                        placeholder={t('editor.contentPlaceholder')}
+                        className={`flex-1 w-full resize-none border-none outline-none bg-transparent text-lg leading-relaxed text-slate-600 dark:text-slate-300 placeholder-slate-300 dark:placeholder-slate-700 font-sans ${viewMode === 'split' ? 'lg:w-1/2' : ''}`}
+                    />
+                )}
+                {viewMode !== 'edit' && (
+                    <div
+                        tabIndex={0}
+                        onKeyDown={handlePreviewKeyDown}
+                        className={`flex-1 outline-none text-lg leading-relaxed text-slate-600 dark:text-slate-300 ${viewMode === 'split' ? 'hidden lg:block lg:w-1/2 border-l border-gray-100 dark:border-slate-800 pl-8 overflow-y-auto' : ''}`}
+                    >
+                        {localContent.trim() ? (
+                            <MarkdownView markdown={localContent} onToggleTask={handleToggleTask} />
+                        ) : (
+                            <p className="text-slate-300 dark:text-slate-700">{t('editor.emptyPreview')}</p>
+                        )}
+                    </div>
+                )}
+            </div>
         </div>
 
+        {/* Revision History replaces the insights sidebar while open */}
+        {showHistory && (
+            <RevisionHistory entry={entry} onRestore={handleRestore} onClose={() => setShowHistory(false)} />
+        )}
+
         {/* AI Insights Sidebar (Right side, collapsible or persistent based on screen) */}
-        {(entry.summary || entry.aiAnalysis) && (
+        {!showHistory && (isAnalyzing || entry.summary || entry.aiAnalysis) && (
             <div className="w-72 bg-slate-50 dark:bg-slate-950 border-l border-gray-100 dark:border-slate-800 overflow-y-auto hidden xl:block p-6">
                 <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center">
-                    <Sparkles className="w-3 h-3 mr-1" /> AI 分析
+                    <Sparkles className="w-3 h-3 mr-1" /> {t('editor.analyze')}
                 </h4>
                 
                 {entry.mood && (
                     <div className="mb-6 text-center p-4 bg-white dark:bg-slate-900 rounded-xl shadow-sm">
                         <span className="text-4xl block mb-2">{entry.mood}</span>
                         <span className="text-xs font-medium text-slate-500 capitalize">
-                          {entry.sentiment === 'positive' ? '积极' : entry.sentiment === 'negative' ? '消极' : '中性'}
+                          {t(entry.sentiment === 'positive' ? 'sentiment.positive' : entry.sentiment === 'negative' ? 'sentiment.negative' : 'sentiment.neutral')}
                         </span>
                         {entry.sentimentScore !== undefined && (
                              <div className="w-full bg-gray-200 dark:bg-slate-800 rounded-full h-1.5 mt-2">
@@ -153,31 +332,28 @@ export const Editor: React.FC<EditorProps> = ({ entry, onUpdate, onBack, setting
                     </div>
                 )}
 
-                {entry.summary && (
+                {/* The summary streams in while the analysis is running */}
+                {isAnalyzing ? (
+                    <div className="mb-6">
+                        <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2 flex items-center">
+                            {t('editor.summary')} <Loader2 className="w-3 h-3 ml-2 animate-spin text-indigo-500" />
+                        </h5>
+                        <p className="text-sm text-slate-600 dark:text-slate-400 italic bg-white dark:bg-slate-900 p-3 rounded-lg border border-indigo-100 dark:border-indigo-900/50 min-h-[3rem]">
+                            {streamingSummary || t('editor.generating')}
+                        </p>
+                    </div>
+                ) : entry.summary && (
                     <div className="mb-6">
-                        <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">摘要</h5>
+                        <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">{t('editor.summary')}</h5>
                         <p className="text-sm text-slate-600 dark:text-slate-400 italic bg-white dark:bg-slate-900 p-3 rounded-lg border border-gray-100 dark:border-slate-800">
                             "{entry.summary}"
                         </p>
                     </div>
                 )}
 
-                {entry.tags && entry.tags.length > 0 && (
-                     <div className="mb-6">
-                        <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">标签</h5>
-                        <div className="flex flex-wrap gap-2">
-                            {entry.tags.map(t => (
-                                <span key={t} className="px-2 py-1 rounded-md bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-700 text-xs text-slate-500 flex items-center">
-                                    <Hash className="w-2 h-2 mr-1 opacity-50" />{t}
-                                </span>
-                            ))}
-                        </div>
-                     </div>
-                )}
-
                 {entry.aiAnalysis?.suggestions && (
                     <div>
-                         <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">建议</h5>
+                         <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">{t('editor.suggestions')}</h5>
                          <ul className="space-y-2">
                             {entry.aiAnalysis.suggestions.map((s, i) => (
                                 <li key={i} className="text-xs text-slate-600 dark:text-slate-400 flex items-start">
@@ -188,6 +364,12 @@ export const Editor: React.FC<EditorProps> = ({ entry, onUpdate, onBack, setting
                          </ul>
                     </div>
                 )}
+
+                {!isAnalyzing && entry.analyzedBy && (
+                    <p className="mt-6 text-xs text-slate-400">
+                        {t('editor.analyzedBy', { source: AIProviderService.describeAttribution(entry.analyzedBy) })}
+                    </p>
+                )}
             </div>
         )}
       </div>
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, Unlock, KeyRound, Loader2, ShieldCheck } from 'lucide-react';
+import { StorageService } from '../services/storageService';
+import { CryptoService } from '../services/cryptoService';
+import { useI18n } from '../hooks/useI18n';
+
+interface EncryptionSettingsProps {
+  onLock: () => void;
+}
+
+type Action = 'enable' | 'change' | 'disable' | null;
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = "w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+export const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ onLock }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [action, setAction] = useState<Action>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    StorageService.getEncryptionStatus()
+      .then(status => setEnabled(status.enabled))
+      .catch(e => console.error("Failed to read encryption status", e));
+  }, []);
+
+  const resetForm = (nextAction: Action) => {
+    setAction(nextAction);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (action !== 'disable') {
+      if (next.length < MIN_PASSPHRASE_LENGTH) {
+        setError(t('encryption.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (next !== confirm) {
+        setError(t('encryption.mismatch'));
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (action === 'enable') {
+        await StorageService.enableEncryption(next);
+        setEnabled(true);
+      } else if (action === 'change') {
+        await StorageService.changePassphrase(current, next);
+      } else if (action === 'disable') {
+        await StorageService.disableEncryption(current);
+        setEnabled(false);
+      }
+      resetForm(null);
+    } catch (err: any) {
+      setError(err.message || t('encryption.failed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleLock = () => {
+    StorageService.lock();
+    onLock();
+  };
+
+  if (!CryptoService.isSupported()) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {t('encryption.unsupported')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+            {enabled ? <ShieldCheck className="w-4 h-4 text-green-500" /> : <Unlock className="w-4 h-4 text-gray-400" />}
+            {t('encryption.title')}
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {enabled
+              ? t('encryption.enabledHint')
+              : t('encryption.disabledHint')}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {enabled ? (
+            <>
+              <button
+                onClick={handleLock}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 flex items-center gap-1"
+              >
+                <Lock className="w-4 h-4" /> {t('encryption.lockNow')}
+              </button>
+              <button
+                onClick={() => resetForm(action === 'change' ? null : 'change')}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 flex items-center gap-1"
+              >
+                <KeyRound className="w-4 h-4" /> {t('encryption.changePassword')}
+              </button>
+              <button
+                onClick={() => resetForm(action === 'disable' ? null : 'disable')}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-red-600 dark:text-red-400"
+              >
+                {t('encryption.disable')}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => resetForm(action === 'enable' ? null : 'enable')}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-primary-500 text-white"
+            >
+              {t('encryption.enable')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {action && (
+        <form onSubmit={handleSubmit} className="space-y-3 pt-2">
+          {action !== 'enable' && (
+            <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder={t('encryption.currentPassword')} className={inputClass} />
+          )}
+          {action !== 'disable' && (
+            <>
+              <input type="password" value={next} onChange={(e) => setNext(e.target.value)} placeholder={t('encryption.newPassword')} className={inputClass} />
+              <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder={t('encryption.confirmPassword')} className={inputClass} />
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            type="submit"
+            disabled={isWorking}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-primary-500 text-white disabled:opacity-60 flex items-center gap-2"
+          >
+            {isWorking && <Loader2 className="w-4 h-4 animate-spin" />}
+            {action === 'enable' ? t('encryption.submitEnable') : action === 'change' ? t('encryption.submitChange') : t('encryption.submitDisable')}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,13 @@
-import React from 'react';
-import { Entry } from '../types';
-import { Search, Plus, Trash2, Tag, Calendar, Frown, Meh, Smile } from 'lucide-react';
-import { format } from 'date-fns';
+import React, { useState } from 'react';
+import { Entry, TagColor } from '../types';
+import { Search, Plus, Trash2, Tag, Calendar, Frown, Meh, Smile, RefreshCw, Loader2, HelpCircle } from 'lucide-react';
+import { MarkdownService } from '../services/markdownService';
+import { AnalysisTracker } from '../services/analysisTracker';
+import { HighlightRange } from '../services/searchIndex';
+import { EntryMatch } from '../hooks/useEntrySearch';
+import { TagChip } from './TagChip';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
 
 interface EntryListProps {
   entries: Entry[];
@@ -9,10 +15,43 @@ interface EntryListProps {
   onSelect: (id: string) => void;
   onDelete: (id: string) => void;
   onCreate: () => void;
+  analyzingIds: ReadonlySet<string>; // Entries being analyzed in the background
   searchQuery: string;
   setSearchQuery: (q: string) => void;
+  searchMatches: ReadonlyMap<string, EntryMatch> | null;
+  invalidQuery: string[];
+  tagColors: Record<string, TagColor>;
 }
 
+// Examples shown in the search help, each with what it finds
+const SEARCH_SYNTAX: Array<[string, MessageKey]> = [
+  ['"a phrase"', 'entryList.syntax.phrase'],
+  ['tag:工作  #工作', 'entryList.syntax.tag'],
+  ['sentiment:negative', 'entryList.syntax.sentiment'],
+  ['mood:😊', 'entryList.syntax.mood'],
+  ['score:<40  score:40..60', 'entryList.syntax.score'],
+  ['after:2025-02  before:2025-04-15', 'entryList.syntax.dates'],
+  ['date:2025-03', 'entryList.syntax.date'],
+  ['-word  -tag:工作', 'entryList.syntax.negate'],
+];
+
+const Highlighted = ({ text, ranges }: { text: string, ranges: HighlightRange[] }) => {
+  if (!ranges.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200/80 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    at = end;
+  });
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+};
+
 const MoodIcon = ({ mood, sentiment }: { mood?: string, sentiment?: string }) => {
   if (mood) return <span className="text-lg">{mood}</span>;
   
@@ -27,19 +66,25 @@ export const EntryList: React.FC<EntryListProps> = ({
   onSelect, 
   onDelete, 
   onCreate,
+  analyzingIds,
   searchQuery,
-  setSearchQuery
+  setSearchQuery,
+  searchMatches,
+  invalidQuery,
+  tagColors
 }) => {
+  const { t, formatDate } = useI18n();
+  const [showSearchHelp, setShowSearchHelp] = useState(false);
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
       <div className="p-4 border-b border-gray-100 dark:border-slate-800 bg-white/50 dark:bg-slate-900/50 backdrop-blur-sm sticky top-0 z-10">
         <div className="flex justify-between items-center mb-4">
-          <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">My Journal</h2>
+          <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100">{t('entryList.title')}</h2>
           <button 
             onClick={onCreate}
             className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors shadow-sm"
-            aria-label="Create new entry"
+            aria-label={t('entryList.create')}
           >
             <Plus className="w-5 h-5" />
           </button>
@@ -49,70 +94,114 @@ export const EntryList: React.FC<EntryListProps> = ({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 group-focus-within:text-indigo-500 w-4 h-4 transition-colors" />
           <input
             type="text"
-            placeholder="Search entries..."
+            placeholder={t('entryList.search')}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 bg-slate-100 dark:bg-slate-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 text-slate-800 dark:text-slate-200 placeholder-slate-400 transition-all outline-none"
+            className="w-full pl-10 pr-9 py-2 bg-slate-100 dark:bg-slate-800 border-none rounded-lg text-sm focus:ring-2 focus:ring-indigo-500/20 text-slate-800 dark:text-slate-200 placeholder-slate-400 transition-all outline-none"
           />
+          <button
+            onClick={() => setShowSearchHelp(!showSearchHelp)}
+            className={`absolute right-2 top-1/2 transform -translate-y-1/2 p-1 rounded transition-colors ${showSearchHelp ? 'text-indigo-500' : 'text-slate-400 hover:text-indigo-500'}`}
+            title={t('entryList.searchHelp')}
+          >
+            <HelpCircle className="w-4 h-4" />
+          </button>
         </div>
+
+        {invalidQuery.length > 0 && (
+          <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+            {t('entryList.invalidQuery', { parts: invalidQuery.join(' ') })}
+          </p>
+        )}
+
+        {showSearchHelp && (
+          <div className="mt-3 p-3 rounded-lg bg-slate-100 dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-300 space-y-1.5">
+            {SEARCH_SYNTAX.map(([example, description]) => (
+              <div key={example} className="flex items-baseline gap-2">
+                <code className="shrink-0 font-mono text-indigo-600 dark:text-indigo-300">{example}</code>
+                <span className="text-slate-500 dark:text-slate-400">{t(description)}</span>
+              </div>
+            ))}
+            <p className="pt-1 text-slate-400">{t('entryList.syntax.combine')}</p>
+          </div>
+        )}
       </div>
 
       {/* List */}
       <div className="flex-1 overflow-y-auto p-3 space-y-2">
         {entries.length === 0 ? (
           <div className="text-center py-10 text-slate-400 text-sm">
-            {searchQuery ? "No matching entries found." : "No entries yet. Start writing!"}
+            {searchQuery ? t('entryList.noMatches') : t('entryList.empty')}
           </div>
         ) : (
-          entries.map(entry => (
-            <div 
-              key={entry.id}
-              onClick={() => onSelect(entry.id)}
-              className={`
-                group relative p-4 rounded-xl cursor-pointer transition-all duration-200 border
-                ${selectedId === entry.id 
-                  ? 'bg-white dark:bg-slate-800 border-indigo-200 dark:border-indigo-900 shadow-md ring-1 ring-indigo-500/10' 
-                  : 'bg-transparent border-transparent hover:bg-white dark:hover:bg-slate-800 hover:shadow-sm hover:border-gray-100 dark:hover:border-slate-700'
-                }
-              `}
-            >
-              <div className="flex justify-between items-start mb-1">
-                <span className="text-xs font-medium text-slate-400 flex items-center">
-                  <Calendar className="w-3 h-3 mr-1" />
-                  {format(new Date(entry.date), 'MMM d, yyyy')}
-                </span>
-                <div className="flex items-center space-x-2">
-                   <MoodIcon mood={entry.mood} sentiment={entry.sentiment} />
-                   <button 
-                     onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
-                     className="opacity-0 group-hover:opacity-100 p-1 text-slate-400 hover:text-red-500 transition-opacity"
-                     title="Delete"
-                   >
-                     <Trash2 className="w-3 h-3" />
-                   </button>
+          entries.map(entry => {
+            const match = searchMatches?.get(entry.id);
+            return (
+              <div 
+                key={entry.id}
+                onClick={() => onSelect(entry.id)}
+                className={`
+                  group relative p-4 rounded-xl cursor-pointer transition-all duration-200 border
+                  ${selectedId === entry.id 
+                    ? 'bg-white dark:bg-slate-800 border-indigo-200 dark:border-indigo-900 shadow-md ring-1 ring-indigo-500/10' 
+                    : 'bg-transparent border-transparent hover:bg-white dark:hover:bg-slate-800 hover:shadow-sm hover:border-gray-100 dark:hover:border-slate-700'
+                  }
+                `}
+              >
+                <div className="flex justify-between items-start mb-1">
+                  <span className="text-xs font-medium text-slate-400 flex items-center">
+                    <Calendar className="w-3 h-3 mr-1" />
+                    {formatDate(entry.date, 'date.medium')}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                     {analyzingIds.has(entry.id) ? (
+                       <span title={t('analysis.autoRunning')}>
+                         <Loader2 className="w-3 h-3 text-indigo-400 animate-spin" />
+                       </span>
+                     ) : AnalysisTracker.isStale(entry) && (
+                       <span title={t('analysis.staleHint')}>
+                         <RefreshCw className="w-3 h-3 text-amber-500" />
+                       </span>
+                     )}
+                     <MoodIcon mood={entry.mood} sentiment={entry.sentiment} />
+                     <button 
+                       onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
+                       className="opacity-0 group-hover:opacity-100 p-1 text-slate-400 hover:text-red-500 transition-opacity"
+                       title={t('common.delete')}
+                     >
+                       <Trash2 className="w-3 h-3" />
+                     </button>
+                  </div>
                 </div>
-              </div>
-              
-              <h3 className={`font-serif font-semibold text-base mb-1 line-clamp-1 ${selectedId === entry.id ? 'text-indigo-900 dark:text-indigo-100' : 'text-slate-700 dark:text-slate-200'}`}>
-                {entry.title || "Untitled Entry"}
-              </h3>
-              
-              <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2 mb-2">
-                {entry.content || "No content..."}
-              </p>
+                
+                <h3 className={`font-serif font-semibold text-base mb-1 line-clamp-1 ${selectedId === entry.id ? 'text-indigo-900 dark:text-indigo-100' : 'text-slate-700 dark:text-slate-200'}`}>
+                  {entry.title
+                    ? <Highlighted text={entry.title} ranges={match?.title ?? []} />
+                    : t('common.untitledEntry')}
+                </h3>
+                
+                <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2 mb-2">
+                  {match?.snippet
+                    ? <Highlighted text={match.snippet.text} ranges={match.snippet.ranges} />
+                    : MarkdownService.toPlainText(entry.content) || t('entryList.noContent')}
+                </p>
 
-              {entry.tags && entry.tags.length > 0 && (
-                <div className="flex flex-wrap gap-1 mt-2">
-                  {entry.tags.slice(0, 3).map(tag => (
-                    <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">
-                      <Tag className="w-2 h-2 mr-1" />
-                      {tag}
-                    </span>
-                  ))}
-                </div>
-              )}
-            </div>
-          ))
+                {entry.tags && entry.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {entry.tags.slice(0, 3).map(tag => (
+                      <TagChip
+                        key={tag}
+                        tag={tag}
+                        colors={tagColors}
+                        icon={<Tag className="w-2 h-2 mr-1" />}
+                        className="px-2 py-0.5 text-[10px]"
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
         )}
       </div>
     </div>
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Upload, FolderOpen, X, Loader2, AlertTriangle, Tag } from 'lucide-react';
+import { Entry, TagColor } from '../types';
+import { IMPORTERS, ImporterId, ImportFile, ImportResult, detectImporter, getImporter, readImportFiles } from '../services/importers';
+import { MarkdownService } from '../services/markdownService';
+import { TagChip } from './TagChip';
+import { useI18n } from '../hooks/useI18n';
+
+interface ImportDialogProps {
+  existingIds: ReadonlySet<string>;
+  tagColors: Record<string, TagColor>;
+  onImport: (entries: Entry[]) => void;
+  onClose: () => void;
+}
+
+// Rows rendered in the preview; the rest are still imported
+const PREVIEW_LIMIT = 200;
+
+const ACCEPT = '.json,.md,.markdown,.txt,.zip';
+
+const byDateDesc = (a: Entry, b: Entry) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+// Picks files from Lumina or another journaling app, reads them with the
+// detected (or chosen) format and previews the entries before they are added
+export const ImportDialog: React.FC<ImportDialogProps> = ({ existingIds, tagColors, onImport, onClose }) => {
+  const { t, formatDate } = useI18n();
+  const [files, setFiles] = useState<ImportFile[] | null>(null);
+  const [importerId, setImporterId] = useState<ImporterId | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [showWarnings, setShowWarnings] = useState(false);
+
+  // Parse again whenever the files or the format change
+  useEffect(() => {
+    if (!files || !importerId) return;
+    let cancelled = false;
+    setIsReading(true);
+    setError(null);
+    getImporter(importerId)
+      .parse(files, { askPassphrase: () => window.prompt(t('sidebar.backupPassphrase')) })
+      .then(parsed => {
+        if (cancelled) return;
+        setResult({ ...parsed, entries: [...parsed.entries].sort(byDateDesc) });
+        setExcluded(new Set());
+      })
+      .catch((e: any) => {
+        if (cancelled) return;
+        setResult(null);
+        setError(e.message || t('sidebar.importFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsReading(false);
+      });
+    return () => { cancelled = true; };
+  }, [files, importerId]);
+
+  const handlePick = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = [...(event.target.files || [])];
+    event.target.value = '';
+    if (!picked.length) return;
+    setIsReading(true);
+    setError(null);
+    setResult(null);
+    try {
+      const read = await readImportFiles(picked);
+      if (!read.length) throw new Error(t('import.noFiles'));
+      setFiles(read);
+      setImporterId((detectImporter(read) ?? IMPORTERS[0]).id);
+    } catch (e: any) {
+      setFiles(null);
+      setError(e.message || t('sidebar.importFailed'));
+      setIsReading(false);
+    }
+  };
+
+  const entries = result?.entries ?? [];
+  const selected = useMemo(
+    () => entries.filter(e => !existingIds.has(e.id) && !excluded.has(e.id)),
+    [entries, existingIds, excluded]
+  );
+  const existingCount = entries.filter(e => existingIds.has(e.id)).length;
+
+  const toggle = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    onImport(selected);
+    alert(t('sidebar.importSuccess', { count: selected.length }));
+    onClose();
+  };
+
+  const pickerClass = "flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 dark:border-slate-700 text-sm text-slate-600 dark:text-slate-300 hover:border-indigo-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors cursor-pointer";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-xl border border-gray-100 dark:border-slate-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <header className="flex items-center justify-between px-6 py-4 border-b border-gray-100 dark:border-slate-800">
+          <h2 className="text-lg font-serif font-bold text-slate-800 dark:text-slate-100">{t('import.title')}</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title={t('import.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </header>
+
+        <div className="px-6 py-4 space-y-4 border-b border-gray-100 dark:border-slate-800">
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={pickerClass}>
+              <Upload className="w-4 h-4" />
+              {t('import.pickFiles')}
+              <input type="file" multiple accept={ACCEPT} onChange={handlePick} className="hidden" />
+            </label>
+            <label className={pickerClass}>
+              <FolderOpen className="w-4 h-4" />
+              {t('import.pickFolder')}
+              {/* webkitdirectory is not in React's attribute types */}
+              <input type="file" ref={input => input?.setAttribute('webkitdirectory', '')} onChange={handlePick} className="hidden" />
+            </label>
+            {files && (
+              <span className="text-xs text-slate-400">{t('import.fileCount', { count: files.length })}</span>
+            )}
+          </div>
+
+          {files ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm text-slate-500 dark:text-slate-400">{t('import.format')}</label>
+              <select
+                value={importerId ?? ''}
+                onChange={(e) => setImporterId(e.target.value as ImporterId)}
+                className="px-3 py-1.5 rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200"
+              >
+                {IMPORTERS.map(importer => (
+                  <option key={importer.id} value={importer.id}>{t(importer.name)}</option>
+                ))}
+              </select>
+              {importerId && <span className="text-xs text-slate-400">{t(getImporter(importerId).description)}</span>}
+            </div>
+          ) : (
+            <ul className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+              {IMPORTERS.map(importer => (
+                <li key={importer.id}>
+                  <span className="font-medium text-slate-600 dark:text-slate-300">{t(importer.name)}</span>
+                  {' · '}{t(importer.description)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {isReading ? (
+            <div className="py-10 flex justify-center text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="px-4 py-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : result && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-sm text-slate-500 dark:text-slate-400">
+                <span>
+                  {t('import.found', { count: entries.length })}
+                  {existingCount > 0 && ` · ${t('import.alreadyThere', { count: existingCount })}`}
+                </span>
+                {entries.length > existingCount && (
+                  <div className="flex gap-3 text-xs">
+                    <button onClick={() => setExcluded(new Set())} className="text-indigo-600 dark:text-indigo-400 hover:underline">{t('import.selectAll')}</button>
+                    <button onClick={() => setExcluded(new Set(entries.map(e => e.id)))} className="text-indigo-600 dark:text-indigo-400 hover:underline">{t('import.selectNone')}</button>
+                  </div>
+                )}
+              </div>
+
+              {result.warnings.length > 0 && (
+                <div className="mb-3 px-4 py-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200">
+                  <button onClick={() => setShowWarnings(!showWarnings)} className="flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    {t('import.warnings', { count: result.warnings.length })}
+                  </button>
+                  {showWarnings && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {result.warnings.map((warning, i) => (
+                        <li key={i}><span className="font-mono">{warning.path}</span>: {t(warning.message)}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {entries.length === 0 ? (
+                <p className="py-10 text-center text-sm text-slate-400">{t('import.nothingFound')}</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-slate-800">
+                  {entries.slice(0, PREVIEW_LIMIT).map(entry => {
+                    const exists = existingIds.has(entry.id);
+                    return (
+                      <li key={entry.id} className={`flex items-start gap-3 py-3 ${exists ? 'opacity-50' : ''}`}>
+                        <input
+                          type="checkbox"
+                          checked={!exists && !excluded.has(entry.id)}
+                          disabled={exists}
+                          onChange={() => toggle(entry.id)}
+                          className="mt-1 rounded text-indigo-600"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-baseline gap-2">
+                            <span className="font-serif font-semibold text-slate-700 dark:text-slate-200 truncate">
+                              {entry.title || t('common.untitledEntry')}
+                            </span>
+                            <span className="text-xs text-slate-400 shrink-0">{formatDate(entry.date, 'date.shortDateTime')}</span>
+                            {exists && <span className="text-xs text-slate-400 shrink-0">{t('import.exists')}</span>}
+                          </div>
+                          <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2">
+                            {MarkdownService.toPlainText(entry.content).slice(0, 200)}
+                          </p>
+                          {entry.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {entry.tags.map(tag => (
+                                <TagChip
+                                  key={tag}
+                                  tag={tag}
+                                  colors={tagColors}
+                                  icon={<Tag className="w-2 h-2 mr-1" />}
+                                  className="px-2 py-0.5 text-[10px]"
+                                />
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                  {entries.length > PREVIEW_LIMIT && (
+                    <li className="py-3 text-center text-xs text-slate-400">{t('import.more', { count: entries.length - PREVIEW_LIMIT })}</li>
+                  )}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+
+        <footer className="flex items-center justify-end gap-2 px-6 py-4 border-t border-gray-100 dark:border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+            {t('import.cancel')}
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isReading || selected.length === 0}
+            className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('import.confirm', { count: selected.length })}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Entry, AppSettings, ChatMessage } from '../types';
+import { AIProviderService } from '../services/aiProviderService';
+import { getProvider } from '../services/providers';
+import { MarkdownView, TextRenderer } from './MarkdownView';
+import { useJournalChat } from '../hooks/useJournalChat';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+import { MessageCircle, Plus, Trash2, Send, Loader2, X, BookOpen, Sparkles } from 'lucide-react';
+
+interface JournalChatProps {
+  entries: Entry[];
+  settings: AppSettings;
+  onOpenEntry: (id: string) => void;
+}
+
+const EXAMPLES: MessageKey[] = ['chat.example1', 'chat.example2', 'chat.example3'];
+
+// Citation markers the answers use: [1], [2]...
+const CITATION = /\[(\d+)\]/;
+
+export const JournalChat: React.FC<JournalChatProps> = ({ entries, settings, onOpenEntry }) => {
+  const { t, formatDate } = useI18n();
+  const chat = useJournalChat(entries, settings);
+  const [question, setQuestion] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const entriesById = useMemo(() => new Map(entries.map(e => [e.id, e])), [entries]);
+
+  const messages = chat.active?.messages ?? [];
+  const pending = chat.pending && chat.pending.conversationId === chat.active?.id ? chat.pending : null;
+
+  // Follow the conversation as it grows
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, pending?.content, chat.active?.id]);
+
+  const handleSubmit = () => {
+    if (!question.trim() || chat.pending) return;
+    chat.ask(question);
+    setQuestion('');
+  };
+
+  // Turns [n] into a link to the n-th source. Markers with no source, or
+  // whose entry was since deleted, stay as they are.
+  const citations = (sources: string[]): TextRenderer => (text) => {
+    const parts = text.split(CITATION);
+    if (parts.length === 1) return text;
+    return parts.map((part, i) => {
+      if (i % 2 === 0) return part;
+      const entry = entriesById.get(sources[Number(part) - 1]);
+      if (!entry) return `[${part}]`;
+      return (
+        <button
+          key={i}
+          onClick={() => onOpenEntry(entry.id)}
+          title={`${entry.title || t('common.untitledEntry')} · ${formatDate(entry.date, 'date.medium')}`}
+          className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 rounded bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 text-xs font-semibold not-italic align-text-top hover:bg-indigo-200 dark:hover:bg-indigo-800 transition-colors"
+        >
+          {part}
+        </button>
+      );
+    });
+  };
+
+  const renderSources = (sources: string[]) => (
+    <div className="mt-3 pt-3 border-t border-gray-100 dark:border-slate-800">
+      <div className="text-xs font-medium text-slate-400 mb-2 flex items-center gap-1">
+        <BookOpen className="w-3 h-3" />
+        {t('chat.sources')}
+      </div>
+      <ol className="space-y-1">
+        {sources.map((id, i) => {
+          const entry = entriesById.get(id);
+          return (
+            <li key={id} className="text-xs">
+              {entry ? (
+                <button
+                  onClick={() => onOpenEntry(id)}
+                  className="text-left text-slate-600 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                >
+                  <span className="font-semibold text-indigo-500 mr-1">[{i + 1}]</span>
+                  {entry.title || t('common.untitledEntry')}
+                  <span className="text-slate-400 ml-2">{formatDate(entry.date, 'date.medium')}</span>
+                </button>
+              ) : (
+                <span className="text-slate-400">
+                  <span className="font-semibold mr-1">[{i + 1}]</span>
+                  {t('chat.deletedEntry')}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+
+  const renderAnswer = (content: string, sources: string[], footer?: React.ReactNode) => (
+    <div className="max-w-3xl bg-white dark:bg-slate-900 rounded-2xl rounded-tl-sm px-5 py-4 shadow-sm border border-gray-100 dark:border-slate-800 text-sm text-slate-700 dark:text-slate-200 leading-relaxed">
+      <MarkdownView markdown={content} renderText={citations(sources)} />
+      {sources.length > 0 && renderSources(sources)}
+      {footer}
+    </div>
+  );
+
+  const renderMessage = (message: ChatMessage) => message.role === 'user' ? (
+    <div key={message.id} className="flex justify-end">
+      <div className="max-w-2xl bg-indigo-600 text-white rounded-2xl rounded-tr-sm px-4 py-2.5 text-sm whitespace-pre-wrap break-words">
+        {message.content}
+      </div>
+    </div>
+  ) : (
+    <div key={message.id} className="flex">
+      {renderAnswer(message.content, message.sources ?? [], message.generatedBy && (
+        <p className="mt-3 text-[11px] text-slate-400 flex items-center gap-1">
+          <Sparkles className="w-3 h-3" />
+          {t('analytics.generatedBy', { source: AIProviderService.describeAttribution(message.generatedBy) })}
+        </p>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex-1 flex h-full overflow-hidden bg-gray-50 dark:bg-slate-950">
+      {/* Conversations */}
+      <aside className="hidden md:flex flex-col w-64 border-r border-gray-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+        <div className="p-4">
+          <button
+            onClick={chat.startNew}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm"
+          >
+            <Plus className="w-4 h-4" />
+            {t('chat.new')}
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+          {!chat.isLoading && chat.conversations.length === 0 && (
+            <p className="px-3 py-6 text-center text-xs text-slate-400">{t('chat.noConversations')}</p>
+          )}
+          {chat.conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              onClick={() => chat.select(conversation.id)}
+              className={`group flex items-start gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors ${
+                chat.active?.id === conversation.id
+                  ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300'
+                  : 'text-slate-600 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-800'
+              }`}
+            >
+              <MessageCircle className="w-4 h-4 mt-0.5 shrink-0 opacity-60" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{conversation.title}</div>
+                <div className="text-[11px] text-slate-400">{formatDate(conversation.updatedAt, 'date.shortDateTime')}</div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (confirm(t('chat.confirmDelete'))) chat.remove(conversation.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 p-1 text-slate-400 hover:text-red-500 transition-opacity"
+                title={t('common.delete')}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      {/* Messages */}
+      <div className="flex-1 flex flex-col min-w-0">
+        <header className="px-6 py-4 border-b border-gray-200 dark:border-slate-800 bg-white/50 dark:bg-slate-900/50 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h1 className="text-lg font-serif font-bold text-slate-800 dark:text-slate-100 truncate">
+              {chat.active?.title || t('chat.title')}
+            </h1>
+            <p className="text-xs text-slate-400">{t('chat.hint', { provider: getProvider(settings.activeProvider).name })}</p>
+          </div>
+          <button
+            onClick={chat.startNew}
+            className="md:hidden p-2 text-slate-500 hover:text-indigo-600 transition-colors"
+            title={t('chat.new')}
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        </header>
+
+        <div className="flex-1 overflow-y-auto px-6 py-6 space-y-5">
+          {messages.length === 0 && !pending ? (
+            <div className="h-full flex flex-col items-center justify-center text-center text-slate-400">
+              <div className="w-16 h-16 mb-4 rounded-full bg-indigo-50 dark:bg-slate-900 flex items-center justify-center">
+                <MessageCircle className="w-8 h-8 text-indigo-300 dark:text-slate-600" />
+              </div>
+              <h2 className="text-lg font-medium text-slate-600 dark:text-slate-300 mb-1">{t('chat.emptyTitle')}</h2>
+              <p className="text-sm mb-6 max-w-md">{t('chat.emptyHint')}</p>
+              <div className="flex flex-col gap-2 w-full max-w-md">
+                {EXAMPLES.map(example => (
+                  <button
+                    key={example}
+                    onClick={() => chat.ask(t(example))}
+                    disabled={!!chat.pending || entries.length === 0}
+                    className="px-4 py-2 rounded-lg bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800 text-sm text-slate-600 dark:text-slate-300 hover:border-indigo-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {t(example)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <>
+              {messages.map(renderMessage)}
+              {pending && (
+                <div className="flex">
+                  {pending.content ? renderAnswer(pending.content, pending.sources) : (
+                    <div className="bg-white dark:bg-slate-900 rounded-2xl rounded-tl-sm px-5 py-4 shadow-sm border border-gray-100 dark:border-slate-800 text-sm text-slate-400 flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      {t('chat.searching', { count: pending.sources.length })}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+          {chat.error && (
+            <div className="px-4 py-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+              {chat.error}
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {/* Question */}
+        <div className="p-4 border-t border-gray-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+          <div className="max-w-3xl mx-auto flex items-end gap-2">
+            <textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                // Enter sends; Shift+Enter and confirming an input method's candidate do not
+                if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+              rows={2}
+              placeholder={entries.length ? t('chat.placeholder') : t('chat.noEntries')}
+              disabled={entries.length === 0}
+              className="flex-1 resize-none px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-200 placeholder-slate-400 outline-none focus:ring-2 focus:ring-indigo-500/30 disabled:opacity-60"
+            />
+            {chat.pending ? (
+              <button
+                onClick={chat.cancel}
+                className="p-3 rounded-xl bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-200 hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+                title={t('chat.stop')}
+              >
+                <X className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSubmit}
+                disabled={!question.trim() || entries.length === 0}
+                className="p-3 rounded-xl bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={t('chat.send')}
+              >
+                <Send className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  Heading1, Heading2, Heading3, Bold, Italic, Strikethrough, List, ListOrdered, ListChecks, Quote,
+  PenLine, Columns2, Eye,
+} from 'lucide-react';
+import { MarkdownCommand } from '../services/markdownService';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+
+export type EditorViewMode = 'edit' | 'split' | 'preview';
+
+interface MarkdownToolbarProps {
+  onCommand: (command: MarkdownCommand) => void;
+  viewMode: EditorViewMode;
+  onViewModeChange: (mode: EditorViewMode) => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD = isMac ? '⌘' : 'Ctrl+';
+
+export const COMMANDS: Array<{ command: MarkdownCommand; icon: React.ElementType; label: MessageKey; shortcut: string }> = [
+  { command: 'heading1', icon: Heading1, label: 'toolbar.heading1', shortcut: `${MOD}Alt+1` },
+  { command: 'heading2', icon: Heading2, label: 'toolbar.heading2', shortcut: `${MOD}Alt+2` },
+  { command: 'heading3', icon: Heading3, label: 'toolbar.heading3', shortcut: `${MOD}Alt+3` },
+  { command: 'bold', icon: Bold, label: 'toolbar.bold', shortcut: `${MOD}B` },
+  { command: 'italic', icon: Italic, label: 'toolbar.italic', shortcut: `${MOD}I` },
+  { command: 'strike', icon: Strikethrough, label: 'toolbar.strike', shortcut: `${MOD}Shift+X` },
+  { command: 'bulletList', icon: List, label: 'toolbar.bulletList', shortcut: `${MOD}Shift+8` },
+  { command: 'orderedList', icon: ListOrdered, label: 'toolbar.orderedList', shortcut: `${MOD}Shift+7` },
+  { command: 'taskList', icon: ListChecks, label: 'toolbar.taskList', shortcut: `${MOD}Shift+9` },
+  { command: 'quote', icon: Quote, label: 'toolbar.quote', shortcut: `${MOD}Shift+.` },
+];
+
+// Maps a keydown to a formatting command, matching the shortcuts listed above
+export const commandForShortcut = (e: React.KeyboardEvent): MarkdownCommand | null => {
+  if (!(e.metaKey || e.ctrlKey)) return null;
+  if (e.altKey) {
+    return ({ Digit1: 'heading1', Digit2: 'heading2', Digit3: 'heading3' } as Record<string, MarkdownCommand>)[e.code] || null;
+  }
+  if (e.shiftKey) {
+    return ({ KeyX: 'strike', Digit8: 'bulletList', Digit7: 'orderedList', Digit9: 'taskList', Period: 'quote' } as Record<string, MarkdownCommand>)[e.code] || null;
+  }
+  return ({ KeyB: 'bold', KeyI: 'italic' } as Record<string, MarkdownCommand>)[e.code] || null;
+};
+
+const VIEW_MODES: Array<{ mode: EditorViewMode; icon: React.ElementType; label: MessageKey; shortcut?: string }> = [
+  { mode: 'edit', icon: PenLine, label: 'toolbar.edit' },
+  { mode: 'split', icon: Columns2, label: 'toolbar.split' },
+  { mode: 'preview', icon: Eye, label: 'toolbar.preview', shortcut: `${MOD}E` },
+];
+
+export const MarkdownToolbar: React.FC<MarkdownToolbarProps> = ({ onCommand, viewMode, onViewModeChange }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center justify-between px-4 md:px-10 py-1.5 border-b border-gray-100 dark:border-slate-800 overflow-x-auto">
+      <div className={`flex items-center space-x-0.5 ${viewMode === 'preview' ? 'invisible' : ''}`}>
+        {COMMANDS.map(({ command, icon: Icon, label, shortcut }) => (
+          <button
+            key={command}
+            // Keep focus (and the selection) in the textarea
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onCommand(command)}
+            className="p-1.5 rounded text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            title={`${t(label)} (${shortcut})`}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center rounded-md bg-gray-100 dark:bg-slate-800 p-0.5 ml-2">
+        {VIEW_MODES.map(({ mode, icon: Icon, label, shortcut }) => (
+          <button
+            key={mode}
+            onClick={() => onViewModeChange(mode)}
+            className={`p-1.5 rounded transition-colors ${
+              viewMode === mode ? 'bg-white dark:bg-slate-700 text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+            } ${mode === 'split' ? 'hidden lg:block' : ''}`}
+            title={shortcut ? `${t(label)} (${shortcut})` : t(label)}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { MarkdownService, MarkdownBlock, MarkdownInline, MarkdownList } from '../services/markdownService';
+
+interface MarkdownViewProps {
+  markdown: string;
+  // Makes task-list checkboxes clickable; receives the source line to toggle
+  onToggleTask?: (line: number) => void;
+  renderText?: TextRenderer;
+  className?: string;
+}
+
+// Renders the plain text runs, e.g. to turn markers in them into links
+export type TextRenderer = (text: string) => React.ReactNode;
+
+const HEADING_STYLES = [
+  'text-2xl font-serif font-bold mt-6 mb-3',
+  'text-xl font-serif font-bold mt-5 mb-2',
+  'text-lg font-semibold mt-4 mb-2',
+  'text-base font-semibold mt-3 mb-1',
+  'text-sm font-semibold mt-3 mb-1',
+  'text-sm font-semibold mt-3 mb-1 opacity-80',
+];
+
+export const renderInline = (nodes: MarkdownInline[], renderText?: TextRenderer): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{renderText ? renderText(node.value) : node.value}</React.Fragment>;
+      case 'break':
+        return <br key={i} />;
+      case 'strong':
+        return <strong key={i} className="font-semibold">{renderInline(node.children, renderText)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children, renderText)}</em>;
+      case 'del':
+        return <del key={i} className="opacity-70">{renderInline(node.children, renderText)}</del>;
+      case 'code':
+        return <code key={i} className="px-1 py-0.5 rounded bg-black/5 dark:bg-white/10 font-mono text-[0.9em]">{node.value}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:opacity-80">
+            {renderInline(node.children, renderText)}
+          </a>
+        );
+    }
+  });
+
+const ListView: React.FC<{ list: MarkdownList; onToggleTask?: (line: number) => void; renderText?: TextRenderer }> = ({ list, onToggleTask, renderText }) => {
+  const Tag = list.ordered ? 'ol' : 'ul';
+  const isTaskList = list.items.some(item => item.checked !== undefined);
+
+  return (
+    <Tag
+      start={list.ordered ? list.start : undefined}
+      className={`my-2 space-y-1 ${isTaskList ? 'pl-1' : list.ordered ? 'pl-6 list-decimal' : 'pl-6 list-disc'}`}
+    >
+      {list.items.map((item, i) => (
+        <li key={i} className={item.checked !== undefined ? 'list-none' : ''}>
+          {item.checked !== undefined ? (
+            <label className={`inline-flex items-start gap-2 ${onToggleTask ? 'cursor-pointer' : ''}`}>
+              <input
+                type="checkbox"
+                checked={item.checked}
+                disabled={!onToggleTask}
+                onChange={() => onToggleTask?.(item.line)}
+                className="mt-1 accent-indigo-500"
+              />
+              <span className={item.checked ? 'line-through opacity-60' : ''}>{renderInline(item.children, renderText)}</span>
+            </label>
+          ) : (
+            renderInline(item.children, renderText)
+          )}
+          {item.sublists?.map((sublist, j) => <ListView key={j} list={sublist} onToggleTask={onToggleTask} renderText={renderText} />)}
+        </li>
+      ))}
+    </Tag>
+  );
+};
+
+export const BlockView: React.FC<{ block: MarkdownBlock; onToggleTask?: (line: number) => void; renderText?: TextRenderer }> = ({ block, onToggleTask, renderText }) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag className={HEADING_STYLES[block.level - 1]}>{renderInline(block.children, renderText)}</Tag>;
+    }
+    case 'paragraph':
+      return <p className="my-2">{renderInline(block.children, renderText)}</p>;
+    case 'blockquote':
+      return (
+        <blockquote className="my-3 pl-4 border-l-4 border-indigo-200 dark:border-indigo-800 italic opacity-90">
+          {block.children.map((child, i) => <BlockView key={i} block={child} onToggleTask={onToggleTask} renderText={renderText} />)}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre className="my-3 p-3 rounded-lg bg-black/5 dark:bg-white/10 overflow-x-auto text-sm font-mono">
+          <code>{block.value}</code>
+        </pre>
+      );
+    case 'hr':
+      return <hr className="my-6 border-current opacity-20" />;
+    case 'list':
+      return <ListView list={block} onToggleTask={onToggleTask} renderText={renderText} />;
+  }
+};
+
+export const MarkdownView: React.FC<MarkdownViewProps> = ({ markdown, onToggleTask, renderText, className = '' }) => {
+  const blocks = useMemo(() => MarkdownService.parse(markdown), [markdown]);
+
+  return (
+    <div className={`break-words ${className}`}>
+      {blocks.map((block, i) => <BlockView key={i} block={block} onToggleTask={onToggleTask} renderText={renderText} />)}
+    </div>
+  );
+};
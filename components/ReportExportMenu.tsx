@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Download, ChevronDown, FileText, Globe, Printer } from 'lucide-react';
+import { Report } from '../types';
+import { ReportExportService, ReportExportFormat, ReportExportContext } from '../services/reportExport';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+
+interface ReportExportMenuProps {
+  reports: Report[];
+  context: ReportExportContext;
+  label?: string;
+}
+
+const FORMATS: Array<{ format: ReportExportFormat; label: MessageKey; icon: React.ElementType }> = [
+  { format: 'markdown', label: 'export.markdown', icon: FileText },
+  { format: 'html', label: 'export.html', icon: Globe },
+  { format: 'pdf', label: 'export.pdf', icon: Printer },
+];
+
+// Export button for the AI report card; opens a menu of formats
+export const ReportExportMenu: React.FC<ReportExportMenuProps> = ({ reports, context, label }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ReportExportFormat) => {
+    setIsOpen(false);
+    ReportExportService.export(format, reports, context);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!reports.length}
+        className="bg-white/20 backdrop-blur-sm px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-white/30 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-4 h-4" />
+        {label || t('export.title')}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute top-full mt-2 right-0 bg-white dark:bg-slate-800 rounded-xl shadow-xl overflow-hidden z-10 min-w-[160px]">
+          {FORMATS.map(({ format, label: formatLabel, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full px-4 py-2.5 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-slate-700 flex items-center gap-2"
+            >
+              <Icon className="w-4 h-4" />
+              {t(formatLabel)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,399 @@
+import React, { useState, useMemo } from 'react';
+import { Entry, AppSettings, Report, ReportType, DateRange } from '../types';
+import { AIProviderService } from '../services/aiProviderService';
+import { ReportTemplates } from '../services/reportTemplates';
+import { ReportViewer } from './ReportViewer';
+import { ReportExportMenu } from './ReportExportMenu';
+import { useReportGenerator } from '../hooks/useReportGenerator';
+import { useI18n } from '../hooks/useI18n';
+import {
+  Library, Pin, PinOff, Pencil, RefreshCw, Trash2, Columns2, Check, X, Loader2, Sparkles, FileText
+} from 'lucide-react';
+import { startOfYear, endOfYear, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
+
+interface ReportLibraryProps {
+  entries: Entry[];
+  settings: AppSettings;
+  reports: Report[];
+  onReportGenerated: (report: Report) => void;
+  onUpdateReport: (id: string, updates: Partial<Report>) => void;
+  onDeleteReport: (id: string) => void;
+}
+
+// Shown for reports whose template has since been deleted
+const FALLBACK_ICON = '📝';
+
+const MONTHS = Array.from({ length: 12 }, (_, month) => month);
+
+const rangeOf = (report: Report): DateRange => ({ start: new Date(report.startDate), end: new Date(report.endDate) });
+
+// Every saved report, with filters, housekeeping, regeneration for the same
+// range, and a side-by-side view of two reports made from the same template
+export const ReportLibrary: React.FC<ReportLibraryProps> = ({
+  entries, settings, reports, onReportGenerated, onUpdateReport, onDeleteReport
+}) => {
+  const { t, formatDate } = useI18n();
+  const generator = useReportGenerator(settings, onReportGenerated);
+  const [typeFilter, setTypeFilter] = useState<ReportType | 'all'>('all');
+  const [yearFilter, setYearFilter] = useState<number | 'all'>('all');
+  const [monthFilter, setMonthFilter] = useState<number | 'all'>('all');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const [regeneratingTitle, setRegeneratingTitle] = useState<string | null>(null);
+
+  const templates = useMemo(() => ReportTemplates.list(settings), [settings]);
+  const templateOf = (report: Report) => templates.find(tp => tp.id === report.type);
+
+  // Only templates that have reports are worth filtering by
+  const usedTemplates = templates.filter(tp => reports.some(r => r.type === tp.id));
+
+  const years = useMemo(() => {
+    const all = reports.flatMap(r => [new Date(r.startDate).getFullYear(), new Date(r.endDate).getFullYear()]);
+    return [...new Set(all)].sort((a, b) => b - a);
+  }, [reports]);
+
+  // Reports whose period overlaps the chosen year or month
+  const filterRange = useMemo((): DateRange | null => {
+    if (yearFilter === 'all') return null;
+    if (monthFilter === 'all') {
+      const year = new Date(yearFilter, 0, 1);
+      return { start: startOfYear(year), end: endOfYear(year) };
+    }
+    const month = new Date(yearFilter, monthFilter, 1);
+    return { start: startOfMonth(month), end: endOfMonth(month) };
+  }, [yearFilter, monthFilter]);
+
+  const filteredReports = reports.filter(r => {
+    if (typeFilter !== 'all' && r.type !== typeFilter) return false;
+    if (pinnedOnly && !r.pinned) return false;
+    if (!filterRange) return true;
+    const { start, end } = rangeOf(r);
+    return start <= filterRange.end && end >= filterRange.start;
+  });
+
+  const activeReport = reports.find(r => r.id === activeId) || null;
+  const selectedReports = selectedIds
+    .map(id => reports.find(r => r.id === id))
+    .filter((r): r is Report => !!r);
+  const canCompare = selectedReports.length === 2 && selectedReports[0].type === selectedReports[1].type;
+  // Older report on the left
+  const compared = canCompare
+    ? [...selectedReports].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    : [];
+
+  const exportContext = { entries, templates };
+
+  const describePeriod = (report: Report) =>
+    `${formatDate(report.startDate, 'date.medium')} – ${formatDate(report.endDate, 'date.medium')}`;
+
+  const openReport = (report: Report) => {
+    if (generator.isGenerating) return;
+    generator.show(null);
+    setIsComparing(false);
+    setActiveId(report.id);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+    setIsComparing(false);
+  };
+
+  const startRename = (report: Report) => {
+    setRenamingId(report.id);
+    setRenameDraft(report.title);
+  };
+
+  const commitRename = () => {
+    const title = renameDraft.trim();
+    const report = reports.find(r => r.id === renamingId);
+    if (report && title && title !== report.title) onUpdateReport(report.id, { title });
+    setRenamingId(null);
+  };
+
+  const handleDelete = (report: Report) => {
+    if (!confirm(t('library.confirmDelete', { title: report.title }))) return;
+    onDeleteReport(report.id);
+    setSelectedIds(prev => prev.filter(id => id !== report.id));
+    if (activeId === report.id) setActiveId(null);
+  };
+
+  // Runs the report's template again over the same range with the entries
+  // as they are now; the old report stays, selected next to the new one
+  // so the two can be compared
+  const handleRegenerate = async (report: Report) => {
+    const template = templateOf(report);
+    if (!template) return;
+    const range = rangeOf(report);
+    setActiveId(null);
+    setIsComparing(false);
+    setRegeneratingTitle(report.title);
+    const regenerated = await generator.generate({
+      template,
+      range,
+      entries: entries.filter(e => isWithinInterval(new Date(e.date), range)),
+      title: report.title,
+    });
+    if (!regenerated) return;
+    generator.show(null);
+    setActiveId(regenerated.id);
+    setSelectedIds([report.id, regenerated.id]);
+  };
+
+  const renderMeta = (report: Report) => (
+    <div className="text-xs text-white/70 space-y-0.5">
+      <div>{t('library.period', { period: describePeriod(report) })}</div>
+      <div>
+        {t('library.entryCount', { count: report.entryCount })}
+        {' · '}
+        {t('library.createdAt', { date: formatDate(report.createdAt, 'date.shortDateTime') })}
+      </div>
+      {report.generatedBy && (
+        <div className="flex items-center gap-1">
+          <Sparkles className="w-3 h-3" />
+          {t('analytics.generatedBy', { source: AIProviderService.describeAttribution(report.generatedBy) })}
+        </div>
+      )}
+    </div>
+  );
+
+  const selectClass = "px-3 py-2 rounded-lg bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+  const iconButtonClass = "p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex-1 h-full overflow-y-auto p-6 md:p-10 bg-gray-50 dark:bg-slate-950">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <header>
+          <h1 className="text-3xl font-serif font-bold text-slate-800 dark:text-slate-100 flex items-center gap-3">
+            <Library className="w-8 h-8 text-indigo-500" />
+            {t('library.title')}
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-2">{t('library.subtitle')}</p>
+        </header>
+
+        {/* Filters and bulk actions */}
+        <div className="bg-white dark:bg-slate-900 p-4 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800 flex flex-wrap items-center gap-3">
+          <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} className={selectClass}>
+            <option value="all">{t('library.allTypes')}</option>
+            {usedTemplates.map(tp => (
+              <option key={tp.id} value={tp.id}>{tp.icon} {tp.name}</option>
+            ))}
+          </select>
+          <select
+            value={yearFilter}
+            onChange={(e) => {
+              setYearFilter(e.target.value === 'all' ? 'all' : Number(e.target.value));
+              setMonthFilter('all');
+            }}
+            className={selectClass}
+          >
+            <option value="all">{t('library.allYears')}</option>
+            {years.map(year => (
+              <option key={year} value={year}>{formatDate(new Date(year, 0, 1), 'date.year')}</option>
+            ))}
+          </select>
+          {yearFilter !== 'all' && (
+            <select
+              value={monthFilter}
+              onChange={(e) => setMonthFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+              className={selectClass}
+            >
+              <option value="all">{t('library.allMonths')}</option>
+              {MONTHS.map(month => (
+                <option key={month} value={month}>{formatDate(new Date(yearFilter, month, 1), 'date.monthYear')}</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={pinnedOnly} onChange={(e) => setPinnedOnly(e.target.checked)} className="accent-indigo-500" />
+            {t('library.pinnedOnly')}
+          </label>
+
+          <div className="ml-auto flex items-center gap-2">
+            {selectedIds.length > 0 && (
+              <button
+                onClick={() => { setSelectedIds([]); setIsComparing(false); }}
+                className="text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+              >
+                {t('library.clearSelection')}
+              </button>
+            )}
+            <button
+              onClick={() => setIsComparing(true)}
+              disabled={!canCompare || generator.isGenerating}
+              title={selectedReports.length === 2 && !canCompare ? t('library.compareSameType') : t('library.compareHint')}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/60 transition-colors flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Columns2 className="w-4 h-4" />
+              {t('library.compare')}
+            </button>
+            {selectedReports.length > 0 && (
+              <div className="bg-indigo-500 rounded-lg text-white">
+                <ReportExportMenu
+                  reports={selectedReports}
+                  context={exportContext}
+                  label={t('export.selected', { count: selectedReports.length })}
+                />
+              </div>
+            )}
+          </div>
+          <p className="basis-full text-xs text-slate-400">
+            {selectedReports.length === 2 && !canCompare ? t('library.compareSameType') : t('library.retention')}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[22rem_1fr] gap-6 items-start">
+          {/* Report list */}
+          <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800 divide-y divide-gray-100 dark:divide-slate-800">
+            {filteredReports.length === 0 ? (
+              <div className="p-8 text-center text-sm text-slate-400">
+                {reports.length === 0 ? t('library.empty') : t('library.noMatches')}
+              </div>
+            ) : filteredReports.map(report => {
+              const template = templateOf(report);
+              return (
+                <div
+                  key={report.id}
+                  className={`p-3 flex items-start gap-3 ${activeId === report.id ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(report.id)}
+                    onChange={() => toggleSelected(report.id)}
+                    className="mt-1.5 accent-indigo-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    {renamingId === report.id ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          autoFocus
+                          value={renameDraft}
+                          onChange={(e) => setRenameDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="flex-1 min-w-0 px-2 py-1 rounded-md border border-indigo-300 dark:border-indigo-700 bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                        <button onClick={commitRename} className={iconButtonClass} title={t('library.saveName')}>
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setRenamingId(null)} className={iconButtonClass} title={t('library.cancelRename')}>
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <button onClick={() => openReport(report)} className="w-full text-left">
+                        <div className="font-medium text-slate-800 dark:text-slate-100 truncate flex items-center gap-1.5">
+                          {report.pinned && <Pin className="w-3.5 h-3.5 text-amber-500 shrink-0" />}
+                          <span className="truncate">{template?.icon ?? FALLBACK_ICON} {report.title}</span>
+                        </div>
+                        <div className="text-xs text-slate-400 mt-0.5">
+                          {describePeriod(report)} · {formatDate(report.createdAt, 'date.shortDateTime')}
+                        </div>
+                      </button>
+                    )}
+                    <div className="flex items-center gap-1 mt-1.5 -ml-1.5">
+                      <button
+                        onClick={() => onUpdateReport(report.id, { pinned: !report.pinned })}
+                        className={iconButtonClass}
+                        title={report.pinned ? t('library.unpin') : t('library.pin')}
+                      >
+                        {report.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => startRename(report)} className={iconButtonClass} title={t('library.rename')}>
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleRegenerate(report)}
+                        disabled={!template || generator.isGenerating}
+                        className={iconButtonClass}
+                        title={template ? t('library.regenerate') : t('library.templateMissing')}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(report)}
+                        className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Report, regeneration in progress, or comparison */}
+          {isComparing && canCompare ? (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              {compared.map(report => (
+                <div key={report.id} className="bg-gradient-to-br from-indigo-500 via-purple-500 to-pink-500 rounded-2xl p-6 text-white shadow-xl min-w-0">
+                  <h2 className="text-lg font-serif font-bold mb-1">{report.title}</h2>
+                  {renderMeta(report)}
+                  <div className="mt-4 bg-white/10 backdrop-blur-md rounded-xl p-4 text-sm leading-relaxed border border-white/20">
+                    <ReportViewer markdown={report.content} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : generator.content !== null ? (
+            <div className="bg-gradient-to-br from-indigo-500 via-purple-500 to-pink-500 rounded-2xl p-6 text-white shadow-xl">
+              <div className="flex items-center justify-between gap-3 mb-4">
+                <h2 className="text-lg font-serif font-bold flex items-center gap-2 min-w-0">
+                  <RefreshCw className={`w-5 h-5 shrink-0 ${generator.isGenerating ? 'animate-spin' : ''}`} />
+                  <span className="truncate">{t('library.regenerating', { title: regeneratingTitle ?? '' })}</span>
+                </h2>
+                {generator.isGenerating ? (
+                  <button
+                    onClick={generator.cancel}
+                    className="bg-white text-indigo-600 px-4 py-1.5 rounded-lg text-sm font-medium hover:bg-indigo-50 transition-colors flex items-center shadow-sm"
+                  >
+                    <Loader2 className="animate-spin w-4 h-4 mr-2" />
+                    {t('analytics.cancel')}
+                  </button>
+                ) : (
+                  <span className="text-xs text-yellow-200">{t('library.notSaved')}</span>
+                )}
+              </div>
+              {generator.digestProgress && !generator.content && (
+                <div className="mb-3 flex items-center gap-2 text-sm text-white/90">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {t('analytics.digestProgress', generator.digestProgress)}
+                </div>
+              )}
+              {generator.content && (
+                <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-sm leading-relaxed border border-white/20">
+                  <ReportViewer markdown={generator.content} />
+                </div>
+              )}
+            </div>
+          ) : activeReport ? (
+            <div className="bg-gradient-to-br from-indigo-500 via-purple-500 to-pink-500 rounded-2xl p-6 text-white shadow-xl">
+              <div className="flex items-start justify-between gap-3 mb-4">
+                <div className="min-w-0">
+                  <h2 className="text-xl font-serif font-bold mb-1">{activeReport.title}</h2>
+                  {renderMeta(activeReport)}
+                </div>
+                <ReportExportMenu reports={[activeReport]} context={exportContext} />
+              </div>
+              <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 text-sm leading-relaxed border border-white/20">
+                <ReportViewer markdown={activeReport.content} />
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-slate-900 rounded-2xl border border-dashed border-gray-200 dark:border-slate-700 p-12 text-center text-slate-400">
+              <FileText className="w-10 h-10 mx-auto mb-3 opacity-50" />
+              <p className="text-sm">{t('library.pickReport')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState, useMemo, useId } from 'react';
+import { ChevronDown, ChevronRight, Copy, Check, ListTree } from 'lucide-react';
+import { MarkdownService, MarkdownBlock } from '../services/markdownService';
+import { BlockView, renderInline } from './MarkdownView';
+import { useI18n } from '../hooks/useI18n';
+
+interface ReportViewerProps {
+  markdown: string;
+}
+
+interface ReportSection {
+  key: string;
+  heading: Extract<MarkdownBlock, { type: 'heading' }> | null;
+  blocks: MarkdownBlock[];
+  source: string; // Markdown of the whole section, for copying
+}
+
+// Splits a report into sections at its top-level headings (the shallowest
+// heading level used), keeping any text before the first heading as a preamble.
+const splitSections = (markdown: string): ReportSection[] => {
+  const blocks = MarkdownService.parse(markdown);
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const headings = blocks.filter((b): b is Extract<MarkdownBlock, { type: 'heading' }> => b.type === 'heading');
+  if (!headings.length) return [{ key: 'all', heading: null, blocks, source: markdown }];
+
+  const level = Math.min(...headings.map(h => h.level));
+  const sections: ReportSection[] = [];
+  let current: ReportSection = { key: 'preamble', heading: null, blocks: [], source: '' };
+
+  blocks.forEach(block => {
+    if (block.type === 'heading' && block.level === level) {
+      if (current.heading || current.blocks.length) sections.push(current);
+      current = { key: `section-${block.line}`, heading: block, blocks: [], source: '' };
+    } else {
+      current.blocks.push(block);
+    }
+  });
+  sections.push(current);
+
+  // Section sources run from one top-level heading line to the next
+  sections.forEach((section, i) => {
+    const start = section.heading ? section.heading.line : 0;
+    const next = sections[i + 1]?.heading;
+    section.source = lines.slice(start, next ? next.line : lines.length).join('\n').trim();
+  });
+
+  return sections;
+};
+
+export const ReportViewer: React.FC<ReportViewerProps> = ({ markdown }) => {
+  const idPrefix = useId();
+  const { t } = useI18n();
+  const sections = useMemo(() => splitSections(markdown), [markdown]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  const headed = sections.filter(s => s.heading);
+  const sectionId = (section: ReportSection) => `${idPrefix}-${section.key}`;
+
+  const toggle = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const handleCopy = async (section: ReportSection) => {
+    try {
+      await navigator.clipboard.writeText(section.source);
+      setCopiedKey(section.key);
+      setTimeout(() => setCopiedKey(k => (k === section.key ? null : k)), 1500);
+    } catch {
+      alert(t('report.copyFailed'));
+    }
+  };
+
+  const scrollTo = (section: ReportSection) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      next.delete(section.key);
+      return next;
+    });
+    document.getElementById(sectionId(section))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  return (
+    <div className="leading-relaxed">
+      {/* Table of contents */}
+      {headed.length > 1 && (
+        <nav className="mb-6 pb-4 border-b border-white/20">
+          <div className="flex items-center justify-between mb-2">
+            <span className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wider opacity-70">
+              <ListTree className="w-3 h-3" /> {t('report.contents')}
+            </span>
+            <div className="flex gap-3 text-xs opacity-70">
+              <button onClick={() => setCollapsed(new Set())} className="hover:opacity-100 hover:underline">{t('report.expandAll')}</button>
+              <button onClick={() => setCollapsed(new Set(headed.map(s => s.key)))} className="hover:opacity-100 hover:underline">{t('report.collapseAll')}</button>
+            </div>
+          </div>
+          <ol className="flex flex-wrap gap-2">
+            {headed.map(section => (
+              <li key={section.key}>
+                <button
+                  onClick={() => scrollTo(section)}
+                  className="px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 text-xs transition-colors"
+                >
+                  {MarkdownService.inlineToText(section.heading!.children)}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </nav>
+      )}
+
+      {sections.map(section => {
+        const isCollapsed = collapsed.has(section.key);
+        return (
+          <section key={section.key} id={sectionId(section)} className="mb-4 scroll-mt-4">
+            {section.heading && (
+              <div className="group flex items-center justify-between gap-2">
+                <button
+                  onClick={() => toggle(section.key)}
+                  className="flex items-center gap-1 text-left text-lg font-semibold"
+                  aria-expanded={!isCollapsed}
+                >
+                  {isCollapsed ? <ChevronRight className="w-4 h-4 shrink-0" /> : <ChevronDown className="w-4 h-4 shrink-0" />}
+                  <span>{renderInline(section.heading.children)}</span>
+                </button>
+                <button
+                  onClick={() => handleCopy(section)}
+                  className="p-1 rounded opacity-50 hover:opacity-100 transition-opacity"
+                  title={t('report.copySection')}
+                >
+                  {copiedKey === section.key ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+            )}
+            {!isCollapsed && (
+              <div className={section.heading ? 'pl-5' : ''}>
+                {section.blocks.map((block, i) => <BlockView key={i} block={block} />)}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
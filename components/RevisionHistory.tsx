@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Entry, EntryRevision } from '../types';
+import { History, X, RotateCcw, Loader2 } from 'lucide-react';
+import { StorageService } from '../services/storageService';
+import { DiffService, DiffPart } from '../services/diffService';
+import { useI18n } from '../hooks/useI18n';
+
+interface RevisionHistoryProps {
+  entry: Entry;
+  onRestore: (revision: EntryRevision) => void;
+  onClose: () => void;
+}
+
+type DiffMode = 'line' | 'char';
+
+const PART_STYLES: Record<DiffPart['op'], string> = {
+  equal: 'text-slate-500 dark:text-slate-400',
+  insert: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  delete: 'bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300',
+};
+
+const LINE_PREFIX: Record<DiffPart['op'], string> = { equal: ' ', insert: '+', delete: '-' };
+
+const DiffView: React.FC<{ parts: DiffPart[]; mode: DiffMode }> = ({ parts, mode }) => {
+  const { t } = useI18n();
+  if (parts.every(p => p.op === 'equal')) {
+    return <p className="text-xs text-slate-400 text-center py-4">{t('revisions.identical')}</p>;
+  }
+
+  if (mode === 'char') {
+    return (
+      <div className="whitespace-pre-wrap break-words text-xs leading-relaxed font-mono">
+        {parts.map((part, i) => (
+          <span key={i} className={PART_STYLES[part.op]}>{part.value}</span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs leading-relaxed font-mono">
+      {parts.flatMap((part, i) =>
+        part.value.replace(/\n$/, '').split('\n').map((line, j) => (
+          <div key={`${i}-${j}`} className={`whitespace-pre-wrap break-words px-1 ${PART_STYLES[part.op]}`}>
+            <span className="select-none opacity-60 mr-1">{LINE_PREFIX[part.op]}</span>{line}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entry, onRestore, onClose }) => {
+  const { t, formatDate } = useI18n();
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('line');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    StorageService.loadRevisions(entry.id)
+      .then(loaded => {
+        if (cancelled) return;
+        setRevisions(loaded);
+        // Keep the versions being compared while they are still there;
+        // revision ids belong to one entry, so another entry starts over
+        const keep = (id: string | null) => loaded.some(r => r.id === id);
+        setTargetId(prev => keep(prev) ? prev : loaded[0]?.id ?? null);
+        setBaseId(prev => keep(prev) ? prev : loaded[1]?.id ?? null);
+      })
+      .catch(e => console.error("Failed to load revisions", e))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [entry.id, entry.updatedAt]);
+
+  const base = revisions.find(r => r.id === baseId);
+  const target = revisions.find(r => r.id === targetId);
+
+  const diff = useMemo(() => {
+    if (!base || !target) return null;
+    return mode === 'char'
+      ? DiffService.diffChars(base.content, target.content)
+      : DiffService.diffLines(base.content, target.content);
+  }, [base, target, mode]);
+
+  const stats = diff ? DiffService.summarize(diff) : null;
+
+  const handleRestore = (revision: EntryRevision) => {
+    const label = formatDate(revision.createdAt, 'date.fullDateTime');
+    if (window.confirm(t('revisions.confirmRestore', { time: label }))) {
+      onRestore(revision);
+    }
+  };
+
+  const revisionLabel = (r: EntryRevision) => formatDate(r.createdAt, 'date.shortDateTimeSeconds');
+
+  return (
+    <div className="w-full md:w-96 bg-slate-50 dark:bg-slate-950 border-l border-gray-100 dark:border-slate-800 flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-slate-800">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center">
+          <History className="w-3 h-3 mr-1" /> {t('editor.history')}
+        </h4>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center p-6">{t('revisions.empty')}</p>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          {/* Revision list */}
+          <ul className="p-3 space-y-1 max-h-64 overflow-y-auto border-b border-gray-100 dark:border-slate-800">
+            {revisions.map((r, index) => (
+              <li
+                key={r.id}
+                className="flex items-center justify-between px-3 py-2 rounded-lg text-sm bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800"
+              >
+                <div className="min-w-0">
+                  <div className="text-slate-700 dark:text-slate-200 font-medium">
+                    {revisionLabel(r)}
+                    {index === 0 && <span className="ml-2 text-[10px] text-indigo-500">{t('revisions.latest')}</span>}
+                  </div>
+                  <div className="text-xs text-slate-400 truncate">{r.title || t('common.untitled')} · {t('editor.charCount', { count: r.content.length })}</div>
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => handleRestore(r)}
+                    className="ml-2 p-1.5 text-slate-400 hover:text-indigo-600 transition-colors"
+                    title={t('revisions.restore')}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Comparison */}
+          <div className="p-3 space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              {([['revisions.base', baseId, setBaseId], ['revisions.target', targetId, setTargetId]] as const).map(([label, value, setValue]) => (
+                <label key={label} className="text-xs text-slate-500">
+                  {t(label)}
+                  <select
+                    value={value ?? ''}
+                    onChange={(e) => setValue(e.target.value || null)}
+                    className="mt-1 w-full px-2 py-1 rounded-md border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200"
+                  >
+                    <option value="">—</option>
+                    {revisions.map(r => (
+                      <option key={r.id} value={r.id}>{revisionLabel(r)}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex rounded-md bg-gray-100 dark:bg-slate-800 p-0.5 text-xs">
+                {(['line', 'char'] as DiffMode[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`px-2 py-1 rounded ${mode === m ? 'bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {m === 'line' ? t('revisions.byLine') : t('revisions.byChar')}
+                  </button>
+                ))}
+              </div>
+              {stats && (
+                <span className="text-xs">
+                  <span className="text-green-600">+{stats.added}</span>{' '}
+                  <span className="text-red-600">-{stats.removed}</span>
+                </span>
+              )}
+            </div>
+
+            {base && target && base.title !== target.title && (
+              <div className="text-xs">
+                <span className={`${PART_STYLES.delete} px-1`}>{base.title || t('common.untitled')}</span>
+                {' → '}
+                <span className={`${PART_STYLES.insert} px-1`}>{target.title || t('common.untitled')}</span>
+              </div>
+            )}
+
+            {diff ? (
+              <div className="bg-white dark:bg-slate-900 rounded-lg border border-gray-100 dark:border-slate-800 p-2">
+                <DiffView parts={diff} mode={mode} />
+              </div>
+            ) : (
+              <p className="text-xs text-slate-400 text-center py-4">{t('revisions.pickTwo')}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,76 +1,112 @@
 import React, { useState } from 'react';
-import { Settings, Key, Bot, Check, X, Eye, EyeOff, Sparkles, Zap, Brain, Globe } from 'lucide-react';
-import { AppSettings, AIProviderType, DEFAULT_SETTINGS } from '../types';
+import { Settings, Key, Bot, Check, X, Eye, EyeOff, ChevronUp, ChevronDown, Sparkles, Zap, Brain, Globe, Shield, Server, Link, Braces, FileText, Tag } from 'lucide-react';
+import { AppSettings, AIProviderType, AIProviderConfig, NetworkSettings, Entry, DEFAULT_SETTINGS } from '../types';
+import { TagChanges } from '../services/tagService';
 import { AIProviderService } from '../services/aiProviderService';
+import { getProvider, getProviderOrder, AIProvider, ProviderField } from '../services/providers';
+import { EncryptionSettings } from './EncryptionSettings';
+import { TemplateSettings } from './TemplateSettings';
+import { TagManager } from './TagManager';
+import { useI18n } from '../hooks/useI18n';
 
 interface SettingsPanelProps {
   settings: AppSettings;
   onSettingsChange: (settings: AppSettings) => void;
   theme: 'light' | 'dark';
+  onLock: () => void;
+  entries: Entry[];
+  onRetagEntries: (changes: TagChanges) => void;
 }
 
-export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettingsChange, theme }) => {
-  const [showApiKey, setShowApiKey] = useState<{ gemini: boolean; deepseek: boolean }>({
+const PROVIDER_ICONS: Record<AIProviderType, React.ElementType> = {
+  deepseek: Brain,
+  gemini: Zap,
+  openai: Server,
+};
+
+const FIELD_ICONS: Record<ProviderField['key'], React.ReactNode> = {
+  apiKey: <Key className="w-4 h-4 inline mr-1" />,
+  baseUrl: <Link className="w-4 h-4 inline mr-1" />,
+  model: <Bot className="w-4 h-4 inline mr-1" />,
+  jsonMode: <Braces className="w-4 h-4 inline mr-1" />,
+};
+
+const CODE_CLASS = 'bg-primary-100 dark:bg-primary-800 px-1 rounded';
+
+// Renders `backticked` parts of a translated tip as inline code
+const withCode = (text: string): React.ReactNode[] =>
+  text.split('`').map((part, i) => (i % 2 ? <code key={i} className={CODE_CLASS}>{part}</code> : part));
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettingsChange, theme, onLock, entries, onRetagEntries }) => {
+  const { t } = useI18n();
+  const [showApiKey, setShowApiKey] = useState<Record<AIProviderType, boolean>>({
     gemini: false,
     deepseek: false,
+    openai: false,
   });
   const [validating, setValidating] = useState<AIProviderType | null>(null);
-  const [validationResult, setValidationResult] = useState<{ provider: AIProviderType; valid: boolean } | null>(null);
+  const [validationResult, setValidationResult] = useState<{ provider: AIProviderType; valid: boolean; message?: string } | null>(null);
 
-  const handleProviderToggle = (provider: AIProviderType) => {
-    const newSettings = {
+  const providerOrder = getProviderOrder(settings);
+
+  // The first provider in the order is the active one and always enabled
+  const applyProviderOrder = (order: AIProviderType[]) => {
+    const [primary] = order;
+    onSettingsChange({
       ...settings,
-      activeProvider: provider,
+      activeProvider: primary,
+      providerOrder: order,
       providers: {
         ...settings.providers,
-        [provider]: {
-          ...settings.providers[provider],
+        [primary]: {
+          ...settings.providers[primary],
           enabled: true,
         },
       },
-    };
-    onSettingsChange(newSettings);
+    });
   };
 
-  const handleApiKeyChange = (provider: AIProviderType, apiKey: string) => {
-    const newSettings = {
-      ...settings,
-      providers: {
-        ...settings.providers,
-        [provider]: {
-          ...settings.providers[provider],
-          apiKey,
-        },
-      },
-    };
-    onSettingsChange(newSettings);
-    setValidationResult(null);
+  const handleProviderToggle = (provider: AIProviderType) => {
+    applyProviderOrder([provider, ...providerOrder.filter(id => id !== provider)]);
+  };
+
+  const handleProviderMove = (provider: AIProviderType, offset: -1 | 1) => {
+    const from = providerOrder.indexOf(provider);
+    const to = from + offset;
+    if (to < 0 || to >= providerOrder.length) return;
+    const order = [...providerOrder];
+    [order[from], order[to]] = [order[to], order[from]];
+    applyProviderOrder(order);
+  };
+
+  const handleFallbackToggle = (provider: AIProviderType) => {
+    handleProviderConfigChange(provider, { enabled: !settings.providers[provider].enabled });
   };
 
-  const handleModelChange = (provider: AIProviderType, model: string) => {
+  const handleProviderConfigChange = (provider: AIProviderType, updates: Partial<AIProviderConfig> & Record<string, unknown>) => {
     const newSettings = {
       ...settings,
       providers: {
         ...settings.providers,
         [provider]: {
           ...settings.providers[provider],
-          model,
+          ...updates,
         },
       },
     };
     onSettingsChange(newSettings);
+    setValidationResult(null);
   };
 
-  const handleValidateApiKey = async (provider: AIProviderType) => {
-    const apiKey = settings.providers[provider].apiKey;
-    if (!apiKey) return;
+  const handleValidateProvider = async (provider: AIProvider) => {
+    if (!provider.isConfigured(settings.providers[provider.id])) return;
 
-    setValidating(provider);
+    setValidating(provider.id);
     try {
-      const valid = await AIProviderService.validateApiKey(provider, apiKey);
-      setValidationResult({ provider, valid });
+      const error = await AIProviderService.validateProvider(provider.id, settings);
+      setValidationResult({ provider: provider.id, valid: !error, message: error?.message });
     } catch {
-      setValidationResult({ provider, valid: false });
+      setValidationResult({ provider: provider.id, valid: false });
     } finally {
       setValidating(null);
     }
@@ -80,22 +116,155 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettin
     onSettingsChange({ ...settings, language });
   };
 
+  const handleAILanguageChange = (aiLanguage: AppSettings['aiLanguage']) => {
+    onSettingsChange({ ...settings, aiLanguage });
+  };
+
   const handleAutoAnalyzeToggle = () => {
     onSettingsChange({ ...settings, autoAnalyze: !settings.autoAnalyze });
   };
 
-  const ProviderCard: React.FC<{ provider: AIProviderType; icon: React.ReactNode; name: string; description: string }> = ({
-    provider,
-    icon,
-    name,
-    description,
-  }) => {
-    const isActive = settings.activeProvider === provider;
-    const config = settings.providers[provider];
-    const models = AIProviderService.getModels(provider);
+  const handleNetworkChange = (updates: Partial<NetworkSettings>) => {
+    onSettingsChange({ ...settings, network: { ...settings.network, ...updates } });
+  };
+
+  const inputClassName = 'w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  // Renders one of the inputs a provider declares in the registry
+  const renderField = (provider: AIProvider, field: ProviderField) => {
+    const config = settings.providers[provider.id] as AIProviderConfig & Record<string, unknown>;
+    const value = config[field.key];
+    const isValidationField = field.key === 'apiKey';
+    const placeholder = typeof field.placeholder === 'string' ? t(field.placeholder) : field.placeholder?.literal;
+
+    if (field.input === 'toggle') {
+      const checked = !!value;
+      return (
+        <div key={field.key} className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              {FIELD_ICONS[field.key]}
+              {t(field.label)}
+            </h4>
+            {field.hint && <p className="text-xs text-gray-500 dark:text-gray-400">{t(field.hint)}</p>}
+          </div>
+          <button
+            onClick={() => handleProviderConfigChange(provider.id, { [field.key]: !checked })}
+            className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${
+              checked ? 'bg-primary-500' : 'bg-gray-300 dark:bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                checked ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+      );
+    }
+
+    let control: React.ReactNode;
+    if (field.input === 'select') {
+      control = (
+        <select
+          value={String(value)}
+          onChange={(e) => handleProviderConfigChange(provider.id, { [field.key]: e.target.value })}
+          className={inputClassName}
+        >
+          {provider.models.map((model) => (
+            <option key={model} value={model}>
+              {model}
+            </option>
+          ))}
+        </select>
+      );
+    } else if (field.input === 'password') {
+      control = (
+        <div className="relative flex-1">
+          <input
+            type={showApiKey[provider.id] ? 'text' : 'password'}
+            value={String(value)}
+            onChange={(e) => handleProviderConfigChange(provider.id, { [field.key]: e.target.value })}
+            placeholder={placeholder}
+            className={`${inputClassName} pr-10`}
+          />
+          <button
+            type="button"
+            onClick={() => setShowApiKey({ ...showApiKey, [provider.id]: !showApiKey[provider.id] })}
+            className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            {showApiKey[provider.id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </button>
+        </div>
+      );
+    } else {
+      control = (
+        <input
+          type={field.input}
+          value={String(value)}
+          onChange={(e) => handleProviderConfigChange(provider.id, { [field.key]: e.target.value })}
+          placeholder={placeholder}
+          className={inputClassName}
+        />
+      );
+    }
+
+    return (
+      <div key={field.key}>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          {FIELD_ICONS[field.key]}
+          {t(field.label)}
+          {field.optional && <span className="ml-1 font-normal text-gray-400">{t('settings.optional')}</span>}
+        </label>
+        {isValidationField ? (
+          <div className="flex gap-2">
+            {control}
+            {renderValidateButton(provider)}
+          </div>
+        ) : (
+          control
+        )}
+        {field.hint && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t(field.hint)}</p>}
+        {isValidationField && validationResult?.provider === provider.id && (
+          <p className={`mt-1 text-sm ${validationResult.valid ? 'text-green-600' : 'text-red-600'}`}>
+            {validationResult.valid ? `✓ ${t('settings.validateOk')}` : `✗ ${validationResult.message || t('settings.validateFailed')}`}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderValidateButton = (provider: AIProvider) => (
+    <button
+      onClick={() => handleValidateProvider(provider)}
+      disabled={!provider.isConfigured(settings.providers[provider.id]) || validating === provider.id}
+      className="px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+    >
+      {validating === provider.id ? (
+        <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+      ) : validationResult?.provider === provider.id ? (
+        validationResult.valid ? (
+          <Check className="w-4 h-4 text-green-500" />
+        ) : (
+          <X className="w-4 h-4 text-red-500" />
+        )
+      ) : (
+        t('settings.validate')
+      )}
+    </button>
+  );
+
+  // A render helper rather than a nested component, so the inputs keep
+  // focus when the settings change on every keystroke
+  const renderProviderCard = (provider: AIProvider, index: number) => {
+    const isActive = settings.activeProvider === provider.id;
+    const isFallback = !isActive && settings.providers[provider.id].enabled;
+    const Icon = PROVIDER_ICONS[provider.id];
 
     return (
       <div
+        key={provider.id}
         className={`rounded-xl border-2 p-6 transition-all duration-200 ${
           isActive
             ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
@@ -109,93 +278,62 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettin
                 isActive ? 'bg-primary-500 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
               }`}
             >
-              {icon}
+              <Icon className="w-5 h-5" />
             </div>
             <div>
-              <h3 className="font-semibold text-gray-900 dark:text-white">{name}</h3>
-              <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>
+              <h3 className="font-semibold text-gray-900 dark:text-white">
+                <span className="mr-2 text-sm font-normal text-gray-400">#{index + 1}</span>
+                {provider.name}
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t(provider.description)}</p>
             </div>
           </div>
-          <button
-            onClick={() => handleProviderToggle(provider)}
-            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-              isActive
-                ? 'bg-primary-500 text-white'
-                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
-            }`}
-          >
-            {isActive ? '当前使用' : '切换'}
-          </button>
-        </div>
-
-        {/* API Key Input */}
-        <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              <Key className="w-4 h-4 inline mr-1" />
-              API Key
-            </label>
-            <div className="flex gap-2">
-              <div className="relative flex-1">
-                <input
-                  type={showApiKey[provider] ? 'text' : 'password'}
-                  value={config.apiKey}
-                  onChange={(e) => handleApiKeyChange(provider, e.target.value)}
-                  placeholder={`输入 ${name} API Key`}
-                  className="w-full px-4 py-2 pr-10 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowApiKey({ ...showApiKey, [provider]: !showApiKey[provider] })}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-                >
-                  {showApiKey[provider] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                </button>
-              </div>
+          <div className="flex items-center gap-2">
+            <div className="flex flex-col">
               <button
-                onClick={() => handleValidateApiKey(provider)}
-                disabled={!config.apiKey || validating === provider}
-                className="px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                onClick={() => handleProviderMove(provider.id, -1)}
+                disabled={index === 0}
+                className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                title={t('settings.moveUp')}
               >
-                {validating === provider ? (
-                  <div className="w-4 h-4 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-                ) : validationResult?.provider === provider ? (
-                  validationResult.valid ? (
-                    <Check className="w-4 h-4 text-green-500" />
-                  ) : (
-                    <X className="w-4 h-4 text-red-500" />
-                  )
-                ) : (
-                  '验证'
-                )}
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleProviderMove(provider.id, 1)}
+                disabled={index === providerOrder.length - 1}
+                className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-30 disabled:cursor-not-allowed"
+                title={t('settings.moveDown')}
+              >
+                <ChevronDown className="w-4 h-4" />
               </button>
             </div>
-            {validationResult?.provider === provider && (
-              <p className={`mt-1 text-sm ${validationResult.valid ? 'text-green-600' : 'text-red-600'}`}>
-                {validationResult.valid ? '✓ API Key 有效' : '✗ API Key 无效，请检查'}
-              </p>
+            {!isActive && (
+              <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 cursor-pointer" title={t('settings.fallbackHint')}>
+                <input
+                  type="checkbox"
+                  checked={isFallback}
+                  onChange={() => handleFallbackToggle(provider.id)}
+                  className="accent-primary-500"
+                />
+                {t('settings.fallback')}
+              </label>
             )}
-          </div>
-
-          {/* Model Selection */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              <Bot className="w-4 h-4 inline mr-1" />
-              模型选择
-            </label>
-            <select
-              value={config.model}
-              onChange={(e) => handleModelChange(provider, e.target.value)}
-              className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            <button
+              onClick={() => handleProviderToggle(provider.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                isActive
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
             >
-              {models.map((model) => (
-                <option key={model} value={model}>
-                  {model}
-                </option>
-              ))}
-            </select>
+              {isActive ? t('settings.active') : t('settings.makePrimary')}
+            </button>
           </div>
         </div>
+
+        <div className="space-y-4">
+          {provider.fields.map(field => renderField(provider, field))}
+        </div>
       </div>
     );
   };
@@ -209,30 +347,22 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettin
             <div className="p-2 rounded-lg bg-primary-100 dark:bg-primary-900/50">
               <Settings className="w-6 h-6 text-primary-600 dark:text-primary-400" />
             </div>
-            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">设置</h1>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('settings.title')}</h1>
           </div>
-          <p className="text-gray-600 dark:text-gray-400">配置 AI 服务和应用偏好</p>
+          <p className="text-gray-600 dark:text-gray-400">{t('settings.subtitle')}</p>
         </div>
 
         {/* AI Provider Section */}
         <section className="mb-8">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
             <Sparkles className="w-5 h-5 text-primary-500" />
-            AI 服务提供商
+            {t('settings.providers')}
           </h2>
+          <p className="-mt-2 mb-4 text-sm text-gray-500 dark:text-gray-400">
+            {t('settings.providersHint')}
+          </p>
           <div className="grid gap-4">
-            <ProviderCard
-              provider="deepseek"
-              icon={<Brain className="w-5 h-5" />}
-              name="DeepSeek"
-              description="国产大模型，支持深度推理"
-            />
-            <ProviderCard
-              provider="gemini"
-              icon={<Zap className="w-5 h-5" />}
-              name="Google Gemini"
-              description="Google 最新 AI 模型"
-            />
+            {providerOrder.map(id => getProvider(id)).map(renderProviderCard)}
           </div>
         </section>
 
@@ -240,14 +370,14 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettin
         <section className="mb-8">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
             <Globe className="w-5 h-5 text-primary-500" />
-            通用设置
+            {t('settings.general')}
           </h2>
           <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6 space-y-6">
             {/* Language */}
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-medium text-gray-900 dark:text-white">语言 / Language</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">选择界面和 AI 响应语言</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.languageHint')}</p>
               </div>
               <div className="flex gap-2">
                 <button
@@ -273,11 +403,27 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettin
               </div>
             </div>
 
+            {/* AI Output Language */}
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-medium text-gray-900 dark:text-white">{t('settings.aiLanguage')}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.aiLanguageHint')}</p>
+              </div>
+              <select
+                value={settings.aiLanguage}
+                onChange={(e) => handleAILanguageChange(e.target.value as AppSettings['aiLanguage'])}
+                className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                <option value="interface">{t('settings.aiLanguage.interface')}</option>
+                <option value="auto">{t('settings.aiLanguage.auto')}</option>
+              </select>
+            </div>
+
             {/* Auto Analyze */}
             <div className="flex items-center justify-between">
               <div>
-                <h3 className="font-medium text-gray-900 dark:text-white">自动分析</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">保存日记时自动进行 AI 分析</p>
+                <h3 className="font-medium text-gray-900 dark:text-white">{t('settings.autoAnalyze')}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.autoAnalyzeHint')}</p>
               </div>
               <button
                 onClick={handleAutoAnalyzeToggle}
@@ -292,17 +438,85 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSettin
                 />
               </button>
             </div>
+
+            {/* Request Timeout */}
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-medium text-gray-900 dark:text-white">{t('settings.timeout')}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.timeoutHint')}</p>
+              </div>
+              <select
+                value={settings.network.timeoutMs}
+                onChange={(e) => handleNetworkChange({ timeoutMs: Number(e.target.value) })}
+                className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {[30, 60, 120, 300].map(seconds => (
+                  <option key={seconds} value={seconds * 1000}>{t('settings.seconds', { count: seconds })}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Retries */}
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-medium text-gray-900 dark:text-white">{t('settings.retries')}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.retriesHint')}</p>
+              </div>
+              <select
+                value={settings.network.maxRetries}
+                onChange={(e) => handleNetworkChange({ maxRetries: Number(e.target.value) })}
+                className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              >
+                {[0, 1, 2, 3, 5].map(n => (
+                  <option key={n} value={n}>{n === 0 ? t('settings.noRetry') : t('settings.retryCount', { count: n })}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </section>
+
+        {/* AI Templates */}
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-primary-500" />
+            {t('settings.templates')}
+          </h2>
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+            <TemplateSettings settings={settings} onSettingsChange={onSettingsChange} />
+          </div>
+        </section>
+
+        {/* Tags */}
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+            <Tag className="w-5 h-5 text-primary-500" />
+            {t('settings.tags')}
+          </h2>
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+            <TagManager entries={entries} settings={settings} onSettingsChange={onSettingsChange} onRetagEntries={onRetagEntries} />
+          </div>
+        </section>
+
+        {/* Privacy */}
+        <section className="mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+            <Shield className="w-5 h-5 text-primary-500" />
+            {t('settings.privacy')}
+          </h2>
+          <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6">
+            <EncryptionSettings onLock={onLock} />
           </div>
         </section>
 
         {/* Tips */}
         <section className="bg-gradient-to-r from-primary-50 to-purple-50 dark:from-primary-900/20 dark:to-purple-900/20 rounded-xl p-6 border border-primary-100 dark:border-primary-800">
-          <h3 className="font-semibold text-primary-900 dark:text-primary-100 mb-2">💡 使用提示</h3>
+          <h3 className="font-semibold text-primary-900 dark:text-primary-100 mb-2">{t('settings.tips')}</h3>
           <ul className="text-sm text-primary-800 dark:text-primary-200 space-y-1">
-            <li>• <strong>DeepSeek</strong>: 推荐使用 <code className="bg-primary-100 dark:bg-primary-800 px-1 rounded">deepseek-chat</code> 进行日常分析，<code className="bg-primary-100 dark:bg-primary-800 px-1 rounded">deepseek-reasoner</code> 适合深度思考</li>
-            <li>• <strong>Gemini</strong>: <code className="bg-primary-100 dark:bg-primary-800 px-1 rounded">gemini-2.0-flash</code> 速度最快，<code className="bg-primary-100 dark:bg-primary-800 px-1 rounded">gemini-1.5-pro</code> 质量最高</li>
-            <li>• 获取 DeepSeek API Key: <a href="https://platform.deepseek.com" target="_blank" rel="noopener noreferrer" className="underline">platform.deepseek.com</a></li>
-            <li>• 获取 Gemini API Key: <a href="https://aistudio.google.com" target="_blank" rel="noopener noreferrer" className="underline">aistudio.google.com</a></li>
+            <li>• <strong>DeepSeek</strong>: {withCode(t('settings.tips.deepseek'))}</li>
+            <li>• <strong>Gemini</strong>: {withCode(t('settings.tips.gemini'))}</li>
+            <li>• {t('settings.tips.getKey', { provider: 'DeepSeek' })}: <a href="https://platform.deepseek.com" target="_blank" rel="noopener noreferrer" className="underline">platform.deepseek.com</a></li>
+            <li>• <strong>{t('provider.openai.name')}</strong>: {withCode(t('settings.tips.ollama'))}</li>
+            <li>• {t('settings.tips.getKey', { provider: 'Gemini' })}: <a href="https://aistudio.google.com" target="_blank" rel="noopener noreferrer" className="underline">aistudio.google.com</a></li>
           </ul>
         </section>
       </div>
@@ -1,14 +1,16 @@
 import React from 'react';
-import { Book, PieChart, Upload, Download, Settings, ChevronLeft, Feather, Calendar, Sparkles } from 'lucide-react';
+import { Book, PieChart, Upload, Download, Settings, ChevronLeft, Feather, Calendar, Sparkles, Library, MessageCircle } from 'lucide-react';
 import { ViewMode, Entry, AppSettings } from '../types';
 import { StorageService } from '../services/storageService';
+import { getProvider } from '../services/providers';
+import { useI18n } from '../hooks/useI18n';
 
 interface SidebarProps {
   viewMode: ViewMode;
   setViewMode: (mode: ViewMode) => void;
   isOpen: boolean;
   setIsOpen: (isOpen: boolean) => void;
-  onImport: (entries: Entry[]) => void;
+  onOpenImport: () => void;
   allEntries: Entry[];
   settings: AppSettings;
 }
@@ -18,38 +20,19 @@ export const Sidebar: React.FC<SidebarProps> = ({
   setViewMode, 
   isOpen, 
   setIsOpen,
-  onImport,
+  onOpenImport,
   allEntries,
   settings
 }) => {
-  
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const result = e.target?.result as string;
-        const parsed = JSON.parse(result);
-        // Support both old format (array) and new format (object with entries)
-        const entries = Array.isArray(parsed) ? parsed : parsed.entries;
-        if (Array.isArray(entries)) {
-          onImport(entries);
-          alert(`成功导入 ${entries.length} 篇日记！`);
-        }
-      } catch (err) {
-        alert("JSON 文件解析失败");
-      }
-    };
-    reader.readAsText(file);
-  };
+  const { t } = useI18n();
 
   const navItems = [
-    { mode: 'editor' as ViewMode, icon: Book, label: '日记' },
-    { mode: 'calendar' as ViewMode, icon: Calendar, label: '日历' },
-    { mode: 'analytics' as ViewMode, icon: PieChart, label: '数据洞察' },
-    { mode: 'settings' as ViewMode, icon: Settings, label: '设置' },
+    { mode: 'editor' as ViewMode, icon: Book, label: t('nav.editor') },
+    { mode: 'calendar' as ViewMode, icon: Calendar, label: t('nav.calendar') },
+    { mode: 'analytics' as ViewMode, icon: PieChart, label: t('nav.analytics') },
+    { mode: 'reports' as ViewMode, icon: Library, label: t('nav.reports') },
+    { mode: 'chat' as ViewMode, icon: MessageCircle, label: t('nav.chat') },
+    { mode: 'settings' as ViewMode, icon: Settings, label: t('nav.settings') },
   ];
 
   return (
@@ -93,7 +76,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
         {/* Stats Summary */}
         <div className="px-6 py-4">
            <div className="p-4 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700">
-             <p className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wider font-semibold">总日记数</p>
+             <p className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wider font-semibold">{t('sidebar.totalEntries')}</p>
              <p className="text-2xl font-bold text-slate-800 dark:text-slate-100 mt-1">{allEntries.length}</p>
            </div>
         </div>
@@ -102,23 +85,25 @@ export const Sidebar: React.FC<SidebarProps> = ({
         <div className="p-4 border-t border-gray-200 dark:border-slate-800 space-y-1">
           <div className="grid grid-cols-2 gap-2">
             <button 
-              onClick={() => StorageService.exportData()}
+              onClick={() => StorageService.exportData().catch(e => alert(e.message || t('sidebar.backupFailed')))}
               className="flex flex-col items-center justify-center p-3 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 dark:text-slate-400 text-xs"
             >
               <Download className="w-5 h-5 mb-1" />
-              备份
+              {t('sidebar.backup')}
             </button>
-            <label className="flex flex-col items-center justify-center p-3 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 dark:text-slate-400 text-xs cursor-pointer">
+            <button
+              onClick={() => { onOpenImport(); setIsOpen(false); }}
+              className="flex flex-col items-center justify-center p-3 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 dark:text-slate-400 text-xs"
+            >
               <Upload className="w-5 h-5 mb-1" />
-              导入
-              <input type="file" accept=".json" onChange={handleFileUpload} className="hidden" />
-            </label>
+              {t('sidebar.import')}
+            </button>
           </div>
           
           <div className="pt-2">
              <div className="flex items-center justify-center text-xs text-slate-400 dark:text-slate-500 mt-2">
                 <Sparkles className="w-3 h-3 mr-1" />
-                <span>Powered by {settings.activeProvider === 'deepseek' ? 'DeepSeek' : 'Gemini'}</span>
+                <span>{t('sidebar.poweredBy', { provider: getProvider(settings.activeProvider).name })}</span>
              </div>
           </div>
         </div>
@@ -0,0 +1,48 @@
+import React from 'react';
+import { TagColor } from '../types';
+
+// Chip classes per color. Tags without a color keep the indigo chips the
+// lists have always used.
+export const TAG_COLORS: Record<TagColor, { chip: string; dot: string }> = {
+  slate: { chip: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300', dot: 'bg-slate-400' },
+  red: { chip: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300', dot: 'bg-red-500' },
+  amber: { chip: 'bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300', dot: 'bg-amber-500' },
+  green: { chip: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300', dot: 'bg-green-500' },
+  teal: { chip: 'bg-teal-50 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300', dot: 'bg-teal-500' },
+  sky: { chip: 'bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300', dot: 'bg-sky-500' },
+  indigo: { chip: 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300', dot: 'bg-indigo-500' },
+  purple: { chip: 'bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300', dot: 'bg-purple-500' },
+  pink: { chip: 'bg-pink-50 text-pink-700 dark:bg-pink-900/30 dark:text-pink-300', dot: 'bg-pink-500' },
+};
+
+export const TAG_COLOR_ORDER = Object.keys(TAG_COLORS) as TagColor[];
+
+export const tagChipClass = (tag: string, colors: Record<string, TagColor>) =>
+  TAG_COLORS[colors[tag] || 'indigo'].chip;
+
+interface TagChipProps {
+  tag: string;
+  colors: Record<string, TagColor>;
+  icon?: React.ReactNode;
+  onRemove?: () => void;
+  removeLabel?: string;
+  className?: string; // Size and spacing
+}
+
+export const TagChip: React.FC<TagChipProps> = ({ tag, colors, icon, onRemove, removeLabel, className = 'px-2 py-0.5 text-xs' }) => (
+  <span className={`inline-flex items-center rounded font-medium ${tagChipClass(tag, colors)} ${className}`}>
+    {icon}
+    {tag}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        className="ml-1 -mr-0.5 opacity-50 hover:opacity-100 transition-opacity"
+        title={removeLabel}
+        aria-label={removeLabel}
+      >
+        ×
+      </button>
+    )}
+  </span>
+);
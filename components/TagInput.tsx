@@ -0,0 +1,123 @@
+import React, { useState, useMemo } from 'react';
+import { Hash } from 'lucide-react';
+import { TagColor } from '../types';
+import { TagService, TagCount } from '../services/tagService';
+import { TagChip } from './TagChip';
+import { useI18n } from '../hooks/useI18n';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  known: TagCount[]; // Tags across the diary, for suggestions
+  colors: Record<string, TagColor>;
+}
+
+// Keys that finish the tag being typed, besides Enter
+const SEPARATORS = [',', '，', '、'];
+
+// The entry's tags as chips, with a box to add more that suggests tags
+// already used elsewhere
+export const TagInput: React.FC<TagInputProps> = ({ tags, onChange, known, colors }) => {
+  const { t } = useI18n();
+  const [input, setInput] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  // The suggestion picked with the arrow keys, if any
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const suggestions = useMemo(
+    () => (isOpen ? TagService.suggest(known, input, tags) : []),
+    [known, input, tags, isOpen]
+  );
+
+  const commit = (tag: string) => {
+    const next = TagService.add(tags, tag);
+    if (next !== tags) onChange(next);
+    setInput('');
+    setHighlighted(-1);
+  };
+
+  const handleChange = (value: string) => {
+    // Pasted or typed separators finish every tag before them
+    const parts = value.split(new RegExp(`[${SEPARATORS.join('')}]`));
+    if (parts.length > 1) {
+      const next = parts.slice(0, -1).reduce(TagService.add, tags);
+      if (next !== tags) onChange(next);
+    }
+    setInput(parts[parts.length - 1]);
+    setHighlighted(-1);
+    setIsOpen(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keys confirming an input method's candidate belong to the input method
+    if (e.nativeEvent.isComposing) return;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commit(suggestions[highlighted] ?? input);
+    } else if (e.key === 'ArrowDown' && suggestions.length) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length) {
+      e.preventDefault();
+      setHighlighted(highlighted <= 0 ? suggestions.length - 1 : highlighted - 1);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    } else if (e.key === 'Backspace' && !input && tags.length) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1.5 mb-6">
+      <Hash className="w-4 h-4 text-slate-300 dark:text-slate-600" />
+      {tags.map(tag => (
+        <TagChip
+          key={tag}
+          tag={tag}
+          colors={colors}
+          onRemove={() => onChange(tags.filter(other => other !== tag))}
+          removeLabel={t('tags.remove', { tag })}
+        />
+      ))}
+      <div className="relative">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => {
+            if (input.trim()) commit(input);
+            setIsOpen(false);
+          }}
+          placeholder={tags.length ? '' : t('tags.placeholder')}
+          aria-label={t('editor.tags')}
+          className="w-32 text-sm bg-transparent border-none outline-none text-slate-600 dark:text-slate-300 placeholder-slate-300 dark:placeholder-slate-700"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute left-0 top-full mt-1 z-20 min-w-[10rem] max-h-60 overflow-y-auto py-1 bg-white dark:bg-slate-900 rounded-lg shadow-lg border border-gray-200 dark:border-slate-700">
+            {suggestions.map((tag, i) => (
+              <li key={tag}>
+                <button
+                  type="button"
+                  // Before the input's blur, which would close the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    commit(tag);
+                  }}
+                  onMouseEnter={() => setHighlighted(i)}
+                  className={`w-full text-left px-3 py-1.5 text-sm flex items-center justify-between gap-4 ${
+                    i === highlighted ? 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'text-slate-600 dark:text-slate-300'
+                  }`}
+                >
+                  {tag}
+                  <span className="text-xs text-slate-400">{known.find(k => k.tag === tag)?.count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
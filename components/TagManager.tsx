@@ -0,0 +1,226 @@
+import React, { useState, useMemo } from 'react';
+import { Pencil, Trash2, Merge, Search, Check, X } from 'lucide-react';
+import { AppSettings, Entry, TagColor } from '../types';
+import { TagService, TagChanges } from '../services/tagService';
+import { TAG_COLORS, TAG_COLOR_ORDER, TagChip } from './TagChip';
+import { useI18n } from '../hooks/useI18n';
+
+interface TagManagerProps {
+  entries: Entry[];
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+  onRetagEntries: (changes: TagChanges) => void;
+}
+
+const inputClass = "px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+const iconButtonClass = "p-1.5 rounded-lg text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors";
+
+// Every tag in the diary with how often it is used: renaming, merging and
+// deleting across all entries, and picking colors for the entry list
+export const TagManager: React.FC<TagManagerProps> = ({ entries, settings, onSettingsChange, onRetagEntries }) => {
+  const { t } = useI18n();
+  const [filter, setFilter] = useState('');
+  const [renaming, setRenaming] = useState<{ tag: string; value: string } | null>(null);
+  const [coloring, setColoring] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const counts = useMemo(() => TagService.count(entries), [entries]);
+  const similar = useMemo(() => TagService.similar(counts), [counts]);
+  const visible = counts.filter(({ tag }) => tag.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  // Tags that no longer exist drop out of the selection
+  const selection = selected.filter(tag => counts.some(c => c.tag === tag));
+
+  const apply = (from: string[], to: string | null) => {
+    const changes = to === null ? TagService.remove(entries, from[0]) : TagService.merge(entries, from, to);
+    if (changes.length) onRetagEntries(changes);
+    if (from.some(tag => settings.tagColors[tag])) onSettingsChange(TagService.moveColors(settings, from, to));
+    setSelected(prev => prev.filter(tag => !from.includes(tag)));
+  };
+
+  // Renaming onto a tag that already exists merges the two
+  const handleRename = () => {
+    if (!renaming) return;
+    const name = TagService.normalize(renaming.value);
+    setRenaming(null);
+    if (!name || name === renaming.tag) return;
+    const existing = counts.find(({ tag }) => tag !== renaming.tag && tag.toLowerCase() === name.toLowerCase());
+    if (existing && !confirm(t('tags.mergeConfirm', { from: renaming.tag, to: existing.tag }))) return;
+    apply([renaming.tag], existing?.tag ?? name);
+  };
+
+  const handleDelete = (tag: string, count: number) => {
+    if (!confirm(t('tags.deleteConfirm', { tag, count }))) return;
+    apply([tag], null);
+  };
+
+  const handleMerge = () => {
+    const name = TagService.normalize(mergeTarget);
+    if (!name || !confirm(t('tags.mergeSelectedConfirm', { count: selection.length, to: name }))) return;
+    const existing = counts.find(({ tag }) => tag.toLowerCase() === name.toLowerCase());
+    apply(selection, existing?.tag ?? name);
+    setMergeTarget('');
+  };
+
+  const toggleSelected = (tag: string) => {
+    const next = selection.includes(tag) ? selection.filter(other => other !== tag) : [...selection, tag];
+    setSelected(next);
+    // Suggest merging into the most used of them, unless a name was typed
+    if (!mergeTarget || (selection.includes(mergeTarget) && !next.includes(mergeTarget))) {
+      setMergeTarget(counts.find(c => next.includes(c.tag))?.tag ?? '');
+    }
+  };
+
+  const handleColor = (tag: string, color: TagColor | null) => {
+    const tagColors = { ...settings.tagColors };
+    if (color) tagColors[tag] = color; else delete tagColors[tag];
+    onSettingsChange({ ...settings, tagColors });
+    setColoring(null);
+  };
+
+  if (!counts.length) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">{t('tags.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder={t('tags.filter')}
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">{t('tags.total', { count: counts.length })}</span>
+      </div>
+
+      {similar.length > 0 && (
+        <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/40 text-sm">
+          <p className="text-amber-800 dark:text-amber-200 mb-2">{t('tags.similarHint')}</p>
+          <ul className="space-y-1">
+            {similar.map(([from, to]) => (
+              <li key={`${from.tag}\n${to.tag}`} className="flex items-center gap-2 text-amber-700 dark:text-amber-300">
+                <span>{from.tag} ({from.count}) → {to.tag} ({to.count})</span>
+                <button
+                  onClick={() => confirm(t('tags.mergeConfirm', { from: from.tag, to: to.tag })) && apply([from.tag], to.tag)}
+                  className="px-2 py-0.5 rounded text-xs font-medium bg-amber-100 dark:bg-amber-900/40 hover:bg-amber-200 dark:hover:bg-amber-900/60 transition-colors"
+                >
+                  {t('tags.merge')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {selection.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-primary-50 dark:bg-primary-900/20 border border-primary-100 dark:border-primary-800 text-sm">
+          <span className="text-primary-800 dark:text-primary-200">{t('tags.mergeSelected', { count: selection.length })}</span>
+          <input
+            value={mergeTarget}
+            onChange={(e) => setMergeTarget(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleMerge(); }}
+            className={`${inputClass} w-40`}
+          />
+          <button
+            onClick={handleMerge}
+            disabled={!mergeTarget.trim()}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-1.5 bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            <Merge className="w-4 h-4" />
+            {t('tags.merge')}
+          </button>
+          <button onClick={() => setSelected([])} className="px-3 py-1.5 rounded-lg text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+            {t('tags.clearSelection')}
+          </button>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700 max-h-96 overflow-y-auto">
+        {visible.map(({ tag, count }) => (
+          <li key={tag} className="flex items-center gap-3 py-2">
+            <input
+              type="checkbox"
+              checked={selection.includes(tag)}
+              onChange={() => toggleSelected(tag)}
+              className="rounded text-primary-600"
+              aria-label={t('tags.select', { tag })}
+            />
+            <div className="relative">
+              <button
+                onClick={() => setColoring(coloring === tag ? null : tag)}
+                className={`w-4 h-4 rounded-full border border-white dark:border-gray-800 ring-1 ring-gray-200 dark:ring-gray-600 ${
+                  TAG_COLORS[settings.tagColors[tag] || 'indigo'].dot
+                }`}
+                title={t('tags.color')}
+              />
+              {coloring === tag && (
+                <div className="absolute left-0 top-6 z-10 p-2 flex gap-1.5 rounded-lg bg-white dark:bg-gray-800 shadow-lg border border-gray-200 dark:border-gray-700">
+                  {TAG_COLOR_ORDER.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => handleColor(tag, color)}
+                      className={`w-5 h-5 rounded-full ${TAG_COLORS[color].dot} ${settings.tagColors[tag] === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                      aria-label={color}
+                    />
+                  ))}
+                  <button
+                    onClick={() => handleColor(tag, null)}
+                    className="w-5 h-5 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 border border-gray-200 dark:border-gray-600"
+                    title={t('tags.defaultColor')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {renaming?.tag === tag ? (
+              <input
+                autoFocus
+                value={renaming.value}
+                onChange={(e) => setRenaming({ tag, value: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.nativeEvent.isComposing) return;
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setRenaming(null);
+                }}
+                onBlur={() => setRenaming(null)}
+                className={`${inputClass} flex-1`}
+              />
+            ) : (
+              <div className="flex-1 min-w-0">
+                <TagChip tag={tag} colors={settings.tagColors} />
+              </div>
+            )}
+
+            <span className="text-sm text-gray-500 dark:text-gray-400 tabular-nums">{t('tags.count', { count })}</span>
+            {renaming?.tag === tag ? (
+              <button onMouseDown={(e) => { e.preventDefault(); handleRename(); }} className={iconButtonClass} title={t('tags.rename')}>
+                <Check className="w-4 h-4" />
+              </button>
+            ) : (
+              <button onClick={() => setRenaming({ tag, value: tag })} className={iconButtonClass} title={t('tags.rename')}>
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => handleDelete(tag, count)}
+              className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              title={t('common.delete')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+        {!visible.length && (
+          <li className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">{t('tags.noMatch')}</li>
+        )}
+      </ul>
+    </div>
+  );
+};
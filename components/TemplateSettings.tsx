@@ -0,0 +1,347 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Plus, Pencil, Copy, Trash2, RotateCcw, Play, Loader2, X } from 'lucide-react';
+import { AppSettings, AnalysisResult, ReportPeriod, ReportTemplate } from '../types';
+import { AIProviderService, DEFAULT_ANALYSIS_PERSONA } from '../services/aiProviderService';
+import { ReportTemplates } from '../services/reportTemplates';
+import { ReportViewer } from './ReportViewer';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../i18n';
+
+interface TemplateSettingsProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+}
+
+// A trial run on the sample entries, of either a report template or the persona
+type Preview =
+  | { kind: 'report'; text: string; running: boolean; error?: string }
+  | { kind: 'analysis'; result?: AnalysisResult; running: boolean; error?: string };
+
+const PERIOD_LABELS: Record<ReportPeriod, MessageKey> = {
+  week: 'templates.period.week',
+  month: 'templates.period.month',
+  year: 'templates.period.year',
+  custom: 'templates.period.custom',
+};
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+const buttonClass = "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5";
+const iconButtonClass = "p-1.5 rounded-lg text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors";
+
+// Report templates and the analysis persona: editing, previews on sample
+// entries, and going back to the shipped defaults
+export const TemplateSettings: React.FC<TemplateSettingsProps> = ({ settings, onSettingsChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ReportTemplate | null>(null);
+  const [persona, setPersona] = useState(settings.analysisPersona);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const previewController = useRef<AbortController | null>(null);
+
+  const templates = ReportTemplates.list(settings);
+
+  useEffect(() => () => previewController.current?.abort(), []);
+
+  const stopPreview = () => {
+    previewController.current?.abort();
+    previewController.current = null;
+    setPreview(null);
+  };
+
+  const startPreview = (): AbortController | null => {
+    if (!AIProviderService.isConfigured(settings)) {
+      alert(t('ai.notConfigured'));
+      return null;
+    }
+    previewController.current?.abort();
+    const controller = new AbortController();
+    previewController.current = controller;
+    return controller;
+  };
+
+  const openEditor = (template: ReportTemplate) => {
+    stopPreview();
+    setDraft(template);
+  };
+
+  const closeEditor = () => {
+    stopPreview();
+    setDraft(null);
+  };
+
+  const updateDraft = (updates: Partial<ReportTemplate>) => {
+    setDraft(prev => prev && { ...prev, ...updates });
+  };
+
+  // Back to the shipped wording; nothing changes until the draft is saved
+  const handleResetDraft = () => {
+    if (draft && ReportTemplates.isBuiltIn(draft.id)) setDraft(ReportTemplates.builtIn(draft.id, settings.language));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSettingsChange(ReportTemplates.save(settings, draft));
+    closeEditor();
+  };
+
+  const handleDuplicate = (template: ReportTemplate) => {
+    const copy = ReportTemplates.duplicate(template);
+    onSettingsChange(ReportTemplates.save(settings, copy));
+    openEditor(copy);
+  };
+
+  const handleDelete = (template: ReportTemplate) => {
+    if (!confirm(t('templates.deleteConfirm', { name: template.name }))) return;
+    onSettingsChange(ReportTemplates.remove(settings, template.id));
+    if (draft?.id === template.id) closeEditor();
+  };
+
+  const handleReset = (template: ReportTemplate) => {
+    if (!confirm(t('templates.resetConfirm', { name: template.name }))) return;
+    onSettingsChange(ReportTemplates.remove(settings, template.id));
+    if (draft?.id === template.id) closeEditor();
+  };
+
+  const handlePreviewTemplate = async () => {
+    if (!draft) return;
+    const controller = startPreview();
+    if (!controller) return;
+    const { entries, range } = ReportTemplates.samples(settings.language);
+    setPreview({ kind: 'report', text: '', running: true });
+    try {
+      const { content } = await AIProviderService.generateReport(entries, draft, range, settings, {
+        signal: controller.signal,
+        onChunk: (partial) => setPreview({ kind: 'report', text: partial, running: true }),
+      });
+      if (!controller.signal.aborted) setPreview({ kind: 'report', text: content, running: false });
+    } catch (e: any) {
+      if (!controller.signal.aborted) setPreview({ kind: 'report', text: '', running: false, error: e.message || t('templates.previewFailed') });
+    }
+  };
+
+  const handlePreviewPersona = async () => {
+    const controller = startPreview();
+    if (!controller) return;
+    const [sample] = ReportTemplates.samples(settings.language).entries;
+    setPreview({ kind: 'analysis', running: true });
+    try {
+      const result = await AIProviderService.analyzeEntry(sample.content, { ...settings, analysisPersona: persona }, { signal: controller.signal });
+      if (!controller.signal.aborted) setPreview({ kind: 'analysis', result, running: false });
+    } catch (e: any) {
+      if (!controller.signal.aborted) setPreview({ kind: 'analysis', running: false, error: e.message || t('templates.previewFailed') });
+    }
+  };
+
+  const handleSavePersona = (value: string) => {
+    setPersona(value);
+    onSettingsChange({ ...settings, analysisPersona: value.trim() });
+  };
+
+  const renderPreview = (kind: Preview['kind']) => {
+    if (preview?.kind !== kind) return null;
+    return (
+      <div className="mt-3 relative">
+        <button onClick={stopPreview} className="absolute top-2 right-2 z-10 p-1 rounded text-white/70 hover:text-white" title={t('templates.cancel')}>
+          <X className="w-4 h-4" />
+        </button>
+        <div className="rounded-xl p-4 pr-10 text-sm bg-gradient-to-br from-indigo-500 via-purple-500 to-pink-500 text-white max-h-96 overflow-y-auto">
+          {preview.running && !(preview.kind === 'report' && preview.text) && (
+            <p className="flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> {t('templates.previewing')}</p>
+          )}
+          {preview.error && <p className="text-yellow-200">{preview.error}</p>}
+          {preview.kind === 'report' && preview.text && <ReportViewer markdown={preview.text} />}
+          {preview.kind === 'analysis' && preview.result && (
+            <div className="space-y-3">
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-wider opacity-70 mb-1">{t('editor.summary')}</div>
+                <p>{preview.result.mood} {preview.result.summary}</p>
+              </div>
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-wider opacity-70 mb-1">{t('editor.suggestions')}</div>
+                <ul className="list-disc pl-5">
+                  {preview.result.suggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}
+                </ul>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderEditor = (template: ReportTemplate) => (
+    <div className="mt-3 p-4 rounded-lg bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 space-y-3">
+      <div className="grid grid-cols-[4rem_1fr_10rem] gap-3">
+        <div>
+          <label className={labelClass}>{t('templates.icon')}</label>
+          <input value={template.icon} onChange={(e) => updateDraft({ icon: e.target.value })} className={`${inputClass} text-center`} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('templates.name')}</label>
+          <input value={template.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('templates.period')}</label>
+          <select value={template.period} onChange={(e) => updateDraft({ period: e.target.value as ReportPeriod })} className={inputClass}>
+            {(Object.keys(PERIOD_LABELS) as ReportPeriod[]).map(period => (
+              <option key={period} value={period}>{t(PERIOD_LABELS[period])}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>{t('templates.tone')}</label>
+        <input
+          value={template.tone}
+          onChange={(e) => updateDraft({ tone: e.target.value })}
+          placeholder={t('templates.tonePlaceholder')}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>{t('templates.prompt')}</label>
+        <textarea value={template.prompt} onChange={(e) => updateDraft({ prompt: e.target.value })} rows={3} className={`${inputClass} font-mono text-sm`} />
+      </div>
+      <div>
+        <label className={labelClass}>{t('templates.sections')}</label>
+        <textarea
+          value={template.sections.join('\n')}
+          onChange={(e) => updateDraft({ sections: e.target.value.split('\n') })}
+          rows={5}
+          className={`${inputClass} text-sm`}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!template.name.trim() || !template.sections.some(section => section.trim())}
+          className={`${buttonClass} bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {t('templates.save')}
+        </button>
+        <button onClick={closeEditor} className={`${buttonClass} bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300`}>
+          {t('templates.cancel')}
+        </button>
+        <button
+          onClick={handlePreviewTemplate}
+          disabled={preview?.running}
+          className={`${buttonClass} bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-50`}
+          title={t('templates.previewHint')}
+        >
+          <Play className="w-4 h-4" /> {t('templates.preview')}
+        </button>
+        {ReportTemplates.isBuiltIn(template.id) && (
+          <button
+            onClick={handleResetDraft}
+            className={`${buttonClass} text-gray-500 hover:text-primary-600 ml-auto`}
+          >
+            <RotateCcw className="w-4 h-4" /> {t('templates.reset')}
+          </button>
+        )}
+      </div>
+      {renderPreview('report')}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Analysis persona */}
+      <div>
+        <h3 className="font-medium text-gray-900 dark:text-white">{t('templates.persona')}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">{t('templates.personaHint')}</p>
+        <textarea
+          value={persona}
+          onChange={(e) => setPersona(e.target.value)}
+          placeholder={DEFAULT_ANALYSIS_PERSONA}
+          rows={3}
+          className={`${inputClass} text-sm`}
+        />
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <button
+            onClick={() => handleSavePersona(persona)}
+            disabled={persona.trim() === settings.analysisPersona}
+            className={`${buttonClass} bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {t('templates.save')}
+          </button>
+          <button
+            onClick={handlePreviewPersona}
+            disabled={preview?.running}
+            className={`${buttonClass} bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-50`}
+            title={t('templates.previewHint')}
+          >
+            <Play className="w-4 h-4" /> {t('templates.preview')}
+          </button>
+          {(persona || settings.analysisPersona) && (
+            <button onClick={() => handleSavePersona('')} className={`${buttonClass} text-gray-500 hover:text-primary-600 ml-auto`}>
+              <RotateCcw className="w-4 h-4" /> {t('templates.reset')}
+            </button>
+          )}
+        </div>
+        {renderPreview('analysis')}
+      </div>
+
+      {/* Report templates */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-white">{t('templates.reports')}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('templates.reportsHint')}</p>
+          </div>
+          <button
+            onClick={() => openEditor(ReportTemplates.create(settings.language))}
+            className={`${buttonClass} bg-primary-500 text-white hover:bg-primary-600`}
+          >
+            <Plus className="w-4 h-4" /> {t('templates.new')}
+          </button>
+        </div>
+
+        <ul className="space-y-2">
+          {/* A new template is edited above the list until it is saved */}
+          {draft && !templates.some(template => template.id === draft.id) && <li>{renderEditor(draft)}</li>}
+          {templates.map(template => {
+            const builtIn = ReportTemplates.isBuiltIn(template.id);
+            const customized = ReportTemplates.isCustomized(settings, template.id);
+            return (
+              <li key={template.id} className="rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-xl">{template.icon}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white truncate flex items-center gap-2">
+                      {template.name}
+                      {builtIn && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
+                          {customized ? t('templates.customized') : t('templates.builtIn')}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {t(PERIOD_LABELS[template.period])} · {template.sections.join(' / ')}
+                    </div>
+                  </div>
+                  <button onClick={() => openEditor(template)} className={iconButtonClass} title={t('templates.edit')}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDuplicate(template)} className={iconButtonClass} title={t('templates.duplicate')}>
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  {customized && (
+                    <button onClick={() => handleReset(template)} className={iconButtonClass} title={t('templates.reset')}>
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  {!builtIn && (
+                    <button onClick={() => handleDelete(template)} className={`${iconButtonClass} hover:text-red-500`} title={t('common.delete')}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {draft?.id === template.id && renderEditor(draft)}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
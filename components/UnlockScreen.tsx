@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Feather, Lock, Loader2 } from 'lucide-react';
+import { StorageService } from '../services/storageService';
+import { useI18n } from '../hooks/useI18n';
+
+interface UnlockScreenProps {
+  onUnlock: () => void;
+}
+
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const ok = await StorageService.unlock(passphrase);
+      if (ok) {
+        onUnlock();
+      } else {
+        setError(t('storage.wrongPassword'));
+        setPassphrase('');
+      }
+    } catch (err: any) {
+      setError(err.message || t('unlock.failed'));
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gray-50 dark:bg-slate-950 p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-800 p-8 text-center"
+      >
+        <div className="flex items-center justify-center space-x-2 text-indigo-600 dark:text-indigo-400 mb-6">
+          <Feather className="w-6 h-6" />
+          <span className="text-xl font-serif font-bold tracking-tight">Lumina</span>
+        </div>
+        <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-indigo-50 dark:bg-slate-800 flex items-center justify-center">
+          <Lock className="w-6 h-6 text-indigo-400" />
+        </div>
+        <h2 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-1">{t('unlock.title')}</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">{t('unlock.hint')}</p>
+
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={t('unlock.password')}
+          className="w-full px-4 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="mt-6 w-full px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-full font-medium transition-colors disabled:opacity-60 disabled:cursor-not-allowed flex items-center justify-center"
+        >
+          {isUnlocking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {isUnlocking ? t('unlock.unlocking') : t('unlock.unlock')}
+        </button>
+      </form>
+    </div>
+  );
+};
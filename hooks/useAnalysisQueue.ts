@@ -0,0 +1,190 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Entry, AppSettings, AnalysisJob } from '../types';
+import { AIProviderService, AIRequestError } from '../services/aiProviderService';
+import { AnalysisTracker } from '../services/analysisTracker';
+import { StorageService } from '../services/storageService';
+
+// Transient failures are retried this many times before the job fails
+const MAX_ATTEMPTS = 3;
+// Wait after a provider rate-limited us and gave no Retry-After
+const RATE_LIMIT_COOLDOWN_MS = 30_000;
+// Failures that would repeat for every entry; the queue pauses instead
+const QUEUE_STOPPING_KINDS = ['auth', 'quota'];
+
+// Works through the persisted bulk analysis queue one entry at a time.
+// Requests still pass through the provider request layer, which paces and
+// limits them; on top of that the queue backs off as a whole when a
+// provider keeps rate-limiting. Nothing runs while `active` is false (the
+// diary is locked or still loading).
+export const useAnalysisQueue = (
+  active: boolean,
+  settings: AppSettings,
+  getEntry: (id: string) => Entry | undefined,
+  onUpdate: (id: string, updates: Partial<Entry>) => Promise<void>
+) => {
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [paused, setPausedState] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  // Why the queue paused itself, shown until it is resumed
+  const [stopReason, setStopReason] = useState<string | null>(null);
+
+  const jobsRef = useRef<AnalysisJob[]>(jobs);
+  const controller = useRef<AbortController | null>(null);
+  const latest = useRef({ settings, getEntry, onUpdate });
+  latest.current = { settings, getEntry, onUpdate };
+
+  // Applies job changes to state and storage; `removed` jobs are deleted
+  const commit = useCallback((changed: AnalysisJob[], removed: string[] = []) => {
+    const byId = new Map(changed.map(job => [job.entryId, job]));
+    const kept = jobsRef.current.filter(job => !removed.includes(job.entryId));
+    const next = kept.map(job => byId.get(job.entryId) || job);
+    kept.forEach(job => byId.delete(job.entryId));
+    jobsRef.current = [...next, ...byId.values()];
+    setJobs(jobsRef.current);
+
+    StorageService.saveAnalysisJobs(changed).catch(e => console.error("Failed to save analysis jobs", e));
+    if (removed.length) {
+      StorageService.deleteAnalysisJobs(removed).catch(e => console.error("Failed to delete analysis jobs", e));
+    }
+  }, []);
+
+  const setPaused = useCallback((value: boolean) => {
+    setPausedState(value);
+    StorageService.setAnalysisQueuePaused(value).catch(e => console.error("Failed to save queue state", e));
+  }, []);
+
+  // Load on unlock; drop everything from memory on lock
+  useEffect(() => {
+    if (!active) {
+      controller.current?.abort();
+      controller.current = null;
+      jobsRef.current = [];
+      setJobs([]);
+      setIsLoaded(false);
+      return;
+    }
+
+    let cancelled = false;
+    StorageService.loadAnalysisQueue()
+      .then(({ jobs: stored, paused: storedPaused }) => {
+        if (cancelled) return;
+        // A job that was running when the page closed starts over
+        const interrupted = stored.filter(job => job.status === 'running').map(job => ({ ...job, status: 'pending' as const }));
+        jobsRef.current = stored;
+        setPausedState(storedPaused);
+        setIsLoaded(true);
+        commit(interrupted);
+      })
+      .catch(e => console.error("Failed to load analysis queue", e));
+    return () => { cancelled = true; };
+  }, [active, commit]);
+
+  const runJob = useCallback(async (job: AnalysisJob) => {
+    const { settings, getEntry } = latest.current;
+    const entry = getEntry(job.entryId);
+    if (!entry) {
+      commit([], [job.entryId]);
+      return;
+    }
+    // Analyzed some other way since it was queued
+    if (!AnalysisTracker.needsAnalysis(entry)) {
+      commit([{ ...job, status: 'done', error: undefined }]);
+      return;
+    }
+
+    const abort = new AbortController();
+    controller.current = abort;
+    commit([{ ...job, status: 'running', attempts: job.attempts + 1 }]);
+
+    const content = entry.content;
+    try {
+      const result = await AIProviderService.analyzeEntry(content, settings, { signal: abort.signal });
+      if (abort.signal.aborted) return;
+      const current = latest.current.getEntry(job.entryId);
+      if (current) await latest.current.onUpdate(job.entryId, AnalysisTracker.toEntryUpdates(current, result, content));
+      commit([{ ...job, status: 'done', attempts: job.attempts + 1, error: undefined }]);
+    } catch (error: any) {
+      if (abort.signal.aborted) return;
+      const attempts = job.attempts + 1;
+      const message = error?.message || String(error);
+
+      if (error instanceof AIRequestError && QUEUE_STOPPING_KINDS.includes(error.kind)) {
+        commit([{ ...job, status: 'pending', attempts: job.attempts }]);
+        setStopReason(message);
+        setPaused(true);
+      } else if (error instanceof AIRequestError && error.kind === 'rateLimit') {
+        // Not the entry's fault, so it does not use up an attempt
+        commit([{ ...job, status: 'pending', attempts: job.attempts }]);
+        setCooldownUntil(Date.now() + (error.retryAfterMs ?? RATE_LIMIT_COOLDOWN_MS));
+      } else if (error instanceof AIRequestError && error.retryable && attempts < MAX_ATTEMPTS) {
+        commit([{ ...job, status: 'pending', attempts, error: message }]);
+      } else {
+        commit([{ ...job, status: 'failed', attempts, error: message }]);
+      }
+    } finally {
+      if (controller.current === abort) controller.current = null;
+    }
+  }, [commit, setPaused]);
+
+  // Picks up the next pending job whenever the queue is idle
+  const isRunning = jobs.some(job => job.status === 'running');
+  const nextJob = jobs.find(job => job.status === 'pending');
+  useEffect(() => {
+    if (!active || !isLoaded || paused || cooldownUntil || isRunning || !nextJob) return;
+    if (!AIProviderService.isConfigured(latest.current.settings)) return;
+    runJob(nextJob);
+  }, [active, isLoaded, paused, cooldownUntil, isRunning, nextJob, runJob, settings]);
+
+  useEffect(() => {
+    if (!cooldownUntil) return;
+    const timer = window.setTimeout(() => setCooldownUntil(null), Math.max(0, cooldownUntil - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [cooldownUntil]);
+
+  // Queues entries, restarting any that finished or failed before
+  const enqueue = useCallback((entryIds: string[]) => {
+    const now = new Date().toISOString();
+    const running = new Set(jobsRef.current.filter(job => job.status === 'running').map(job => job.entryId));
+    commit(entryIds
+      .filter(id => !running.has(id))
+      .map(entryId => ({ entryId, status: 'pending', attempts: 0, addedAt: now })));
+  }, [commit]);
+
+  const pause = useCallback(() => {
+    setPaused(true);
+    const abort = controller.current;
+    if (abort) {
+      abort.abort();
+      const running = jobsRef.current.filter(job => job.status === 'running');
+      commit(running.map(job => ({ ...job, status: 'pending', attempts: Math.max(0, job.attempts - 1) })));
+    }
+  }, [commit, setPaused]);
+
+  const resume = useCallback(() => {
+    setStopReason(null);
+    setCooldownUntil(null);
+    setPaused(false);
+  }, [setPaused]);
+
+  const retryFailed = useCallback(() => {
+    enqueue(jobsRef.current.filter(job => job.status === 'failed').map(job => job.entryId));
+  }, [enqueue]);
+
+  // Forgets finished jobs; pending and failed ones stay
+  const clearFinished = useCallback(() => {
+    commit([], jobsRef.current.filter(job => job.status === 'done').map(job => job.entryId));
+  }, [commit]);
+
+  // Empties the queue, stopping the running job
+  const clearAll = useCallback(() => {
+    controller.current?.abort();
+    controller.current = null;
+    commit([], jobsRef.current.map(job => job.entryId));
+    setStopReason(null);
+  }, [commit]);
+
+  return { jobs, paused, cooldownUntil, stopReason, enqueue, pause, resume, retryFailed, clearFinished, clearAll };
+};
+
+export type AnalysisQueueControls = ReturnType<typeof useAnalysisQueue>;
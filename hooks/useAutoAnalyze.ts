@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Entry, AppSettings } from '../types';
+import { AIProviderService } from '../services/aiProviderService';
+import { AnalysisTracker } from '../services/analysisTracker';
+
+// Quiet time after the last save before an entry is analyzed, so a burst
+// of autosaves while typing leads to a single request
+const AUTO_ANALYZE_DELAY_MS = 10_000;
+
+// Analyzes saved entries in the background when settings.autoAnalyze is on.
+// `schedule` is called after each save that changed an entry's content; the
+// entry is analyzed once it has been left alone for a while, if it is long
+// enough and its content differs from what was last analyzed.
+export const useAutoAnalyze = (
+  settings: AppSettings,
+  getEntry: (id: string) => Entry | undefined,
+  onUpdate: (id: string, updates: Partial<Entry>) => Promise<void>
+) => {
+  const [analyzingIds, setAnalyzingIds] = useState<ReadonlySet<string>>(new Set());
+  const timers = useRef(new Map<string, number>());
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // Read at run time, so a pending job sees the settings of when it fires
+  const latest = useRef({ settings, getEntry, onUpdate });
+  latest.current = { settings, getEntry, onUpdate };
+
+  const setAnalyzing = (id: string, analyzing: boolean) => {
+    setAnalyzingIds(prev => {
+      const next = new Set(prev);
+      if (analyzing) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const run = useCallback(async (id: string) => {
+    timers.current.delete(id);
+    const { settings, getEntry } = latest.current;
+    const entry = getEntry(id);
+    if (!entry || !settings.autoAnalyze || !AIProviderService.isConfigured(settings)) return;
+    if (!AnalysisTracker.needsAutoAnalysis(entry)) return;
+
+    controllers.current.get(id)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(id, controller);
+    setAnalyzing(id, true);
+
+    const content = entry.content;
+    try {
+      const result = await AIProviderService.analyzeEntry(content, settings, { signal: controller.signal });
+      const current = latest.current.getEntry(id);
+      // A manual analysis of the same content may have finished first
+      if (controller.signal.aborted || !current || current.analyzedHash === AnalysisTracker.hashContent(content)) return;
+      await latest.current.onUpdate(id, AnalysisTracker.toEntryUpdates(current, result, content));
+    } catch (error) {
+      // Failures stay quiet; the entry keeps its stale badge and is retried on the next save
+      if (!controller.signal.aborted) console.warn(`Auto analysis failed for ${id}:`, error);
+    } finally {
+      if (controllers.current.get(id) === controller) {
+        controllers.current.delete(id);
+        setAnalyzing(id, false);
+      }
+    }
+  }, []);
+
+  const schedule = useCallback((id: string) => {
+    if (!latest.current.settings.autoAnalyze) return;
+    window.clearTimeout(timers.current.get(id));
+    timers.current.set(id, window.setTimeout(() => run(id), AUTO_ANALYZE_DELAY_MS));
+  }, [run]);
+
+  const cancelAll = useCallback(() => {
+    timers.current.forEach(timer => window.clearTimeout(timer));
+    timers.current.clear();
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    setAnalyzingIds(new Set());
+  }, []);
+
+  // Turning the setting off stops pending and running work
+  useEffect(() => {
+    if (!settings.autoAnalyze) cancelAll();
+  }, [settings.autoAnalyze, cancelAll]);
+
+  useEffect(() => cancelAll, [cancelAll]);
+
+  return { schedule, cancelAll, analyzingIds };
+};
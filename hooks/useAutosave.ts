@@ -0,0 +1,161 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Entry, EntryDraft, EntryUpdateOptions } from '../types';
+import { StorageService } from '../services/storageService';
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved';
+
+const AUTOSAVE_DELAY_MS = 1500;
+const DRAFT_DELAY_MS = 300;
+
+interface PendingSave {
+  entryId: string;
+  title: string;
+  content: string;
+  onUpdate: (updates: Partial<Entry>, options?: EntryUpdateOptions) => Promise<void>;
+}
+
+// Local title/content state for the editor with debounced autosave. Every
+// change is also written to a separate draft record shortly after typing
+// stops, so a crash between autosaves loses at most a few hundred ms.
+export const useAutosave = (
+  entry: Entry,
+  onUpdate: (updates: Partial<Entry>, options?: EntryUpdateOptions) => Promise<void>
+) => {
+  const [title, setTitleState] = useState(entry.title);
+  const [content, setContentState] = useState(entry.content);
+  const [status, setStatus] = useState<SaveStatus>('saved');
+  const [recoverableDraft, setRecoverableDraft] = useState<EntryDraft | null>(null);
+
+  const pendingRef = useRef<PendingSave | null>(null);
+  const saveTimer = useRef<number | undefined>(undefined);
+  const draftTimer = useRef<number | undefined>(undefined);
+
+  const save = useCallback(async () => {
+    window.clearTimeout(saveTimer.current);
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+
+    setStatus('saving');
+    try {
+      await pending.onUpdate({ title: pending.title, content: pending.content }, { coalesce: true });
+      // Newer keystrokes keep their draft until they are saved as well
+      if (!pendingRef.current) {
+        window.clearTimeout(draftTimer.current);
+        await StorageService.deleteDraft(pending.entryId);
+        if (!pendingRef.current) setStatus('saved');
+      }
+    } catch (e) {
+      console.error("Autosave failed", e);
+      pendingRef.current = pendingRef.current || pending;
+      setStatus('unsaved');
+    }
+  }, []);
+
+  const schedule = (nextTitle: string, nextContent: string) => {
+    pendingRef.current = { entryId: entry.id, title: nextTitle, content: nextContent, onUpdate };
+    setStatus('unsaved');
+
+    window.clearTimeout(draftTimer.current);
+    draftTimer.current = window.setTimeout(() => {
+      StorageService.saveDraft({
+        entryId: entry.id,
+        title: nextTitle,
+        content: nextContent,
+        savedAt: new Date().toISOString(),
+      }).catch(e => console.error("Failed to save draft", e));
+    }, DRAFT_DELAY_MS);
+
+    window.clearTimeout(saveTimer.current);
+    saveTimer.current = window.setTimeout(save, AUTOSAVE_DELAY_MS);
+  };
+
+  const setTitle = (value: string) => {
+    setTitleState(value);
+    schedule(value, content);
+  };
+
+  const setContent = (value: string) => {
+    setContentState(value);
+    schedule(title, value);
+  };
+
+  // Replaces the local state without scheduling a save, for changes that the
+  // caller persists itself (e.g. restoring a revision)
+  const reset = (nextTitle: string, nextContent: string) => {
+    window.clearTimeout(saveTimer.current);
+    window.clearTimeout(draftTimer.current);
+    pendingRef.current = null;
+    setTitleState(nextTitle);
+    setContentState(nextContent);
+    setStatus('saved');
+  };
+
+  // Switching entries: save what was typed into the previous one, then look
+  // for a draft newer than the stored entry
+  useEffect(() => {
+    setTitleState(entry.title);
+    setContentState(entry.content);
+    setStatus('saved');
+    setRecoverableDraft(null);
+
+    let cancelled = false;
+    StorageService.loadDraft(entry.id)
+      .then(draft => {
+        if (cancelled || !draft) return;
+        const isNewer = new Date(draft.savedAt).getTime() > new Date(entry.updatedAt).getTime();
+        const differs = draft.title !== entry.title || draft.content !== entry.content;
+        if (isNewer && differs) {
+          setRecoverableDraft(draft);
+        } else {
+          StorageService.deleteDraft(entry.id).catch(() => undefined);
+        }
+      })
+      .catch(e => console.error("Failed to load draft", e));
+
+    return () => {
+      cancelled = true;
+      save();
+    };
+  }, [entry.id]);
+
+  // Last chance to persist before the tab goes away
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+    window.addEventListener('pagehide', save);
+    document.addEventListener('visibilitychange', handleHide);
+    return () => {
+      window.removeEventListener('pagehide', save);
+      document.removeEventListener('visibilitychange', handleHide);
+    };
+  }, [save]);
+
+  const recoverDraft = () => {
+    if (!recoverableDraft) return;
+    setTitleState(recoverableDraft.title);
+    setContentState(recoverableDraft.content);
+    schedule(recoverableDraft.title, recoverableDraft.content);
+    setRecoverableDraft(null);
+  };
+
+  const discardDraft = () => {
+    if (!recoverableDraft) return;
+    StorageService.deleteDraft(recoverableDraft.entryId).catch(e => console.error("Failed to discard draft", e));
+    setRecoverableDraft(null);
+  };
+
+  return {
+    title,
+    content,
+    setTitle,
+    setContent,
+    reset,
+    status,
+    flush: save,
+    recoverableDraft,
+    recoverDraft,
+    discardDraft,
+  };
+};
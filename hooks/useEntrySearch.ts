@@ -0,0 +1,40 @@
+import { useMemo, useRef } from 'react';
+import { Entry } from '../types';
+import { parseSearchQuery } from '../services/searchQuery';
+import {
+  createSearchIndex, SearchIndex, highlightTerms, findHighlights, buildSnippet, HighlightRange, Snippet
+} from '../services/searchIndex';
+import { MarkdownService } from '../services/markdownService';
+
+export interface EntryMatch {
+  title: HighlightRange[];
+  snippet: Snippet | null; // Where the content matched, if it did
+}
+
+export interface EntrySearchResults {
+  entries: Entry[];
+  matches: ReadonlyMap<string, EntryMatch> | null; // null when not searching
+  invalid: string[]; // Query parts that could not be understood
+}
+
+// Runs the search box query over the entries. The index is built on the
+// first search and then only re-indexes entries that changed.
+export const useEntrySearch = (entries: Entry[], query: string): EntrySearchResults => {
+  const indexRef = useRef<SearchIndex | null>(null);
+
+  return useMemo(() => {
+    const parsed = parseSearchQuery(query);
+    if (!parsed.parts.length) return { entries, matches: null, invalid: parsed.invalid };
+
+    const index = indexRef.current ??= createSearchIndex();
+    index.sync(entries);
+    const results = index.search(parsed);
+
+    const terms = highlightTerms(parsed);
+    const matches = new Map<string, EntryMatch>(results.map(({ entry }) => [entry.id, {
+      title: findHighlights(entry.title, terms),
+      snippet: terms.length ? buildSnippet(MarkdownService.toPlainText(entry.content), terms) : null,
+    }]));
+    return { entries: results.map(result => result.entry), matches, invalid: parsed.invalid };
+  }, [entries, query]);
+};
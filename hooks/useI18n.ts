@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { I18n } from '../i18n';
+
+// Re-renders the component when the UI language changes
+export const useI18n = () => {
+  const language = useSyncExternalStore(I18n.subscribe, I18n.getLanguage);
+
+  return {
+    language,
+    t: I18n.t,
+    formatDate: I18n.formatDate,
+    dateLocale: I18n.dateLocale(),
+  };
+};
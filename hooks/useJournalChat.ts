@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react';
+import { Entry, AppSettings, ChatMessage, Conversation } from '../types';
+import { AIProviderService } from '../services/aiProviderService';
+import { StorageService } from '../services/storageService';
+import { createSearchIndex, SearchIndex } from '../services/searchIndex';
+import { t } from '../i18n';
+
+// Entries sent as context with each question
+const MAX_SOURCES = 8;
+
+const newId = () => Date.now().toString(36) + Math.random().toString(36).slice(2);
+
+const byDate = (a: Entry, b: Entry) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// An answer on its way, shown in its conversation as it streams in
+export interface PendingAnswer {
+  conversationId: string;
+  sources: string[];
+  content: string;
+}
+
+// "Ask my journal": stored conversations, and answers to new questions
+// from the entries a local index finds relevant to them
+export const useJournalChat = (entries: Entry[], settings: AppSettings) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingAnswer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const indexRef = useRef<SearchIndex | null>(null);
+
+  useEffect(() => {
+    StorageService.loadConversations()
+      .then(setConversations)
+      .catch(e => console.error("Failed to load conversations", e))
+      .finally(() => setIsLoading(false));
+    // Stop a running answer when leaving the view
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const active = conversations.find(c => c.id === activeId) || null;
+
+  const store = (conversation: Conversation) => {
+    setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)]);
+    StorageService.saveConversation(conversation).catch(e => console.error("Failed to save conversation", e));
+  };
+
+  // Entries related to the question, then to the previous question so a
+  // follow-up keeps its subject. With nothing related, the latest entries.
+  // Oldest first, so the model reads them as a timeline.
+  const retrieve = (question: string, history: ChatMessage[]): Entry[] => {
+    const index = indexRef.current ??= createSearchIndex();
+    index.sync(entries);
+    const found = new Map(index.rank(question, MAX_SOURCES).map(({ entry }) => [entry.id, entry]));
+    const previous = [...history].reverse().find(m => m.role === 'user');
+    if (previous) {
+      index.rank(previous.content, MAX_SOURCES - found.size).forEach(({ entry }) => found.set(entry.id, entry));
+    }
+    const sources = found.size ? [...found.values()] : [...entries].sort(byDate).slice(-MAX_SOURCES);
+    return sources.sort(byDate);
+  };
+
+  const ask = async (question: string) => {
+    question = question.trim();
+    if (!question || controllerRef.current) return;
+    if (!AIProviderService.isConfigured(settings)) {
+      setError(t('ai.notConfigured'));
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const base: Conversation = active || { id: newId(), title: question.slice(0, 80), messages: [], createdAt: now, updatedAt: now };
+    const history = base.messages;
+    const asked: Conversation = {
+      ...base,
+      messages: [...history, { id: newId(), role: 'user', content: question, createdAt: now }],
+      updatedAt: now,
+    };
+    store(asked);
+    setActiveId(asked.id);
+    setError(null);
+
+    const sources = retrieve(question, history);
+    const sourceIds = sources.map(e => e.id);
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPending({ conversationId: asked.id, sources: sourceIds, content: '' });
+    try {
+      const { content, generatedBy } = await AIProviderService.askJournal(question, history, sources, settings, {
+        signal: controller.signal,
+        onChunk: (partial) => setPending({ conversationId: asked.id, sources: sourceIds, content: partial }),
+      });
+      if (controller.signal.aborted) return;
+      const answeredAt = new Date().toISOString();
+      store({
+        ...asked,
+        messages: [...asked.messages, { id: newId(), role: 'assistant', content, createdAt: answeredAt, sources: sourceIds, generatedBy }],
+        updatedAt: answeredAt,
+      });
+    } catch (e: any) {
+      if (!controller.signal.aborted) setError(e.message || t('chat.failed'));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setPending(null);
+      }
+    }
+  };
+
+  // The question stays; nothing of the answer is kept
+  const cancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setPending(null);
+  };
+
+  const startNew = () => {
+    setActiveId(null);
+    setError(null);
+  };
+
+  const select = (id: string) => {
+    setActiveId(id);
+    setError(null);
+  };
+
+  const remove = (id: string) => {
+    if (pending?.conversationId === id) cancel();
+    setConversations(prev => prev.filter(c => c.id !== id));
+    if (activeId === id) setActiveId(null);
+    StorageService.deleteConversation(id).catch(e => console.error("Failed to delete conversation", e));
+  };
+
+  return { conversations, isLoading, active, pending, error, ask, cancel, startNew, select, remove };
+};
@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef } from 'react';
+import { Entry, AppSettings, Report, ReportTemplate, DateRange } from '../types';
+import { AIProviderService } from '../services/aiProviderService';
+import { t } from '../i18n';
+
+export interface ReportRequest {
+  template: ReportTemplate;
+  range: DateRange;
+  entries: Entry[];
+  title: string;
+}
+
+// Streams a report onto the screen and hands the finished one to
+// `onReportGenerated` to be saved. Shared by the dashboard and the reports
+// library, which regenerates past reports for the same range.
+export const useReportGenerator = (settings: AppSettings, onReportGenerated: (report: Report) => void) => {
+  const [content, setContent] = useState<string | null>(null);
+  // The finished report on screen, once it has been saved
+  const [savedReport, setSavedReport] = useState<Report | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [digestProgress, setDigestProgress] = useState<{ done: number; total: number } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running report when the view goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const generate = async ({ template, range, entries, title }: ReportRequest): Promise<Report | null> => {
+    if (!AIProviderService.isConfigured(settings)) {
+      alert(t('ai.notConfigured'));
+      return null;
+    }
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsGenerating(true);
+    setContent('');
+    setSavedReport(null);
+    setDigestProgress(null);
+    try {
+      const { content: result, generatedBy } = await AIProviderService.generateReport(entries, template, range, settings, {
+        signal: controller.signal,
+        onChunk: setContent,
+        onProgress: setDigestProgress,
+      });
+      if (controller.signal.aborted) return null;
+      setContent(result);
+
+      const report: Report = {
+        id: Date.now().toString(36),
+        type: template.id,
+        title,
+        content: result,
+        startDate: range.start.toISOString(),
+        endDate: range.end.toISOString(),
+        createdAt: new Date().toISOString(),
+        entryCount: entries.length,
+        generatedBy
+      };
+      setSavedReport(report);
+      onReportGenerated(report);
+      return report;
+    } catch (e: any) {
+      if (!controller.signal.aborted) {
+        alert(e.message || t('analytics.reportFailed'));
+      }
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsGenerating(false);
+        setDigestProgress(null);
+      }
+    }
+  };
+
+  // Keeps whatever has streamed in so far on screen, but it is not saved
+  const cancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsGenerating(false);
+    setDigestProgress(null);
+  };
+
+  // Puts a stored report on screen, or clears it
+  const show = (report: Report | null) => {
+    setContent(report ? report.content : null);
+    setSavedReport(report);
+  };
+
+  return { content, savedReport, isGenerating, digestProgress, generate, cancel, show };
+};
@@ -0,0 +1,444 @@
+import { MessageKey } from './zh';
+
+export const en: Record<MessageKey, string> = {
+  'sentiment.positive': 'Positive',
+  'sentiment.neutral': 'Neutral',
+  'sentiment.negative': 'Negative',
+
+  'date.chartDay': 'MM/dd',
+  'date.iso': 'yyyy-MM-dd',
+  'date.shortDateTime': 'MM/dd HH:mm',
+  'date.medium': 'MMM d, yyyy',
+  'date.long': 'MMMM d, yyyy',
+  'date.time': 'HH:mm',
+  'date.shortTime': 'MMM d, HH:mm',
+  'date.monthYear': 'MMMM yyyy',
+  'date.year': 'yyyy',
+  'date.short': 'MMM d',
+  'date.fullDateTime': 'yyyy-MM-dd HH:mm:ss',
+  'date.shortDateTimeSeconds': 'MM/dd HH:mm:ss',
+
+  'report.type.weekly': 'Weekly report',
+  'report.type.monthly': 'Monthly report',
+  'report.type.yearly': 'Yearly report',
+  'report.type.custom': 'Custom Range',
+  'report.copyFailed': 'Copy failed. Please select the text manually',
+  'report.contents': 'Contents',
+  'report.expandAll': 'Expand all',
+  'report.collapseAll': 'Collapse all',
+  'report.copySection': 'Copy section',
+
+  'ai.notConfigured': 'Please set up an AI service in Settings first',
+  'ai.configureProvider': 'Please set up {provider} first',
+  'ai.noEntries': 'There are no entries to analyze.',
+  'ai.emptyReport': 'The report could not be generated.',
+
+  'analytics.reportFailed': 'Failed to generate the report',
+  'analytics.title': '📊 Insights',
+  'analytics.subtitle': 'Track your moods and writing habits',
+  'analytics.avgMood': 'Average mood',
+  'analytics.streak': 'Streak',
+  'analytics.streakDays': '{count} days',
+  'analytics.avgWords': 'Average words',
+  'analytics.topTopic': 'Top topic',
+  'analytics.moodTrend': '📈 Mood trend',
+  'analytics.moodDistribution': '🎭 Mood distribution',
+  'analytics.topTags': '🏷️ Frequent tags',
+  'analytics.aiReport': 'AI reports',
+  'analytics.aiReportHint': 'In-depth reports generated with {provider}',
+  'analytics.history': 'Past reports',
+  'analytics.openLibrary': 'All reports ({count})',
+  'analytics.cancel': 'Cancel',
+  'analytics.generating': 'Generating...',
+  'analytics.generate': 'Generate report',
+  'analytics.periodCount': '📝 {count} entries in this period',
+  'analytics.needEntries': '(at least one entry is needed for a report)',
+  'analytics.previousPeriod': 'Previous period',
+  'analytics.nextPeriod': 'Next period',
+  'analytics.currentPeriod': 'Back to current',
+  'analytics.rangeFrom': 'From',
+  'analytics.rangeTo': 'to',
+  'analytics.invalidRange': 'The start date must not be after the end date',
+  'analytics.tokenEstimate': ' · ~{tokens} tokens',
+  'analytics.condensedWeekly': 'Too long for one request: condensed into {count} weekly digests first',
+  'analytics.condensedMonthly': 'Too long for one request: condensed into {count} monthly digests first',
+  'analytics.condensedYearly': 'Too long for one request: condensed into {count} yearly digests first',
+  'analytics.digestProgress': 'Preparing digests {done}/{total}…',
+  'analytics.generatedBy': 'Generated by {source}',
+
+  'common.none': 'None yet',
+  'common.notAvailable': 'N/A',
+  'common.delete': 'Delete',
+  'common.untitledEntry': 'Untitled Entry',
+  'common.untitled': 'Untitled',
+
+  'provider.field.apiKey': 'API Key',
+  'provider.field.model': 'Model',
+  'provider.deepseek.description': 'Chinese LLM with deep reasoning',
+  'provider.deepseek.apiKeyPlaceholder': 'Enter your DeepSeek API key',
+  'provider.openai.name': 'OpenAI-compatible server',
+  'provider.openai.description': 'Self-hosted models such as Ollama, vLLM or LM Studio; your diary never leaves your machine',
+  'provider.openai.baseUrl': 'Server URL',
+  'provider.openai.baseUrlHint': 'Up to and including /v1; requests go to {url}/chat/completions',
+  'provider.openai.apiKeyPlaceholder': 'Local servers usually need none',
+  'provider.openai.jsonMode': 'JSON mode',
+  'provider.openai.jsonModeHint': 'Turn on if the server supports response_format; analysis results become more reliable',
+  'provider.gemini.description': 'Google’s latest AI models',
+  'provider.gemini.apiKeyPlaceholder': 'Enter your Google Gemini API key',
+
+  'aiError.auth': '{provider} rejected the request: the API key is invalid or lacks permission. Please check it in Settings',
+  'aiError.quota': 'Your {provider} quota is used up. Top up or switch to another service',
+  'aiError.rateLimit': 'Too many requests to {provider}. Please try again later',
+  'aiError.network': 'Cannot reach {provider}. Check your connection, the server URL or CORS settings',
+  'aiError.timeout': '{provider} did not respond in time. Try again later or raise the timeout in Settings',
+  'aiError.contentFilter': 'The content was blocked by the {provider} safety policy and cannot be analyzed',
+  'aiError.server': '{provider} is temporarily unavailable. Please try again later',
+  'aiError.badRequest': '{provider} could not handle this request',
+  'aiError.unknown': 'The request to {provider} failed',
+  'aiError.detail': ': {detail}',
+
+  'analysis.invalid': 'The AI returned an invalid analysis: {issues}',
+  'analysis.issueSeparator': '; ',
+  'analysis.notObject': 'not a JSON object',
+  'analysis.missingSummary': 'missing summary',
+  'analysis.missingSentiment': 'missing sentiment (sentiment / sentimentScore)',
+  'analysis.parseFailed': 'JSON parsing failed ({message})',
+  'analysis.stale': 'Analysis outdated',
+  'analysis.staleHint': 'The entry changed since its last AI analysis',
+  'analysis.autoRunning': 'AI analysis is running in the background',
+  'analysis.autoRunningShort': 'Auto-analyzing',
+  'queue.title': 'Bulk analysis',
+  'queue.hint': 'Fill in mood and summary for entries that were never analyzed or have changed since',
+  'queue.choose': 'Choose entries',
+  'queue.analyzeAll': 'Analyze all ({count})',
+  'queue.selectAll': 'Select all',
+  'queue.analyzeSelected': 'Analyze selected ({count})',
+  'queue.unanalyzed': 'Not analyzed',
+  'queue.progress': '{done} of {total} done',
+  'queue.failedCount': '{count} failed',
+  'queue.pause': 'Pause',
+  'queue.resume': 'Resume',
+  'queue.retryFailed': 'Retry failed',
+  'queue.retry': 'Retry',
+  'queue.clearAll': 'Clear queue',
+  'queue.clearFinished': 'Clear finished',
+  'queue.current': 'Analyzing: {title}',
+  'queue.paused': 'Paused with {count} entries waiting',
+  'queue.stopped': 'Paused: {reason}',
+  'queue.cooldown': 'Rate limited by the provider; continuing in {seconds}s',
+
+  'storage.locked': 'Your diary is encrypted. Unlock it first',
+  'storage.encryptionOn': 'Encryption is already on',
+  'storage.encryptionOff': 'Encryption is not on',
+  'storage.wrongCurrentPassword': 'The current password is incorrect',
+  'storage.wrongPassword': 'Incorrect password',
+  'storage.noEntriesInBackup': 'The backup file contains no entries',
+  'storage.wrongBackupPassword': 'Incorrect backup password',
+
+  'app.loadFailed': 'Could not open the diary database',
+  'app.menu': 'Menu',
+  'app.toggleTheme': 'Toggle theme',
+  'app.emptyTitle': 'Pick an entry',
+  'app.emptyHint': 'Choose an entry from the list, or create a new one to start writing.',
+  'app.newEntry': 'New entry',
+
+  'sidebar.jsonParseFailed': 'Could not parse the JSON file',
+  'sidebar.backupPassphrase': 'This backup is encrypted. Enter the password used when it was made',
+  'sidebar.importSuccess': 'Imported {count} entries!',
+  'sidebar.importFailed': 'Import failed',
+  'sidebar.totalEntries': 'Total entries',
+  'sidebar.backupFailed': 'Backup failed',
+  'sidebar.backup': 'Back up',
+  'sidebar.import': 'Import',
+  'sidebar.poweredBy': 'Powered by {provider}',
+
+  'nav.editor': 'Journal',
+  'nav.calendar': 'Calendar',
+  'nav.analytics': 'Insights',
+  'nav.reports': 'Reports',
+  'nav.chat': 'Ask Journal',
+  'nav.settings': 'Settings',
+
+  'entryList.title': 'My Journal',
+  'entryList.create': 'Create new entry',
+  'entryList.search': 'Search entries, e.g. tag: mood: ...',
+  'entryList.noMatches': 'No matching entries found.',
+  'entryList.empty': 'No entries yet. Start writing!',
+  'entryList.noContent': 'No content...',
+  'entryList.searchHelp': 'Search syntax',
+  'entryList.invalidQuery': 'Could not understand: {parts}',
+  'entryList.syntax.phrase': 'Exact phrase',
+  'entryList.syntax.tag': 'Has this tag',
+  'entryList.syntax.sentiment': 'Sentiment: positive, neutral or negative',
+  'entryList.syntax.mood': 'Mood contains',
+  'entryList.syntax.score': 'Mood score (0–100) comparison or range',
+  'entryList.syntax.dates': 'After / before a year, month or day',
+  'entryList.syntax.date': 'Within a year, month or day',
+  'entryList.syntax.negate': 'A leading - excludes',
+  'entryList.syntax.combine': 'All conditions must match, e.g. sentiment:negative tag:work date:2025-03',
+
+  'editor.saved': 'Saved',
+  'editor.saving': 'Saving...',
+  'editor.unsaved': 'Unsaved',
+  'editor.analyzeFailed': 'AI analysis failed. Please check your API key settings',
+  'editor.charCount': '{count} chars',
+  'editor.history': 'Revision history',
+  'editor.cancelAnalysis': 'Cancel analysis',
+  'editor.analyzing': 'Analyzing...',
+  'editor.analyze': 'AI analysis',
+  'editor.draftFound': 'Found an unsaved draft from {time}. Restore it?',
+  'editor.restoreDraft': 'Restore',
+  'editor.discardDraft': 'Discard',
+  'editor.titlePlaceholder': 'Give this entry a title...',
+  'editor.contentPlaceholder': 'What’s on your mind today? Markdown is supported',
+  'editor.emptyPreview': 'Nothing here yet',
+  'editor.generating': 'Generating...',
+  'editor.summary': 'Summary',
+  'editor.tags': 'Tags',
+  'editor.suggestions': 'Suggestions',
+  'editor.analyzedBy': 'Analyzed by {source}',
+
+  'calendar.weekdays': 'Mon,Tue,Wed,Thu,Fri,Sat,Sun',
+  'calendar.title': 'Calendar',
+  'calendar.subtitle': 'Browse your journal by date',
+  'calendar.today': 'Today',
+  'calendar.monthStats': 'This month',
+  'calendar.pickDate': 'Pick a date',
+  'calendar.write': 'Write',
+  'calendar.noEntries': 'No entries on this day',
+  'calendar.startWriting': 'Start writing',
+  'calendar.hint': 'Click a date on the calendar to see its entries',
+  'calendar.legend': 'Legend',
+
+  'toolbar.heading1': 'Heading 1',
+  'toolbar.heading2': 'Heading 2',
+  'toolbar.heading3': 'Heading 3',
+  'toolbar.bold': 'Bold',
+  'toolbar.italic': 'Italic',
+  'toolbar.strike': 'Strikethrough',
+  'toolbar.bulletList': 'Bulleted list',
+  'toolbar.orderedList': 'Numbered list',
+  'toolbar.taskList': 'Task list',
+  'toolbar.quote': 'Quote',
+  'toolbar.edit': 'Edit',
+  'toolbar.split': 'Side-by-side preview',
+  'toolbar.preview': 'Preview',
+
+  'unlock.failed': 'Unlock failed',
+  'unlock.title': 'Your diary is encrypted',
+  'unlock.hint': 'Enter your password to unlock it',
+  'unlock.password': 'Password',
+  'unlock.unlocking': 'Unlocking...',
+  'unlock.unlock': 'Unlock',
+
+  'revisions.identical': 'Both versions have the same text',
+  'revisions.confirmRestore': 'Restore the version from {time}? The current text stays in the history.',
+  'revisions.empty': 'Saved versions will appear here',
+  'revisions.latest': 'Latest',
+  'revisions.restore': 'Restore this version',
+  'revisions.restoreFailed': 'Restore failed: the version could not be saved',
+  'revisions.base': 'Older version',
+  'revisions.target': 'Newer version',
+  'revisions.byLine': 'Lines',
+  'revisions.byChar': 'Characters',
+  'revisions.pickTwo': 'Pick two versions to compare',
+
+  'encryption.tooShort': 'The password needs at least {min} characters',
+  'encryption.mismatch': 'The passwords do not match',
+  'encryption.failed': 'Something went wrong',
+  'encryption.unsupported': 'This browser does not support WebCrypto (it needs HTTPS or localhost), so encryption is unavailable.',
+  'encryption.title': 'End-to-end encryption',
+  'encryption.enabledHint': 'Entries and reports are stored encrypted with AES-GCM, and backups stay encrypted too',
+  'encryption.disabledHint': 'Encrypt entries and reports with a password. If you forget it, your data cannot be recovered',
+  'encryption.lockNow': 'Lock now',
+  'encryption.changePassword': 'Change password',
+  'encryption.disable': 'Turn off',
+  'encryption.enable': 'Turn on encryption',
+  'encryption.currentPassword': 'Current password',
+  'encryption.newPassword': 'New password',
+  'encryption.confirmPassword': 'Confirm new password',
+  'encryption.submitEnable': 'Encrypt all entries',
+  'encryption.submitChange': 'Re-encrypt',
+  'encryption.submitDisable': 'Decrypt and turn off',
+
+  'settings.optional': ' (optional)',
+  'settings.validateOk': 'Connected',
+  'settings.validateFailed': 'Validation failed. Please check the settings',
+  'settings.validate': 'Verify',
+  'settings.moveUp': 'Raise priority',
+  'settings.moveDown': 'Lower priority',
+  'settings.fallbackHint': 'Tried in order when the primary service is unavailable',
+  'settings.fallback': 'Fallback',
+  'settings.active': 'In use',
+  'settings.makePrimary': 'Make primary',
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Configure AI services and app preferences',
+  'settings.providers': 'AI providers',
+  'settings.providersHint': 'Listed by priority. When the primary service hits rate limits, timeouts, network or server errors, the services marked “Fallback” are tried in turn.',
+  'settings.general': 'General',
+  'settings.languageHint': 'Language of the interface',
+  'settings.aiLanguage': 'AI output language',
+  'settings.aiLanguageHint': 'Language used for analyses and reports',
+  'settings.aiLanguage.interface': 'Same as interface',
+  'settings.aiLanguage.auto': 'Match each entry',
+  'settings.autoAnalyze': 'Auto-analyze',
+  'settings.autoAnalyzeHint': 'Analyze entries in the background after saving; short or unchanged entries are skipped',
+  'settings.timeout': 'Request timeout',
+  'settings.timeoutHint': 'Give up when the AI service sends nothing for this long. Local models may need more',
+  'settings.seconds': '{count} seconds',
+  'settings.retries': 'Retries',
+  'settings.retriesHint': 'How often to retry after rate limits, network or server errors',
+  'settings.noRetry': 'Never',
+  'settings.retryCount': '{count} times',
+  'settings.privacy': 'Privacy & encryption',
+  'settings.templates': 'AI Templates',
+  'settings.tags': 'Tags',
+  'settings.tips': '💡 Tips',
+  'settings.tips.deepseek': '`deepseek-chat` is recommended for everyday analysis; `deepseek-reasoner` suits deeper reflection',
+  'settings.tips.gemini': '`gemini-2.0-flash` is the fastest; `gemini-1.5-pro` gives the best quality',
+  'settings.tips.getKey': 'Get a {provider} API key',
+  'settings.tips.ollama': 'Ollama needs `OLLAMA_ORIGINS` set so this page may access it cross-origin',
+  'templates.reports': 'Report templates',
+  'templates.reportsHint': 'Which sections a report has, its tone, and the period it covers',
+  'templates.new': 'New template',
+  'templates.edit': 'Edit',
+  'templates.duplicate': 'Duplicate',
+  'templates.deleteConfirm': 'Delete the template "{name}"?',
+  'templates.reset': 'Reset to default',
+  'templates.resetConfirm': 'Discard your changes to "{name}" and restore the default?',
+  'templates.builtIn': 'Built-in',
+  'templates.customized': 'Edited',
+  'templates.copyOf': 'Copy of {name}',
+  'templates.untitled': 'Untitled template',
+  'templates.name': 'Name',
+  'templates.icon': 'Icon',
+  'templates.period': 'Period',
+  'templates.period.week': 'Week',
+  'templates.period.month': 'Month',
+  'templates.period.year': 'Year',
+  'templates.period.custom': 'Custom dates',
+  'templates.tone': 'Tone',
+  'templates.tonePlaceholder': 'e.g. warm, encouraging, but analytical',
+  'templates.prompt': 'Instructions',
+  'templates.sections': 'Section headings (one per line)',
+  'templates.save': 'Save',
+  'templates.cancel': 'Cancel',
+  'templates.preview': 'Preview',
+  'templates.previewHint': 'Runs on a few sample entries; nothing is saved',
+  'templates.previewing': 'Generating preview...',
+  'templates.previewFailed': 'Preview failed',
+  'templates.persona': 'Analysis persona',
+  'templates.personaHint': 'Who the AI is and what it pays attention to when analyzing an entry; leave empty for the default',
+  'library.title': 'Report Library',
+  'library.subtitle': 'Browse, organize and compare every AI report you have generated',
+  'library.allTypes': 'All types',
+  'library.allYears': 'All years',
+  'library.allMonths': 'Whole year',
+  'library.pinnedOnly': 'Pinned only',
+  'library.retention': 'The newest 50 unpinned reports are kept; pinned reports are never removed',
+  'library.clearSelection': 'Clear selection',
+  'library.compare': 'Compare',
+  'library.compareHint': 'Select two reports of the same type to compare',
+  'library.compareSameType': 'Only two reports of the same type can be compared',
+  'library.empty': 'No reports yet. Generate your first one from Insights.',
+  'library.noMatches': 'No reports match these filters',
+  'library.pin': 'Pin (never cleaned up)',
+  'library.unpin': 'Unpin',
+  'library.rename': 'Rename',
+  'library.saveName': 'Save name',
+  'library.cancelRename': 'Cancel',
+  'library.regenerate': 'Regenerate for the same period',
+  'library.templateMissing': 'The template for this report was deleted, so it cannot be regenerated',
+  'library.confirmDelete': 'Delete the report "{title}"?',
+  'library.regenerating': 'Regenerating: {title}',
+  'library.notSaved': 'Cancelled; this was not saved',
+  'library.pickReport': 'Pick a report on the left to read it',
+  'library.period': 'Period: {period}',
+  'library.entryCount': '{count} entries',
+  'library.createdAt': 'Generated {date}',
+  'chat.title': 'Ask my journal',
+  'chat.hint': 'Answers from your own entries, by {provider}',
+  'chat.new': 'New chat',
+  'chat.noConversations': 'No conversations yet',
+  'chat.confirmDelete': 'Delete this conversation?',
+  'chat.emptyTitle': 'Curious about your past self?',
+  'chat.emptyHint': 'Ask in plain words. Answers cite the entries they draw on; click one to open it.',
+  'chat.example1': 'When did I last feel this stressed about work?',
+  'chat.example2': 'What made me happy over the past month?',
+  'chat.example3': 'What has been going on with my family lately?',
+  'chat.placeholder': 'Ask something… (Enter to send, Shift+Enter for a new line)',
+  'chat.noEntries': 'Write a few entries first, then ask away',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop answering',
+  'chat.searching': 'Reading {count} related entries…',
+  'chat.sources': 'Entries consulted',
+  'chat.deletedEntry': '(entry deleted)',
+  'chat.failed': 'Could not answer; please try again',
+  'chat.emptyAnswer': 'The AI returned no answer.',
+  'tags.placeholder': 'Add tags...',
+  'tags.remove': 'Remove tag {tag}',
+  'tags.empty': 'No tags yet. Add them under an entry\'s title, or let AI analysis suggest them.',
+  'tags.filter': 'Filter tags',
+  'tags.total': '{count} tags',
+  'tags.count': '{count} entries',
+  'tags.noMatch': 'No matching tags',
+  'tags.select': 'Select {tag}',
+  'tags.color': 'Color',
+  'tags.defaultColor': 'Default color',
+  'tags.rename': 'Rename',
+  'tags.merge': 'Merge',
+  'tags.mergeSelected': 'Merge {count} selected tags into',
+  'tags.clearSelection': 'Clear selection',
+  'tags.similarHint': 'These tags look alike and could be merged:',
+  'tags.mergeConfirm': 'Merge "{from}" into "{to}" in all entries?',
+  'tags.mergeSelectedConfirm': 'Merge {count} tags into "{to}"?',
+  'tags.deleteConfirm': 'Remove the tag "{tag}" from {count} entries?',
+  'import.title': 'Import entries',
+  'import.close': 'Close',
+  'import.pickFiles': 'Choose files',
+  'import.pickFolder': 'Choose a folder',
+  'import.fileCount': '{count} files read',
+  'import.format': 'Format',
+  'import.format.lumina': 'Lumina backup',
+  'import.format.luminaHint': 'A JSON file exported with Backup, encrypted or not',
+  'import.format.dayone': 'Day One',
+  'import.format.dayoneHint': 'The JSON export from Day One, or its whole zip',
+  'import.format.markdown': 'Markdown notes',
+  'import.format.markdownHint': 'One entry per file, dated by YAML front-matter or the file name, like an Obsidian daily-notes folder',
+  'import.format.text': 'Plain text',
+  'import.format.textHint': 'Many entries in one file, split at lines starting with a date, like a diarium export',
+  'import.noFiles': 'No files to import (.json, .md, .txt and .zip are supported)',
+  'import.zipInvalid': 'This zip file could not be read',
+  'import.zipUnsupported': 'Encrypted zips and zips over 4 GB are not supported',
+  'import.found': '{count} entries found',
+  'import.alreadyThere': '{count} already imported',
+  'import.exists': 'Already there',
+  'import.selectAll': 'Select all',
+  'import.selectNone': 'Select none',
+  'import.warnings': '{count} notes on the files',
+  'import.nothingFound': 'No entries found in these files. Try another format.',
+  'import.more': '{count} more not shown; they are imported too',
+  'import.cancel': 'Cancel',
+  'import.confirm': 'Import {count} entries',
+  'import.warning.unrecognized': 'Format not recognized; skipped',
+  'import.warning.empty': 'Empty; skipped',
+  'import.warning.noDate': 'No date found; skipped',
+  'import.warning.fileDate': 'No date given; the file\'s modified time was used',
+  'import.warning.attachments': 'Photos and other attachments cannot be imported and were left out',
+  'import.warning.beforeFirstDate': 'Text before the first date was skipped',
+  'import.warning.firstBackupOnly': 'Only one backup can be imported at a time; this file was read',
+  'export.title': 'Export',
+  'export.markdown': 'Markdown',
+  'export.html': 'HTML page',
+  'export.pdf': 'Print / PDF',
+  'export.selected': 'Export {count} selected',
+  'export.period': 'Period',
+  'export.template': 'Template',
+  'export.entryCount': 'Entries',
+  'export.createdAt': 'Created',
+  'export.generatedBy': 'Generated by',
+  'export.moodTrend': 'Mood trend',
+  'export.moodDistribution': 'Mood distribution',
+  'export.collectionTitle': '{count} AI reports',
+  'export.footer': 'Exported from Lumina Diary · {date}',
+};
@@ -0,0 +1,73 @@
+import { format as formatDateFns, Locale } from 'date-fns';
+import { enUS, zhCN } from 'date-fns/locale';
+import { AppSettings } from '../types';
+import { zh, MessageKey } from './zh';
+import { en } from './en';
+
+export type { MessageKey } from './zh';
+export type Language = AppSettings['language'];
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { zh, en };
+const DATE_LOCALES: Record<Language, Locale> = { zh: zhCN, en: enUS };
+
+// Remembered outside the (possibly locked) database so the unlock screen
+// already speaks the user's language
+const LANGUAGE_STORAGE_KEY = 'lumina_diary_language';
+
+const detectLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (stored === 'zh' || stored === 'en') return stored;
+  } catch {
+    // Storage can be unavailable (private mode); fall through
+  }
+  return typeof navigator !== 'undefined' && /^en\b/i.test(navigator.language) ? 'en' : 'zh';
+};
+
+let currentLanguage: Language = detectLanguage();
+const listeners = new Set<() => void>();
+
+// The active UI language lives here rather than in React state, so services
+// can produce messages too. Components re-render through useI18n.
+export const I18n = {
+  getLanguage(): Language {
+    return currentLanguage;
+  },
+
+  setLanguage(language: Language) {
+    if (language === currentLanguage) return;
+    currentLanguage = language;
+    document.documentElement.lang = language === 'zh' ? 'zh-CN' : 'en';
+    try {
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+    } catch {
+      // Not persisting is fine; settings still hold the choice
+    }
+    listeners.forEach(listener => listener());
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  // Looks up a message and fills in {placeholders}
+  t(key: MessageKey, params?: MessageParams): string {
+    const message = CATALOGS[currentLanguage][key] ?? zh[key] ?? key;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+  },
+
+  dateLocale(): Locale {
+    return DATE_LOCALES[currentLanguage];
+  },
+
+  // Formats with a pattern from the catalog (e.g. 'date.long'), so each
+  // language gets its own word order as well as its own month names
+  formatDate(date: Date | string | number, pattern: MessageKey): string {
+    return formatDateFns(new Date(date), I18n.t(pattern), { locale: DATE_LOCALES[currentLanguage] });
+  },
+};
+
+export const t = I18n.t;
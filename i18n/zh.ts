@@ -0,0 +1,446 @@
+// Chinese messages, the source catalog: every key is declared here and
+// the other languages are checked against it
+export const zh = {
+  'sentiment.positive': '积极',
+  'sentiment.neutral': '中性',
+  'sentiment.negative': '消极',
+
+  'date.chartDay': 'MM/dd',
+  'date.iso': 'yyyy-MM-dd',
+  'date.shortDateTime': 'MM/dd HH:mm',
+  'date.medium': 'yyyy年M月d日',
+  'date.long': 'yyyy年M月d日',
+  'date.time': 'HH:mm',
+  'date.shortTime': 'M月d日 HH:mm',
+  'date.monthYear': 'yyyy年 M月',
+  'date.year': 'yyyy年',
+  'date.short': 'M月d日',
+  'date.fullDateTime': 'yyyy-MM-dd HH:mm:ss',
+  'date.shortDateTimeSeconds': 'MM/dd HH:mm:ss',
+
+  'report.type.weekly': '周报',
+  'report.type.monthly': '月报',
+  'report.type.yearly': '年报',
+  'report.type.custom': '自定义时段',
+  'report.copyFailed': '复制失败，请手动选择文本',
+  'report.contents': '目录',
+  'report.expandAll': '全部展开',
+  'report.collapseAll': '全部折叠',
+  'report.copySection': '复制本节',
+
+  'ai.notConfigured': '请先在设置中配置 AI 服务',
+  'ai.configureProvider': '请先配置 {provider}',
+  'ai.noEntries': '没有可分析的日记条目。',
+  'ai.emptyReport': '无法生成报告。',
+
+  'analytics.reportFailed': '报告生成失败',
+  'analytics.title': '📊 数据洞察',
+  'analytics.subtitle': '追踪你的情绪变化和写作习惯',
+  'analytics.avgMood': '平均情绪',
+  'analytics.streak': '连续天数',
+  'analytics.streakDays': '{count} 天',
+  'analytics.avgWords': '平均字数',
+  'analytics.topTopic': '热门话题',
+  'analytics.moodTrend': '📈 情绪趋势',
+  'analytics.moodDistribution': '🎭 情绪分布',
+  'analytics.topTags': '🏷️ 常用标签',
+  'analytics.aiReport': 'AI 智能报告',
+  'analytics.aiReportHint': '使用 {provider} 生成深度分析报告',
+  'analytics.history': '历史报告',
+  'analytics.openLibrary': '全部报告（{count}）',
+  'analytics.cancel': '取消生成',
+  'analytics.generating': '生成中...',
+  'analytics.generate': '生成报告',
+  'analytics.periodCount': '📝 本期共 {count} 篇日记',
+  'analytics.needEntries': '（需要至少 1 篇日记才能生成报告）',
+  'analytics.previousPeriod': '上一期',
+  'analytics.nextPeriod': '下一期',
+  'analytics.currentPeriod': '回到本期',
+  'analytics.rangeFrom': '从',
+  'analytics.rangeTo': '至',
+  'analytics.invalidRange': '开始日期不能晚于结束日期',
+  'analytics.tokenEstimate': ' · 约 {tokens} tokens',
+  'analytics.condensedWeekly': '内容较多，将先整理成 {count} 份周摘要再生成报告',
+  'analytics.condensedMonthly': '内容较多，将先整理成 {count} 份月摘要再生成报告',
+  'analytics.condensedYearly': '内容较多，将先整理成 {count} 份年摘要再生成报告',
+  'analytics.digestProgress': '正在整理摘要 {done}/{total}…',
+  'analytics.generatedBy': '由 {source} 生成',
+
+  'common.none': '暂无',
+  'common.notAvailable': 'N/A',
+  'common.delete': '删除',
+  'common.untitledEntry': '无标题日记',
+  'common.untitled': '无标题',
+
+  'provider.field.apiKey': 'API Key',
+  'provider.field.model': '模型选择',
+  'provider.deepseek.description': '国产大模型，支持深度推理',
+  'provider.deepseek.apiKeyPlaceholder': '输入 DeepSeek API Key',
+  'provider.openai.name': 'OpenAI 兼容服务',
+  'provider.openai.description': 'Ollama、vLLM、LM Studio 等自托管模型，日记不离开本机',
+  'provider.openai.baseUrl': '服务地址',
+  'provider.openai.baseUrlHint': '填写到 /v1 为止，请求会发送到 {地址}/chat/completions',
+  'provider.openai.apiKeyPlaceholder': '本地服务通常无需填写',
+  'provider.openai.jsonMode': 'JSON 模式',
+  'provider.openai.jsonModeHint': '服务支持 response_format 时开启，分析结果更稳定',
+  'provider.gemini.description': 'Google 最新 AI 模型',
+  'provider.gemini.apiKeyPlaceholder': '输入 Google Gemini API Key',
+
+  'aiError.auth': '{provider} 拒绝了请求：API Key 无效或没有权限，请在设置中检查',
+  'aiError.quota': '{provider} 账户额度已用尽，请充值或切换到其他服务',
+  'aiError.rateLimit': '{provider} 请求过于频繁，请稍后再试',
+  'aiError.network': '无法连接到 {provider}，请检查网络、服务地址或跨域设置',
+  'aiError.timeout': '{provider} 长时间没有响应，请稍后重试或在设置中调大超时时间',
+  'aiError.contentFilter': '内容被 {provider} 的安全策略拦截，无法分析',
+  'aiError.server': '{provider} 服务暂时不可用，请稍后再试',
+  'aiError.badRequest': '{provider} 无法处理这个请求',
+  'aiError.unknown': '{provider} 请求失败',
+  'aiError.detail': '：{detail}',
+
+  'analysis.invalid': 'AI 返回的分析结果格式无效：{issues}',
+  'analysis.issueSeparator': '；',
+  'analysis.notObject': '不是 JSON 对象',
+  'analysis.missingSummary': '缺少摘要 (summary)',
+  'analysis.missingSentiment': '缺少情绪 (sentiment / sentimentScore)',
+  'analysis.parseFailed': 'JSON 解析失败 ({message})',
+  'analysis.stale': '分析已过时',
+  'analysis.staleHint': '内容在上次 AI 分析后有修改',
+  'analysis.autoRunning': '正在后台进行 AI 分析',
+  'analysis.autoRunningShort': '自动分析中',
+  'queue.title': '批量分析',
+  'queue.hint': '为尚未分析或分析已过时的日记补全情绪和摘要',
+  'queue.choose': '选择日记',
+  'queue.analyzeAll': '全部分析（{count} 篇）',
+  'queue.selectAll': '全选',
+  'queue.analyzeSelected': '分析所选（{count} 篇）',
+  'queue.unanalyzed': '未分析',
+  'queue.progress': '已完成 {done} / {total}',
+  'queue.failedCount': '{count} 篇失败',
+  'queue.pause': '暂停',
+  'queue.resume': '继续',
+  'queue.retryFailed': '重试失败项',
+  'queue.retry': '重试',
+  'queue.clearAll': '清空队列',
+  'queue.clearFinished': '清除已完成记录',
+  'queue.current': '正在分析：{title}',
+  'queue.paused': '已暂停，还有 {count} 篇等待分析',
+  'queue.stopped': '已暂停：{reason}',
+  'queue.cooldown': '服务限流中，{seconds} 秒后继续',
+
+  'storage.locked': '日记已加密，请先解锁',
+  'storage.encryptionOn': '加密已开启',
+  'storage.encryptionOff': '加密未开启',
+  'storage.wrongCurrentPassword': '当前密码不正确',
+  'storage.wrongPassword': '密码不正确',
+  'storage.noEntriesInBackup': '备份文件中没有日记',
+  'storage.wrongBackupPassword': '备份密码不正确',
+
+  'app.loadFailed': '无法打开日记数据库',
+  'app.menu': '菜单',
+  'app.toggleTheme': '切换主题',
+  'app.emptyTitle': '选择一篇日记',
+  'app.emptyHint': '从列表中选择一篇日记，或者创建新的日记开始写作。',
+  'app.newEntry': '写新日记',
+
+  'sidebar.jsonParseFailed': 'JSON 文件解析失败',
+  'sidebar.backupPassphrase': '该备份已加密，请输入备份时使用的密码',
+  'sidebar.importSuccess': '成功导入 {count} 篇日记！',
+  'sidebar.importFailed': '导入失败',
+  'sidebar.totalEntries': '总日记数',
+  'sidebar.backupFailed': '备份失败',
+  'sidebar.backup': '备份',
+  'sidebar.import': '导入',
+  'sidebar.poweredBy': 'Powered by {provider}',
+
+  'nav.editor': '日记',
+  'nav.calendar': '日历',
+  'nav.analytics': '数据洞察',
+  'nav.reports': '报告库',
+  'nav.chat': '问问日记',
+  'nav.settings': '设置',
+
+  'entryList.title': '我的日记',
+  'entryList.create': '新建日记',
+  'entryList.search': '搜索日记，支持 tag: mood: 等条件...',
+  'entryList.noMatches': '没有找到匹配的日记。',
+  'entryList.empty': '还没有日记，开始写作吧！',
+  'entryList.noContent': '暂无内容...',
+  'entryList.searchHelp': '搜索语法',
+  'entryList.invalidQuery': '无法识别：{parts}',
+  'entryList.syntax.phrase': '完整短语',
+  'entryList.syntax.tag': '带有该标签',
+  'entryList.syntax.sentiment': '情感：positive / neutral / negative（或 积极 / 中性 / 消极）',
+  'entryList.syntax.mood': '心情包含',
+  'entryList.syntax.score': '情绪分数（0–100）比较或区间',
+  'entryList.syntax.dates': '在某年、月或日之后 / 之前',
+  'entryList.syntax.date': '在某年、月或日之内',
+  'entryList.syntax.negate': '前加 - 表示排除',
+  'entryList.syntax.combine': '多个条件需同时满足，例如：sentiment:negative tag:工作 date:2025-03',
+
+  'editor.saved': '已保存',
+  'editor.saving': '保存中...',
+  'editor.unsaved': '未保存',
+  'editor.analyzeFailed': 'AI 分析失败，请检查 API Key 配置',
+  'editor.charCount': '{count} 字',
+  'editor.history': '历史版本',
+  'editor.cancelAnalysis': '取消分析',
+  'editor.analyzing': '分析中...',
+  'editor.analyze': 'AI 分析',
+  'editor.draftFound': '发现 {time} 未保存的草稿，是否恢复？',
+  'editor.restoreDraft': '恢复',
+  'editor.discardDraft': '丢弃',
+  'editor.titlePlaceholder': '给这篇日记起个标题...',
+  'editor.contentPlaceholder': '今天有什么想说的？支持 Markdown 格式',
+  'editor.emptyPreview': '暂无内容',
+  'editor.generating': '正在生成...',
+  'editor.summary': '摘要',
+  'editor.tags': '标签',
+  'editor.suggestions': '建议',
+  'editor.analyzedBy': '由 {source} 分析',
+
+  'calendar.weekdays': '一,二,三,四,五,六,日',
+  'calendar.title': '日历视图',
+  'calendar.subtitle': '以日历形式浏览你的日记',
+  'calendar.today': '今天',
+  'calendar.monthStats': '本月统计',
+  'calendar.pickDate': '选择日期',
+  'calendar.write': '写日记',
+  'calendar.noEntries': '这一天还没有日记',
+  'calendar.startWriting': '开始写日记',
+  'calendar.hint': '点击日历上的日期查看日记',
+  'calendar.legend': '图例',
+
+  'toolbar.heading1': '一级标题',
+  'toolbar.heading2': '二级标题',
+  'toolbar.heading3': '三级标题',
+  'toolbar.bold': '粗体',
+  'toolbar.italic': '斜体',
+  'toolbar.strike': '删除线',
+  'toolbar.bulletList': '无序列表',
+  'toolbar.orderedList': '有序列表',
+  'toolbar.taskList': '待办清单',
+  'toolbar.quote': '引用',
+  'toolbar.edit': '编辑',
+  'toolbar.split': '分栏预览',
+  'toolbar.preview': '预览',
+
+  'unlock.failed': '解锁失败',
+  'unlock.title': '日记已加密',
+  'unlock.hint': '输入密码以解锁你的日记',
+  'unlock.password': '密码',
+  'unlock.unlocking': '解锁中...',
+  'unlock.unlock': '解锁',
+
+  'revisions.identical': '两个版本的正文相同',
+  'revisions.confirmRestore': '恢复到 {time} 的版本？当前内容会保留在历史记录中。',
+  'revisions.empty': '保存后会在这里记录历史版本',
+  'revisions.latest': '最新',
+  'revisions.restore': '恢复此版本',
+  'revisions.restoreFailed': '恢复失败，版本未能保存',
+  'revisions.base': '旧版本',
+  'revisions.target': '新版本',
+  'revisions.byLine': '按行',
+  'revisions.byChar': '按字',
+  'revisions.pickTwo': '选择两个版本进行对比',
+
+  'encryption.tooShort': '密码至少需要 {min} 个字符',
+  'encryption.mismatch': '两次输入的密码不一致',
+  'encryption.failed': '操作失败',
+  'encryption.unsupported': '当前浏览器不支持 WebCrypto（需要 HTTPS 或 localhost），无法启用加密。',
+  'encryption.title': '端到端加密',
+  'encryption.enabledHint': '日记和报告内容已使用 AES-GCM 加密存储，备份文件同样保持加密',
+  'encryption.disabledHint': '使用密码加密日记和报告内容，忘记密码将无法恢复数据',
+  'encryption.lockNow': '立即锁定',
+  'encryption.changePassword': '修改密码',
+  'encryption.disable': '关闭',
+  'encryption.enable': '启用加密',
+  'encryption.currentPassword': '当前密码',
+  'encryption.newPassword': '新密码',
+  'encryption.confirmPassword': '确认新密码',
+  'encryption.submitEnable': '加密所有日记',
+  'encryption.submitChange': '重新加密',
+  'encryption.submitDisable': '解密并关闭加密',
+
+  'settings.optional': '（可选）',
+  'settings.validateOk': '连接成功',
+  'settings.validateFailed': '验证失败，请检查配置',
+  'settings.validate': '验证',
+  'settings.moveUp': '提高优先级',
+  'settings.moveDown': '降低优先级',
+  'settings.fallbackHint': '首选服务不可用时依次尝试',
+  'settings.fallback': '备用',
+  'settings.active': '当前使用',
+  'settings.makePrimary': '设为首选',
+  'settings.title': '设置',
+  'settings.subtitle': '配置 AI 服务和应用偏好',
+  'settings.providers': 'AI 服务提供商',
+  'settings.providersHint': '按优先级排列。首选服务遇到限流、超时、网络或服务端错误时，会依次改用勾选了「备用」的服务。',
+  'settings.general': '通用设置',
+  'settings.languageHint': '选择界面语言',
+  'settings.aiLanguage': 'AI 输出语言',
+  'settings.aiLanguageHint': '分析结果和报告使用的语言',
+  'settings.aiLanguage.interface': '跟随界面语言',
+  'settings.aiLanguage.auto': '匹配日记语言',
+  'settings.autoAnalyze': '自动分析',
+  'settings.autoAnalyzeHint': '日记保存后在后台自动分析，内容过短或未修改时跳过',
+  'settings.timeout': '请求超时',
+  'settings.timeoutHint': 'AI 服务超过该时间没有任何响应则放弃，本地模型可适当调大',
+  'settings.seconds': '{count} 秒',
+  'settings.retries': '失败重试',
+  'settings.retriesHint': '遇到限流、网络或服务端错误时自动重试的次数',
+  'settings.noRetry': '不重试',
+  'settings.retryCount': '{count} 次',
+  'settings.privacy': '隐私与加密',
+  'settings.templates': 'AI 模板',
+  'settings.tags': '标签',
+  'settings.tips': '💡 使用提示',
+  'settings.tips.deepseek': '推荐使用 `deepseek-chat` 进行日常分析，`deepseek-reasoner` 适合深度思考',
+  'settings.tips.gemini': '`gemini-2.0-flash` 速度最快，`gemini-1.5-pro` 质量最高',
+  'settings.tips.getKey': '获取 {provider} API Key',
+  'settings.tips.ollama': 'Ollama 需设置 `OLLAMA_ORIGINS` 允许本页面跨域访问',
+  'templates.reports': '报告模板',
+  'templates.reportsHint': '决定报告写哪些章节、用什么语气、覆盖多长时间',
+  'templates.new': '新建模板',
+  'templates.edit': '编辑',
+  'templates.duplicate': '复制',
+  'templates.deleteConfirm': '确定删除模板「{name}」吗？',
+  'templates.reset': '恢复默认',
+  'templates.resetConfirm': '放弃对「{name}」的修改，恢复为默认内容？',
+  'templates.builtIn': '内置',
+  'templates.customized': '已修改',
+  'templates.copyOf': '{name} 副本',
+  'templates.untitled': '未命名模板',
+  'templates.name': '名称',
+  'templates.icon': '图标',
+  'templates.period': '时间范围',
+  'templates.period.week': '按周',
+  'templates.period.month': '按月',
+  'templates.period.year': '按年',
+  'templates.period.custom': '自选日期',
+  'templates.tone': '语气',
+  'templates.tonePlaceholder': '例如：warm, encouraging, but analytical',
+  'templates.prompt': '写作要求',
+  'templates.sections': '章节标题（每行一个）',
+  'templates.save': '保存',
+  'templates.cancel': '取消',
+  'templates.preview': '预览',
+  'templates.previewHint': '用几篇示例日记试运行，结果不会保存',
+  'templates.previewing': '预览生成中...',
+  'templates.previewFailed': '预览失败',
+  'templates.persona': '分析角色',
+  'templates.personaHint': '分析单篇日记时 AI 的身份与关注点，留空则使用默认角色',
+  'library.title': '报告库',
+  'library.subtitle': '浏览、整理并对比所有已生成的 AI 报告',
+  'library.allTypes': '全部类型',
+  'library.allYears': '全部年份',
+  'library.allMonths': '全年',
+  'library.pinnedOnly': '只看已固定',
+  'library.retention': '最多保留最近 50 篇未固定的报告，固定的报告会一直保留',
+  'library.clearSelection': '取消选择',
+  'library.compare': '并排对比',
+  'library.compareHint': '勾选两篇同类型的报告进行对比',
+  'library.compareSameType': '只能对比同一类型的两篇报告',
+  'library.empty': '还没有报告，去数据洞察页生成第一篇吧',
+  'library.noMatches': '没有符合筛选条件的报告',
+  'library.pin': '固定（不会被自动清理）',
+  'library.unpin': '取消固定',
+  'library.rename': '重命名',
+  'library.saveName': '保存名称',
+  'library.cancelRename': '取消',
+  'library.regenerate': '按相同时段重新生成',
+  'library.templateMissing': '该报告的模板已被删除，无法重新生成',
+  'library.confirmDelete': '确定要删除报告“{title}”吗？',
+  'library.regenerating': '重新生成：{title}',
+  'library.notSaved': '已取消，此内容未保存',
+  'library.pickReport': '从左侧选择一篇报告查看',
+  'library.period': '时段：{period}',
+  'library.entryCount': '{count} 篇日记',
+  'library.createdAt': '生成于 {date}',
+  'chat.title': '问问我的日记',
+  'chat.hint': '从你的日记中找出相关内容，由 {provider} 回答',
+  'chat.new': '新对话',
+  'chat.noConversations': '还没有对话',
+  'chat.confirmDelete': '确定要删除这段对话吗？',
+  'chat.emptyTitle': '想了解过去的自己？',
+  'chat.emptyHint': '用自然语言提问，回答会标注引用的日记，点击即可打开原文。',
+  'chat.example1': '我上一次因为工作感到这么大压力是什么时候？',
+  'chat.example2': '最近一个月有哪些让我开心的事？',
+  'chat.example3': '我和家人之间最近发生了什么？',
+  'chat.placeholder': '问点什么……（Enter 发送，Shift+Enter 换行）',
+  'chat.noEntries': '先写几篇日记再来提问吧',
+  'chat.send': '发送',
+  'chat.stop': '停止回答',
+  'chat.searching': '正在阅读 {count} 篇相关日记……',
+  'chat.sources': '参考的日记',
+  'chat.deletedEntry': '（日记已删除）',
+  'chat.failed': '回答失败，请稍后重试',
+  'chat.emptyAnswer': 'AI 没有给出回答。',
+  'tags.placeholder': '添加标签...',
+  'tags.remove': '移除标签 {tag}',
+  'tags.empty': '还没有标签。在日记标题下添加，或由 AI 分析生成。',
+  'tags.filter': '筛选标签',
+  'tags.total': '共 {count} 个标签',
+  'tags.count': '{count} 篇',
+  'tags.noMatch': '没有匹配的标签',
+  'tags.select': '选择 {tag}',
+  'tags.color': '颜色',
+  'tags.defaultColor': '默认颜色',
+  'tags.rename': '重命名',
+  'tags.merge': '合并',
+  'tags.mergeSelected': '将选中的 {count} 个标签合并为',
+  'tags.clearSelection': '取消选择',
+  'tags.similarHint': '这些标签看起来很相似，可以合并：',
+  'tags.mergeConfirm': '将所有日记中的「{from}」合并到「{to}」？',
+  'tags.mergeSelectedConfirm': '将 {count} 个标签合并为「{to}」？',
+  'tags.deleteConfirm': '从 {count} 篇日记中删除标签「{tag}」？',
+  'import.title': '导入日记',
+  'import.close': '关闭',
+  'import.pickFiles': '选择文件',
+  'import.pickFolder': '选择文件夹',
+  'import.fileCount': '已读取 {count} 个文件',
+  'import.format': '格式',
+  'import.format.lumina': 'Lumina 备份',
+  'import.format.luminaHint': '由“备份”导出的 JSON 文件，可以是加密的',
+  'import.format.dayone': 'Day One',
+  'import.format.dayoneHint': 'Day One 导出的 JSON 文件或整个 zip 压缩包',
+  'import.format.markdown': 'Markdown 笔记',
+  'import.format.markdownHint': '每个文件一篇，日期取自 YAML front-matter 或文件名，例如 Obsidian 的日记文件夹',
+  'import.format.text': '纯文本',
+  'import.format.textHint': '一个文件里的多篇日记，以日期开头的行分隔，例如 diarium 的导出',
+  'import.noFiles': '没有找到可导入的文件（支持 .json、.md、.txt 和 .zip）',
+  'import.zipInvalid': '无法读取这个 zip 文件',
+  'import.zipUnsupported': '不支持加密或超过 4 GB 的 zip 文件',
+  'import.found': '找到 {count} 篇日记',
+  'import.alreadyThere': '{count} 篇已导入过',
+  'import.exists': '已存在',
+  'import.selectAll': '全选',
+  'import.selectNone': '全不选',
+  'import.warnings': '{count} 条提示',
+  'import.nothingFound': '这些文件里没有找到日记，试试换一种格式',
+  'import.more': '还有 {count} 篇未显示，也会一起导入',
+  'import.cancel': '取消',
+  'import.confirm': '导入 {count} 篇',
+  'import.warning.unrecognized': '格式无法识别，已跳过',
+  'import.warning.empty': '内容为空，已跳过',
+  'import.warning.noDate': '找不到日期，已跳过',
+  'import.warning.fileDate': '没有写明日期，使用了文件的修改时间',
+  'import.warning.attachments': '照片等附件无法导入，已从正文中移除',
+  'import.warning.beforeFirstDate': '第一个日期之前的文字已跳过',
+  'import.warning.firstBackupOnly': '一次只能导入一个备份，只读取了这个文件',
+  'export.title': '导出',
+  'export.markdown': 'Markdown',
+  'export.html': 'HTML 网页',
+  'export.pdf': '打印 / PDF',
+  'export.selected': '导出选中的 {count} 份',
+  'export.period': '时间范围',
+  'export.template': '模板',
+  'export.entryCount': '日记篇数',
+  'export.createdAt': '生成时间',
+  'export.generatedBy': '生成服务',
+  'export.moodTrend': '情绪趋势',
+  'export.moodDistribution': '情绪分布',
+  'export.collectionTitle': '{count} 份 AI 报告',
+  'export.footer': '导出自 Lumina Diary · {date}',
+} as const;
+
+export type MessageKey = keyof typeof zh;
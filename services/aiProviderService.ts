@@ -1,79 +1,66 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Entry, AnalysisResult, AppSettings, ReportType, AIProviderType } from "../types";
+import { format } from 'date-fns';
+import { Entry, AnalysisResult, AppSettings, AIProviderType, AIAttribution, DateRange, ReportTemplate, ChatMessage } from "../types";
+import {
+  getProviderChain, getProvider, createRequestClient, AIRequestError,
+  CompletionRequest, JsonSchema, ProviderChoice, ProviderClient, StreamOptions,
+} from "./providers";
+import { AnalysisValidationError, parseAnalysis } from "./analysisValidator";
+import { t } from "../i18n";
+import { detectTextLanguage, TextLanguage } from "./languageDetection";
+import { EntryGroup, DigestLevel, REPORT_TOKEN_BUDGET, planReport, groupEntries, formatEntries, fitEntries } from "./reportPlanner";
+import { AnalysisTracker } from "./analysisTracker";
+import { StorageService } from "./storageService";
+import { ReportTemplates } from "./reportTemplates";
+
+export type { StreamOptions } from "./providers";
+export { AnalysisValidationError } from "./analysisValidator";
+export { AIRequestError } from "./providers";
+export { planReport } from "./reportPlanner";
+export type { ReportPlan } from "./reportPlanner";
+
+export interface ReportOptions extends StreamOptions {
+  // Digests prepared so far, for reports too long to send in one request
+  onProgress?: (progress: { done: number; total: number }) => void;
+}
 
 // Analysis schema for structured output
-const analysisSchema: Schema = {
-  type: Type.OBJECT,
+const analysisSchema: JsonSchema = {
+  type: 'object',
   properties: {
     sentiment: {
-      type: Type.STRING,
+      type: 'string',
       enum: ['positive', 'neutral', 'negative'],
       description: "The overall sentiment of the text."
     },
     sentimentScore: {
-      type: Type.INTEGER,
+      type: 'integer',
       description: "A score from 0 to 100 representing positivity."
     },
     summary: {
-      type: Type.STRING,
+      type: 'string',
       description: "A concise summary of the diary entry (max 2 sentences)."
     },
     tags: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
+      type: 'array',
+      items: { type: 'string' },
       description: "Relevant topics or keywords extracted from the text."
     },
     mood: {
-      type: Type.STRING,
+      type: 'string',
       description: "A single emoji representing the mood."
     },
     suggestions: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
+      type: 'array',
+      items: { type: 'string' },
       description: "Writing improvements or reflective questions based on the content."
     }
   },
   required: ["sentiment", "sentimentScore", "summary", "tags", "mood", "suggestions"]
 };
 
-// Prompts for different report types
-const REPORT_PROMPTS: Record<ReportType, { title: string; prompt: string }> = {
-  weekly: {
-    title: '周报',
-    prompt: `Generate a weekly summary report based on the following diary entries. 
-Identify recurring themes, emotional trends, and key events.
-Provide actionable insights and encouragement.
-Format in Markdown with sections: 
-- 📊 本周概览 (Overview)
-- 💭 情绪趋势 (Emotional Trends)
-- 🎯 主要话题 (Key Topics)
-- 💡 洞察与建议 (Insights & Suggestions)
-- ✨ 下周展望 (Looking Ahead)`
-  },
-  monthly: {
-    title: '月报',
-    prompt: `Generate a monthly summary report based on the following diary entries.
-Analyze the overall emotional journey, identify patterns and growth areas.
-Format in Markdown with sections:
-- 📅 本月回顾 (Monthly Overview)
-- 📈 情绪变化曲线 (Emotional Journey)
-- 🏆 本月成就 (Achievements)
-- 🔄 反复出现的主题 (Recurring Themes)
-- 🌱 成长与变化 (Growth & Changes)
-- 💪 下月目标建议 (Goals for Next Month)`
-  },
-  yearly: {
-    title: '年度报告',
-    prompt: `Generate a comprehensive yearly review based on the following diary entries.
-This is a deep reflection on the entire year's journey.
-Format in Markdown with sections:
-- 🎊 年度总结 (Year in Review)
-- 📊 情绪全景图 (Emotional Landscape)
-- ⭐ 年度高光时刻 (Highlights of the Year)
-- 🎓 学到的人生经验 (Life Lessons Learned)
-- 🔮 个人成长轨迹 (Personal Growth Trajectory)
-- 💫 新年寄语 (Message for the New Year)`
-  }
+const LANGUAGE_NAMES: Record<TextLanguage, string> = {
+  zh: 'Simplified Chinese',
+  en: 'English',
 };
 
 const ANALYSIS_PROMPT = `Analyze the following diary entry. Provide sentiment analysis, a brief summary, extract relevant tags, identify the mood (as an emoji), and offer 1-2 writing suggestions or reflective questions.
@@ -81,207 +68,321 @@ const ANALYSIS_PROMPT = `Analyze the following diary entry. Provide sentiment an
 Entry:
 `;
 
-const SYSTEM_INSTRUCTION_ANALYSIS = "You are an empathetic, insightful personal diary assistant. Your goal is to help the user organize their thoughts and gain insights. Always respond in Chinese.";
-const SYSTEM_INSTRUCTION_REPORT = "You are a professional life coach and analyst. Provide a warm, encouraging, but analytical summary. Always respond in Chinese.";
+const respondIn = (language: TextLanguage) => `Always respond in ${LANGUAGE_NAMES[language]}.`;
 
-// DeepSeek API adapter
-class DeepSeekAdapter {
-  private apiKey: string;
-  private model: string;
-  private baseUrl = 'https://api.deepseek.com';
+// Who the analysis speaks as, unless the user wrote their own persona
+export const DEFAULT_ANALYSIS_PERSONA = 'You are an empathetic, insightful personal diary assistant. Your goal is to help the user organize their thoughts and gain insights.';
 
-  constructor(apiKey: string, model: string) {
-    this.apiKey = apiKey;
-    this.model = model;
-  }
+const analysisInstruction = (settings: AppSettings, language: TextLanguage) =>
+  `${settings.analysisPersona.trim() || DEFAULT_ANALYSIS_PERSONA} ${respondIn(language)}`;
+const reportInstruction = (tone: string, language: TextLanguage) =>
+  `You are a professional life coach and analyst. Provide a ${tone} summary. ${respondIn(language)}`;
+const digestInstruction = (language: TextLanguage) =>
+  `You condense diary entries into faithful digests that a report will later be written from. Keep dates, events, people, feelings and recurring themes; leave out advice and commentary. ${respondIn(language)}`;
 
-  async chat(systemPrompt: string, userPrompt: string, jsonMode: boolean = false): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt + (jsonMode ? '\n\nYou must respond with valid JSON only.' : '') },
-          { role: 'user', content: userPrompt }
-        ],
-        stream: false,
-        ...(jsonMode && { response_format: { type: 'json_object' } })
-      }),
-    });
+const chatInstruction = (language: TextLanguage) =>
+  `You answer questions about the user's own diary using only the numbered diary entries provided. Cite every entry you rely on by its number in square brackets, like [2] or [1][3]. If the entries do not answer the question, say so plainly instead of guessing. Speak to the user as "you". ${respondIn(language)}`;
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new Error(`DeepSeek API Error: ${response.status} - ${error.error?.message || 'Unknown error'}`);
-    }
+// Room for the retrieved entries in a journal question
+const CHAT_SOURCE_BUDGET = 8_000;
+// Earlier messages sent along so follow-up questions make sense, and how
+// much of each
+const CHAT_HISTORY_MESSAGES = 6;
+const CHAT_HISTORY_CHARS = 1_500;
 
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
-  }
+const DIGEST_LENGTH: Record<TextLanguage, string> = {
+  zh: 'about 400 Chinese characters',
+  en: 'about 250 words',
+};
 
-  async analyzeEntry(text: string): Promise<AnalysisResult> {
-    const prompt = `${ANALYSIS_PROMPT}${text}
+// Spelled out in the prompt for providers that cannot enforce the schema
+const analysisFormat = (language: TextLanguage) => `
 
 Please respond with a JSON object containing:
 - sentiment: "positive", "neutral", or "negative"
 - sentimentScore: number from 0 to 100
-- summary: brief summary in Chinese (max 2 sentences)
-- tags: array of relevant tags in Chinese
+- summary: brief summary in ${LANGUAGE_NAMES[language]} (max 2 sentences)
+- tags: array of relevant tags in ${LANGUAGE_NAMES[language]}
 - mood: a single emoji
-- suggestions: array of 1-2 suggestions or questions in Chinese`;
+- suggestions: array of 1-2 suggestions or questions in ${LANGUAGE_NAMES[language]}`;
 
-    const result = await this.chat(SYSTEM_INSTRUCTION_ANALYSIS, prompt, true);
-    return JSON.parse(result) as AnalysisResult;
-  }
+// Sent once when the first reply could not be repaired
+const buildFixPrompt = (error: AnalysisValidationError): string => `Your previous reply could not be used as the diary analysis.
+Problems: ${error.issues.join('; ')}
 
-  async generateReport(entries: Entry[], reportType: ReportType): Promise<string> {
-    if (!entries.length) return "没有可分析的日记条目。";
+Previous reply:
+${error.raw.slice(0, 4000)}
 
-    const context = entries
-      .map(e => `日期: ${e.date.split('T')[0]}\n标题: ${e.title}\n内容: ${e.content}`)
-      .join('\n---\n');
+Reply again with only the corrected JSON object.`;
 
-    const { prompt } = REPORT_PROMPTS[reportType];
-    const fullPrompt = `${prompt}\n\n日记条目:\n${context}`;
+const buildWeekDigestPrompt = (group: EntryGroup, language: TextLanguage): string => `Condense the diary entries from ${group.startDate} to ${group.endDate} into a digest of ${DIGEST_LENGTH[language]}.
+Mention the most important events with their dates, how the writer felt, and anything that keeps coming up.
 
-    return await this.chat(SYSTEM_INSTRUCTION_REPORT, fullPrompt, false);
-  }
-}
+Diary entries:
+${formatEntries(fitEntries(group.entries, REPORT_TOKEN_BUDGET))}`;
 
-// Gemini API adapter
-class GeminiAdapter {
-  private ai: GoogleGenAI;
-  private model: string;
+const buildMonthDigestPrompt = (group: EntryGroup, weeks: string, language: TextLanguage): string => `Combine the weekly digests of the diary from ${group.startDate} to ${group.endDate} into one monthly digest of ${DIGEST_LENGTH[language]}.
+Keep the key events with their dates, how the writer's mood developed over the month, and the recurring themes.
 
-  constructor(apiKey: string, model: string) {
-    this.ai = new GoogleGenAI({ apiKey });
-    this.model = model;
-  }
+Weekly digests:
+${weeks}`;
 
-  async analyzeEntry(text: string): Promise<AnalysisResult> {
-    const response = await this.ai.models.generateContent({
-      model: this.model,
-      contents: `${ANALYSIS_PROMPT}${text}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        systemInstruction: SYSTEM_INSTRUCTION_ANALYSIS
-      }
-    });
+const buildYearDigestPrompt = (group: EntryGroup, months: string, language: TextLanguage): string => `Combine the monthly digests of the diary from ${group.startDate} to ${group.endDate} into one yearly digest of ${DIGEST_LENGTH[language]}.
+Keep the turning points of the year with their dates, how the writer's mood developed over it, and the themes that ran through it.
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response from Gemini AI");
-    return JSON.parse(jsonText) as AnalysisResult;
-  }
+Monthly digests:
+${months}`;
 
-  async generateReport(entries: Entry[], reportType: ReportType): Promise<string> {
-    if (!entries.length) return "没有可分析的日记条目。";
+// Digests of the periods, oldest first, each under a heading with its dates
+const formatDigests = (groups: EntryGroup[], digests: string[]): string =>
+  groups.map((group, i) => `### ${group.startDate} – ${group.endDate}\n${digests[i]}`).join('\n\n');
 
-    const context = entries
-      .map(e => `日期: ${e.date.split('T')[0]}\n标题: ${e.title}\n内容: ${e.content}`)
-      .join('\n---\n');
+const REPORT_SOURCES: Record<'direct' | DigestLevel, string> = {
+  direct: 'Diary entries:',
+  week: 'There are too many entries to include in full, so here are weekly digests of them in chronological order:',
+  month: 'There are too many entries to include in full, so here are monthly digests of them in chronological order:',
+  year: 'There are too many entries to include in full, so here are yearly digests of them in chronological order:',
+};
 
-    const { prompt } = REPORT_PROMPTS[reportType];
+const buildReportPrompt = (
+  context: string,
+  source: 'direct' | DigestLevel,
+  template: ReportTemplate,
+  range: DateRange,
+  language: TextLanguage
+): string => {
+  const { prompt, sections } = template;
+  const headings = sections.map(section => `- ${section}`).join('\n');
+  return `${prompt}
+The report covers ${format(range.start, 'yyyy-MM-dd')} to ${format(range.end, 'yyyy-MM-dd')}.
+Write the report in ${LANGUAGE_NAMES[language]}.
+Format in Markdown, starting each section with a level-2 heading (##):
+${headings}
+
+${REPORT_SOURCES[source]}
+${context}`;
+};
 
-    const response = await this.ai.models.generateContent({
-      model: this.model,
-      contents: `${prompt}\n\n日记条目:\n${context}`,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION_REPORT
-      }
-    });
+const buildChatPrompt = (question: string, history: ChatMessage[], sources: Entry[]): string => {
+  const conversation = history
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.slice(0, CHAT_HISTORY_CHARS)}`)
+    .join('\n\n');
+  const entries = sources
+    .map((e, i) => `[${i + 1}] Date: ${e.date.split('T')[0]}\nTitle: ${e.title}\nContent: ${e.content}`)
+    .join('\n---\n');
+  return `Today is ${format(new Date(), 'yyyy-MM-dd')}.
+${conversation && `\nConversation so far:\n${conversation}\n`}
+Diary entries that may be relevant, oldest first:
+${entries || '(none found)'}
+
+Question: ${question}`;
+};
 
-    return response.text || "无法生成报告。";
+// The language AI output should be written in: the interface language, or
+// in auto mode the language of the text itself, falling back to the
+// interface language when the text gives no clue
+const resolveOutputLanguage = (settings: AppSettings, text: string): TextLanguage =>
+  (settings.aiLanguage === 'auto' && detectTextLanguage(text)) || settings.language;
+
+// Runs a task against each provider in the priority chain until one
+// succeeds. Only retryable failures (rate limits, network, timeouts, server
+// errors that outlasted the request layer's own retries) move on to the
+// next provider; anything else is reported straight away.
+const withFallback = async <T>(
+  settings: AppSettings,
+  task: string,
+  signal: AbortSignal | undefined,
+  run: (choice: ProviderChoice, client: ProviderClient) => Promise<T>
+): Promise<{ value: T; generatedBy: AIAttribution }> => {
+  const chain = getProviderChain(settings);
+  if (!chain.length) {
+    throw new Error(t('ai.configureProvider', { provider: getProvider(settings.activeProvider).name }));
   }
-}
-
-// Unified AI Provider Service
-export const AIProviderService = {
-  async analyzeEntry(text: string, settings: AppSettings): Promise<AnalysisResult> {
-    const { activeProvider, providers } = settings;
-    const providerConfig = providers[activeProvider];
-
-    if (!providerConfig.apiKey) {
-      throw new Error(`请先配置 ${activeProvider.toUpperCase()} 的 API Key`);
-    }
-
-    if (!providerConfig.enabled) {
-      throw new Error(`${activeProvider.toUpperCase()} 提供商未启用`);
-    }
 
+  let lastError: unknown;
+  for (const [i, choice] of chain.entries()) {
+    const { provider, config } = choice;
     try {
-      if (activeProvider === 'deepseek') {
-        const adapter = new DeepSeekAdapter(providerConfig.apiKey, providerConfig.model);
-        return await adapter.analyzeEntry(text);
-      } else {
-        const adapter = new GeminiAdapter(providerConfig.apiKey, providerConfig.model);
-        return await adapter.analyzeEntry(text);
-      }
+      const value = await run(choice, createRequestClient(provider, config, settings));
+      return { value, generatedBy: { provider: provider.id, model: config.model } };
     } catch (error) {
-      console.error(`AI Analysis Failed (${activeProvider}):`, error);
-      throw error;
+      console.error(`${task} Failed (${provider.id}):`, error);
+      const canFallBack = error instanceof AIRequestError && error.retryable && !signal?.aborted;
+      if (!canFallBack) throw error;
+      lastError = error;
+      if (i < chain.length - 1) console.warn(`Falling back from ${provider.id} to ${chain[i + 1].provider.id}`);
     }
-  },
+  }
+  throw lastError;
+};
 
-  async generateReport(entries: Entry[], reportType: ReportType, settings: AppSettings): Promise<string> {
-    const { activeProvider, providers } = settings;
-    const providerConfig = providers[activeProvider];
+// Asks for one digest; it is an intermediate step, so its attribution is not kept
+const summarize = async (settings: AppSettings, language: TextLanguage, prompt: string, signal?: AbortSignal): Promise<string> => {
+  const { value } = await withFallback(settings, 'Report Digest', signal, (_choice, client) =>
+    client.complete({ system: digestInstruction(language), prompt }, { signal }));
+  return value.trim();
+};
 
-    if (!providerConfig.apiKey) {
-      throw new Error(`请先配置 ${activeProvider.toUpperCase()} 的 API Key`);
+// Digest of one week, month or year, reused from the cache as long as the
+// period's entries are unchanged. A month is condensed from the digests of
+// its weeks and a year from those of its months, so a period whose cached
+// digest is still good costs nothing, and a changed one only re-summarizes
+// the parts that changed.
+const digestGroup = async (group: EntryGroup, settings: AppSettings, language: TextLanguage, signal?: AbortSignal): Promise<string> => {
+  signal?.throwIfAborted();
+  const id = `${group.level}:${group.startDate}:${language}`;
+  const sourceHash = AnalysisTracker.hashContent(formatEntries(group.entries));
+  const cached = await StorageService.loadDigest(id);
+  if (cached?.sourceHash === sourceHash) return cached.content;
+
+  let content: string;
+  if (group.level === 'week') {
+    content = await summarize(settings, language, buildWeekDigestPrompt(group, language), signal);
+  } else {
+    const parts = groupEntries(group.entries, group.level === 'month' ? 'week' : 'month');
+    const digests: string[] = [];
+    for (const part of parts) {
+      digests.push(await digestGroup(part, settings, language, signal));
     }
+    const buildPrompt = group.level === 'month' ? buildMonthDigestPrompt : buildYearDigestPrompt;
+    content = await summarize(settings, language, buildPrompt(group, formatDigests(parts, digests), language), signal);
+  }
 
-    if (!providerConfig.enabled) {
-      throw new Error(`${activeProvider.toUpperCase()} 提供商未启用`);
-    }
+  const { level, startDate, endDate } = group;
+  await StorageService.saveDigest({ id, level, startDate, endDate, language, sourceHash, content, createdAt: new Date().toISOString() })
+    .catch(e => console.error("Failed to cache report digest", e));
+  return content;
+};
 
-    try {
-      if (activeProvider === 'deepseek') {
-        const adapter = new DeepSeekAdapter(providerConfig.apiKey, providerConfig.model);
-        return await adapter.generateReport(entries, reportType);
-      } else {
-        const adapter = new GeminiAdapter(providerConfig.apiKey, providerConfig.model);
-        return await adapter.generateReport(entries, reportType);
+// Condenses entries into one digest per week, month or year, one request at a time
+const digestEntries = async (
+  entries: Entry[],
+  level: DigestLevel,
+  settings: AppSettings,
+  language: TextLanguage,
+  options?: ReportOptions
+): Promise<string> => {
+  const groups = groupEntries(entries, level);
+  const digests: string[] = [];
+  for (const group of groups) {
+    options?.onProgress?.({ done: digests.length, total: groups.length });
+    digests.push(await digestGroup(group, settings, language, options?.signal));
+  }
+  options?.onProgress?.({ done: groups.length, total: groups.length });
+  return formatDigests(groups, digests);
+};
+
+// Reads the summary out of a partially streamed analysis JSON, so the
+// editor can show it before the whole object has arrived
+const readPartialSummary = (partialJson: string): string | null => {
+  const match = /"summary"\s*:\s*"((?:[^"\\]|\\.)*)/.exec(partialJson);
+  if (!match) return null;
+  try {
+    return JSON.parse(`"${match[1].replace(/\\$/, '')}"`);
+  } catch {
+    return match[1];
+  }
+};
+
+// Unified AI Provider Service
+export const AIProviderService = {
+  // Whether any provider in the priority chain can make a request
+  isConfigured(settings: AppSettings): boolean {
+    return getProviderChain(settings).length > 0;
+  },
+
+  async analyzeEntry(text: string, settings: AppSettings, options?: StreamOptions): Promise<AnalysisResult & { generatedBy: AIAttribution }> {
+    const language = resolveOutputLanguage(settings, text);
+    const { value, generatedBy } = await withFallback(settings, 'AI Analysis', options?.signal, async ({ provider, config }, client) => {
+      const { jsonSchema } = provider.capabilities(config);
+      const request: CompletionRequest = {
+        system: analysisInstruction(settings, language),
+        prompt: `${ANALYSIS_PROMPT}${text}${jsonSchema ? '' : analysisFormat(language)}`,
+        json: true,
+        schema: analysisSchema,
+      };
+
+      const result = await client.complete(request, options);
+      try {
+        return parseAnalysis(result);
+      } catch (error) {
+        if (!(error instanceof AnalysisValidationError)) throw error;
+        // One retry showing the model what was wrong; a second failure is final
+        console.warn(`Invalid analysis from ${provider.id}, retrying:`, error.issues);
+        const retry = await client.complete({ ...request, prompt: buildFixPrompt(error) }, { signal: options?.signal });
+        return parseAnalysis(retry);
       }
-    } catch (error) {
-      console.error(`Report Generation Failed (${activeProvider}):`, error);
-      throw error;
-    }
+    });
+    return { ...value, generatedBy };
   },
 
-  // Get available models for a provider
-  getModels(provider: AIProviderType): string[] {
-    if (provider === 'deepseek') {
-      return ['deepseek-chat', 'deepseek-reasoner'];
-    } else {
-      return ['gemini-2.0-flash', 'gemini-2.0-flash-lite', 'gemini-1.5-pro'];
+  async generateReport(
+    entries: Entry[],
+    reportTemplate: ReportTemplate,
+    range: DateRange,
+    settings: AppSettings,
+    options?: ReportOptions
+  ): Promise<{ content: string; generatedBy?: AIAttribution }> {
+    if (!this.isConfigured(settings)) {
+      throw new Error(t('ai.configureProvider', { provider: getProvider(settings.activeProvider).name }));
     }
+    if (!entries.length) return { content: t('ai.noEntries') };
+
+    const language = resolveOutputLanguage(settings, entries.map(e => `${e.title}\n${e.content}`).join('\n'));
+    const template = ReportTemplates.localize(reportTemplate, language);
+
+    // Too much text for one request: map-reduce through weekly (and, for
+    // long ranges, monthly or yearly) digests, then write the report from those
+    const { level } = planReport(entries);
+    const context = level === 'direct'
+      ? formatEntries(entries)
+      : await digestEntries(entries, level, settings, language, options);
+
+    const { value, generatedBy } = await withFallback(settings, 'Report Generation', options?.signal, async (_choice, client) => {
+      const result = await client.complete({
+        system: reportInstruction(template.tone, language),
+        prompt: buildReportPrompt(context, level, template, range, language),
+      }, options);
+      return result || t('ai.emptyReport');
+    });
+    return { content: value, generatedBy };
   },
 
-  // Validate API key by making a test request
-  async validateApiKey(provider: AIProviderType, apiKey: string): Promise<boolean> {
+  // Answers a question about the diary from the entries retrieved for it,
+  // citing them as [1], [2]... in the order of `sources`
+  async askJournal(
+    question: string,
+    history: ChatMessage[],
+    sources: Entry[],
+    settings: AppSettings,
+    options?: StreamOptions
+  ): Promise<{ content: string; generatedBy: AIAttribution }> {
+    const language = resolveOutputLanguage(settings, question);
+    const prompt = buildChatPrompt(question, history.slice(-CHAT_HISTORY_MESSAGES), fitEntries(sources, CHAT_SOURCE_BUDGET));
+    const { value, generatedBy } = await withFallback(settings, 'Journal Chat', options?.signal, (_choice, client) =>
+      client.complete({ system: chatInstruction(language), prompt }, options));
+    return { content: value.trim() || t('chat.emptyAnswer'), generatedBy };
+  },
+
+  // Validate a provider's settings by making a test request. Resolves with
+  // the classified error when the request fails, or null when it works.
+  async validateProvider(id: AIProviderType, settings: AppSettings): Promise<AIRequestError | null> {
+    const provider = getProvider(id);
+    const config = settings.providers[id];
     try {
-      if (provider === 'deepseek') {
-        const adapter = new DeepSeekAdapter(apiKey, 'deepseek-chat');
-        await adapter.chat('You are a test assistant.', 'Say "OK" if you can hear me.', false);
-        return true;
-      } else {
-        const ai = new GoogleGenAI({ apiKey });
-        await ai.models.generateContent({
-          model: 'gemini-2.0-flash',
-          contents: 'Say "OK"',
-        });
-        return true;
-      }
-    } catch {
-      return false;
+      await provider.validate(createRequestClient(provider, config, settings, { maxRetries: 0 }), config);
+      return null;
+    } catch (error) {
+      return error instanceof AIRequestError
+        ? error
+        : new AIRequestError('unknown', provider.name, { detail: (error as Error)?.message });
     }
   },
 
-  getReportTypeInfo(type: ReportType) {
-    return REPORT_PROMPTS[type];
-  }
+  readPartialSummary,
+
+  // "DeepSeek · deepseek-chat", for showing where a result came from
+  describeAttribution(attribution: AIAttribution): string {
+    return `${getProvider(attribution.provider).name} · ${attribution.model}`;
+  },
 };
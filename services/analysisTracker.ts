@@ -0,0 +1,54 @@
+import { Entry, AnalysisResult, AIAttribution } from "../types";
+
+// Shorter entries (whitespace not counted) are left for manual analysis
+const MIN_AUTO_ANALYZE_LENGTH = 50;
+
+// 32-bit FNV-1a. It only has to notice that the content changed, so a
+// fast synchronous hash beats SubtleCrypto here.
+const hashContent = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Keeps track of which content an entry's analysis was made from
+export const AnalysisTracker = {
+  hashContent,
+
+  // The entry fields recording an analysis of `content`
+  toEntryUpdates(entry: Entry, result: AnalysisResult & { generatedBy: AIAttribution }, content: string): Partial<Entry> {
+    return {
+      sentiment: result.sentiment,
+      sentimentScore: result.sentimentScore,
+      summary: result.summary,
+      tags: [...new Set([...entry.tags, ...result.tags])],
+      mood: result.mood,
+      aiAnalysis: {
+        suggestions: result.suggestions,
+      },
+      analyzedBy: result.generatedBy,
+      analyzedHash: hashContent(content),
+    };
+  },
+
+  // The entry has an analysis, but of an earlier version of its content.
+  // Analyses made before hashes were recorded cannot tell and count as current.
+  isStale(entry: Entry): boolean {
+    return !!entry.analyzedHash && entry.analyzedHash !== hashContent(entry.content);
+  },
+
+  // Never analyzed, or analyzed before its last change; empty entries have nothing to analyze
+  needsAnalysis(entry: Entry): boolean {
+    if (!entry.content.trim()) return false;
+    return !(entry.summary || entry.sentiment) || AnalysisTracker.isStale(entry);
+  },
+
+  // Long enough to be worth analyzing and changed since the last analysis
+  needsAutoAnalysis(entry: Entry): boolean {
+    if (entry.content.replace(/\s/g, '').length < MIN_AUTO_ANALYZE_LENGTH) return false;
+    return entry.analyzedHash !== hashContent(entry.content);
+  },
+};
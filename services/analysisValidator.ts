@@ -0,0 +1,121 @@
+import { AnalysisResult } from "../types";
+import { t } from "../i18n";
+
+// Thrown when a model's analysis cannot be parsed or repaired into an AnalysisResult
+export class AnalysisValidationError extends Error {
+  readonly raw: string;
+  readonly issues: string[];
+
+  constructor(raw: string, issues: string[]) {
+    super(t('analysis.invalid', { issues: issues.join(t('analysis.issueSeparator')) }));
+    this.name = 'AnalysisValidationError';
+    this.raw = raw;
+    this.issues = issues;
+  }
+}
+
+type Sentiment = AnalysisResult['sentiment'];
+
+const SENTIMENT_ALIASES: Record<string, Sentiment> = {
+  positive: 'positive', happy: 'positive', joyful: 'positive', good: 'positive', optimistic: 'positive',
+  积极: 'positive', 正面: 'positive', 开心: 'positive',
+  neutral: 'neutral', mixed: 'neutral', calm: 'neutral',
+  中性: 'neutral', 平静: 'neutral',
+  negative: 'negative', sad: 'negative', angry: 'negative', anxious: 'negative', bad: 'negative',
+  消极: 'negative', 负面: 'negative', 难过: 'negative',
+};
+
+const DEFAULT_SCORES: Record<Sentiment, number> = { positive: 75, neutral: 50, negative: 25 };
+const DEFAULT_MOODS: Record<Sentiment, string> = { positive: '🙂', neutral: '😐', negative: '😔' };
+
+const MAX_TAGS = 10;
+const MAX_SUGGESTIONS = 3;
+
+// Pulls the JSON object out of a reply: drops Markdown code fences and any
+// prose the model wrapped around the braces
+export const extractJson = (text: string): string => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start !== -1 && end > start ? body.slice(start, end + 1) : body;
+};
+
+const toScore = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return null;
+  return Math.round(Math.min(100, Math.max(0, n)));
+};
+
+const toSentiment = (value: unknown): Sentiment | null =>
+  typeof value === 'string' ? SENTIMENT_ALIASES[value.trim().toLowerCase()] || null : null;
+
+const sentimentFromScore = (score: number): Sentiment =>
+  score > 60 ? 'positive' : score < 40 ? 'negative' : 'neutral';
+
+// Accepts an array or a comma separated string; trims, dedupes and caps
+const toStringList = (value: unknown, limit: number, clean: (s: string) => string = s => s): string[] => {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string' ? value.split(/[,，、\n]/) : [];
+  const strings = items
+    .filter(item => typeof item === 'string' || typeof item === 'number')
+    .map(item => clean(String(item).trim()))
+    .filter(Boolean);
+  return [...new Set(strings)].slice(0, limit);
+};
+
+// Coerces a parsed reply into a well-formed AnalysisResult. Fields that can
+// be inferred from the others are filled in; a reply without a summary or
+// any sentiment signal cannot be repaired.
+export const repairAnalysis = (value: unknown, raw: string): AnalysisResult => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AnalysisValidationError(raw, [t('analysis.notObject')]);
+  }
+  const data = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const summary = typeof data.summary === 'string' || typeof data.summary === 'number'
+    ? String(data.summary).trim()
+    : '';
+  if (!summary) issues.push(t('analysis.missingSummary'));
+
+  let sentiment = toSentiment(data.sentiment);
+  let score = toScore(data.sentimentScore);
+  if (!sentiment && score === null) {
+    issues.push(t('analysis.missingSentiment'));
+  }
+
+  if (issues.length) throw new AnalysisValidationError(raw, issues);
+
+  sentiment = sentiment || sentimentFromScore(score!);
+  score = score ?? DEFAULT_SCORES[sentiment];
+
+  const mood = typeof data.mood === 'string' && data.mood.trim()
+    ? [...data.mood.trim()].slice(0, 4).join('')
+    : DEFAULT_MOODS[sentiment];
+
+  return {
+    sentiment,
+    sentimentScore: score,
+    summary,
+    tags: toStringList(data.tags, MAX_TAGS, tag => tag.replace(/^#+/, '').trim()),
+    mood,
+    // A lone suggestion is a sentence, not a list to split on commas
+    suggestions: toStringList(
+      typeof data.suggestions === 'string' ? [data.suggestions] : data.suggestions,
+      MAX_SUGGESTIONS
+    ),
+  };
+};
+
+// Parses and repairs a raw model reply in one step
+export const parseAnalysis = (raw: string): AnalysisResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(raw));
+  } catch (e) {
+    throw new AnalysisValidationError(raw, [t('analysis.parseFailed', { message: (e as Error).message })]);
+  }
+  return repairAnalysis(parsed, raw);
+};
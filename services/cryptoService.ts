@@ -0,0 +1,91 @@
+// WebCrypto helpers for passphrase-based encryption at rest.
+// Keys are derived with PBKDF2-SHA256 and data is sealed with AES-GCM.
+
+export interface EncryptedPayload {
+  iv: string;   // base64, 12 bytes
+  data: string; // base64 ciphertext including the GCM tag
+}
+
+export interface KeyDerivationParams {
+  algorithm: 'PBKDF2-SHA256';
+  salt: string; // base64, 16 bytes
+  iterations: number;
+}
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const DEFAULT_ITERATIONS = 600_000;
+const VERIFIER_PLAINTEXT = 'lumina-diary-key-check';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const CryptoService = {
+  isSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  },
+
+  createKeyDerivationParams(): KeyDerivationParams {
+    return {
+      algorithm: 'PBKDF2-SHA256',
+      salt: toBase64(crypto.getRandomValues(new Uint8Array(16))),
+      iterations: DEFAULT_ITERATIONS,
+    };
+  },
+
+  async deriveKey(passphrase: string, params: KeyDerivationParams): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(params.salt), iterations: params.iterations },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  },
+
+  async encrypt(key: CryptoKey, plaintext: string): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  },
+
+  // Rejects when the key is wrong or the payload was tampered with
+  async decrypt(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.data)
+    );
+    return decoder.decode(data);
+  },
+
+  // A known plaintext sealed with the key, used to check a passphrase
+  // without having to decrypt real data.
+  createVerifier(key: CryptoKey): Promise<EncryptedPayload> {
+    return this.encrypt(key, VERIFIER_PLAINTEXT);
+  },
+
+  async verify(key: CryptoKey, verifier: EncryptedPayload): Promise<boolean> {
+    try {
+      return (await this.decrypt(key, verifier)) === VERIFIER_PLAINTEXT;
+    } catch {
+      return false;
+    }
+  }
+};
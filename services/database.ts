@@ -0,0 +1,189 @@
+// Thin promise wrapper around IndexedDB used by the storage layer.
+
+const DB_NAME = 'lumina_diary';
+
+export const STORES = {
+  entries: 'entries',
+  reports: 'reports',
+  settings: 'settings',
+  meta: 'meta',
+  revisions: 'revisions',
+  drafts: 'drafts',
+  analysisJobs: 'analysisJobs',
+  digests: 'digests',
+  conversations: 'conversations',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Schema upgrades, one per database version. Never edit an existing step;
+// append a new one so that older databases are migrated forward in order.
+const UPGRADES: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // v1: per-record stores for entries, reports and settings
+  (db) => {
+    const entries = db.createObjectStore(STORES.entries, { keyPath: 'id' });
+    entries.createIndex('date', 'date');
+    entries.createIndex('tags', 'tags', { multiEntry: true });
+
+    const reports = db.createObjectStore(STORES.reports, { keyPath: 'id' });
+    reports.createIndex('createdAt', 'createdAt');
+    reports.createIndex('type', 'type');
+
+    db.createObjectStore(STORES.settings);
+    db.createObjectStore(STORES.meta);
+  },
+  // v2: revision history, looked up by entry
+  (db) => {
+    const revisions = db.createObjectStore(STORES.revisions, { keyPath: 'id' });
+    revisions.createIndex('entryId', 'entryId');
+  },
+  // v3: editor drafts, one per entry
+  (db) => {
+    db.createObjectStore(STORES.drafts, { keyPath: 'entryId' });
+  },
+  // v4: bulk analysis queue, one job per entry
+  (db) => {
+    db.createObjectStore(STORES.analysisJobs, { keyPath: 'entryId' });
+  },
+  // v5: cached report digests
+  (db) => {
+    db.createObjectStore(STORES.digests, { keyPath: 'id' });
+  },
+  // v6: "Ask my journal" conversations, listed by last activity
+  (db) => {
+    const conversations = db.createObjectStore(STORES.conversations, { keyPath: 'id' });
+    conversations.createIndex('updatedAt', 'updatedAt');
+  },
+];
+
+const DB_VERSION = UPGRADES.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        UPGRADES[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so it can proceed
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Database upgrade blocked by another open tab');
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const Database = {
+  async get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDatabase();
+    return requestToPromise<T | undefined>(db.transaction(store).objectStore(store).get(key));
+  },
+
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    const db = await openDatabase();
+    return requestToPromise<T[]>(db.transaction(store).objectStore(store).getAll());
+  },
+
+  async getAllFromIndex<T>(store: StoreName, index: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    const db = await openDatabase();
+    return requestToPromise<T[]>(db.transaction(store).objectStore(store).index(index).getAll(query));
+  },
+
+  async getAllKeysFromIndex(store: StoreName, index: string, query?: IDBValidKey | IDBKeyRange): Promise<IDBValidKey[]> {
+    const db = await openDatabase();
+    return requestToPromise<IDBValidKey[]>(db.transaction(store).objectStore(store).index(index).getAllKeys(query));
+  },
+
+  async count(store: StoreName): Promise<number> {
+    const db = await openDatabase();
+    return requestToPromise<number>(db.transaction(store).objectStore(store).count());
+  },
+
+  async put<T>(store: StoreName, value: T, key?: IDBValidKey): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(value, key);
+    return transactionDone(tx);
+  },
+
+  // Writes all values in a single transaction: either every record lands or none do
+  async putMany<T>(store: StoreName, values: T[]): Promise<void> {
+    if (!values.length) return;
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    values.forEach(value => objectStore.put(value));
+    return transactionDone(tx);
+  },
+
+  async delete(store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(key);
+    return transactionDone(tx);
+  },
+
+  async deleteMany(store: StoreName, keys: IDBValidKey[]): Promise<void> {
+    if (!keys.length) return;
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    keys.forEach(key => objectStore.delete(key));
+    return transactionDone(tx);
+  },
+
+  // Runs synchronous writes against several stores in one atomic transaction.
+  // `work` must not await anything, or the transaction commits early.
+  async transaction(stores: StoreName[], work: (tx: IDBTransaction) => void): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(stores, 'readwrite');
+    work(tx);
+    return transactionDone(tx);
+  },
+
+  async clear(store: StoreName): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).clear();
+    return transactionDone(tx);
+  },
+};
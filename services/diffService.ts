@@ -0,0 +1,119 @@
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  value: string;
+}
+
+// Above this many LCS cells a changed block is shown as a plain replacement
+// instead of being refined, to keep the table within a few MB.
+const MAX_LCS_CELLS = 2_000_000;
+
+// Longest-common-subsequence diff of two token lists. Common prefix and
+// suffix are trimmed first since edits are usually local.
+const diffTokens = (a: string[], b: string[]): DiffPart[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffOp, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+      last.value += value;
+    } else if (value) {
+      parts.push({ op, value });
+    }
+  };
+
+  push('equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    push('delete', midA.join(''));
+    push('insert', midB.join(''));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        push('equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        push('delete', midA[i++]);
+      } else {
+        push('insert', midB[j++]);
+      }
+    }
+    while (i < n) push('delete', midA[i++]);
+    while (j < m) push('insert', midB[j++]);
+  }
+
+  push('equal', a.slice(endA).join(''));
+  return parts;
+};
+
+// Splits text into lines, keeping the trailing newline on each line
+const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+/g) || [];
+
+export const DiffService = {
+  diffLines(before: string, after: string): DiffPart[] {
+    return diffTokens(splitLines(before), splitLines(after));
+  },
+
+  // Character diff, computed by refining each changed block of the line diff
+  // so that long entries stay cheap to compare.
+  diffChars(before: string, after: string): DiffPart[] {
+    const lineParts = this.diffLines(before, after);
+    const result: DiffPart[] = [];
+    const append = (part: DiffPart) => {
+      const last = result[result.length - 1];
+      if (last && last.op === part.op) {
+        last.value += part.value;
+      } else {
+        result.push({ ...part });
+      }
+    };
+
+    for (let k = 0; k < lineParts.length; k++) {
+      const part = lineParts[k];
+      const next = lineParts[k + 1];
+      if (part.op === 'delete' && next?.op === 'insert') {
+        diffTokens(Array.from(part.value), Array.from(next.value)).forEach(append);
+        k++;
+      } else {
+        append(part);
+      }
+    }
+    return result;
+  },
+
+  summarize(parts: DiffPart[]): { added: number; removed: number } {
+    return parts.reduce((acc, part) => {
+      if (part.op === 'insert') acc.added += part.value.length;
+      if (part.op === 'delete') acc.removed += part.value.length;
+      return acc;
+    }, { added: 0, removed: 0 });
+  }
+};
@@ -0,0 +1,98 @@
+import { Entry } from "../../types";
+import { ImportFile } from "./types";
+import { HEADING } from "../markdownService";
+
+// 2024-01-15, 2024/1/15, 2024.01.15 or 2024年1月15日, optionally followed
+// by a time such as 08:30 or 08:30:15
+const DATE = '(\\d{4})\\s*[-/.年]\\s*(\\d{1,2})\\s*[-/.月]\\s*(\\d{1,2})\\s*日?(?:(?:T|\\s+)(\\d{1,2})[:：](\\d{2})(?:[:：](\\d{2}))?)?';
+// 20240115 in file names
+const COMPACT_DATE = '(?<!\\d)(\\d{4})(\\d{2})(\\d{2})(?!\\d)';
+// A full ISO timestamp with its offset, as written by most apps
+const ISO_WITH_ZONE = /^\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})$/;
+
+export interface DateMatch {
+  date: Date;
+  index: number;
+  end: number; // Just past the matched text
+}
+
+// Dates without a time are taken as noon, so no time zone moves them to
+// another day
+const toDate = ([year, month, day, hours, minutes, seconds]: Array<string | undefined>): Date | null => {
+  const date = new Date(Number(year), Number(month) - 1, Number(day),
+    hours ? Number(hours) : 12, Number(minutes || 0), Number(seconds || 0));
+  const valid = date.getFullYear() === Number(year) && date.getMonth() === Number(month) - 1 && date.getDate() === Number(day);
+  return valid && (!hours || Number(hours) < 24) ? date : null;
+};
+
+// The first date written in `text`, in local time
+export const findDate = (text: string, { compact = false, anchored = false } = {}): DateMatch | null => {
+  const patterns = compact ? [DATE, COMPACT_DATE] : [DATE];
+  for (const pattern of patterns) {
+    const match = new RegExp(anchored ? `^${pattern}` : pattern).exec(text);
+    const date = match && toDate(match.slice(1));
+    if (match && date) return { date, index: match.index, end: match.index + match[0].length };
+  }
+  return null;
+};
+
+// A date value from front-matter or a JSON field
+export const parseDate = (value: string): Date | null => {
+  const text = value.trim();
+  if (ISO_WITH_ZONE.test(text)) {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return findDate(text, { anchored: true })?.date ?? null;
+};
+
+export const fileName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+export const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Ids derived from where an entry came from, so importing the same export
+// twice finds the entries already there instead of duplicating them
+export const stableId = (prefix: string, source: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${prefix}-${(hash >>> 0).toString(36)}-${source.length.toString(36)}`;
+};
+
+// A leading "# Heading" is taken as the title and removed from the text
+export const splitTitle = (text: string): { title: string; content: string } => {
+  const [first, ...rest] = text.trim().split('\n');
+  const heading = HEADING.exec(first.trim());
+  if (!heading || !heading[2]) return { title: '', content: text.trim() };
+  return { title: heading[2], content: rest.join('\n').trim() };
+};
+
+export const buildEntry = (id: string, fields: { title: string; content: string; date: Date; tags?: string[]; updatedAt?: Date }): Entry => ({
+  id,
+  title: fields.title,
+  content: fields.content,
+  date: fields.date.toISOString(),
+  updatedAt: (fields.updatedAt || fields.date).toISOString(),
+  tags: fields.tags || [],
+});
+
+// When a file gives no date of its own: one in its name, or else the time
+// it was last changed
+export const dateFromFile = (file: ImportFile): { date: Date; fromName: boolean } | null => {
+  const named = findDate(fileName(file.path), { compact: true });
+  if (named) return { date: named.date, fromName: true };
+  return file.lastModified ? { date: new Date(file.lastModified), fromName: false } : null;
+};
+
+export const hasExtension = (file: { path: string }, extensions: string[]) =>
+  extensions.some(extension => file.path.toLowerCase().endsWith(extension));
+
+export const parseJson = (file: ImportFile): unknown => {
+  try {
+    return JSON.parse(file.text);
+  } catch {
+    return undefined;
+  }
+};
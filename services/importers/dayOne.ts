@@ -0,0 +1,69 @@
+import { Importer, ImportWarning } from "./types";
+import { buildEntry, hasExtension, parseDate, parseJson, splitTitle, stableId } from "./common";
+import { Entry } from "../../types";
+
+interface DayOneEntry {
+  uuid?: string;
+  creationDate?: string;
+  modifiedDate?: string;
+  text?: string;
+  tags?: string[];
+}
+
+// Photos, audio and other attachments, which only exist in Day One
+const MOMENT = /!\[[^\]]*\]\(dayone-moment:[^)]*\)[ \t]*\n?/g;
+// Day One escapes Markdown punctuation even where it means nothing
+const ESCAPED = /\\([\\`*_{}[\]()#+\-.!>|~])/g;
+
+const dayOneEntries = (data: unknown): DayOneEntry[] | null => {
+  const entries = (data as { entries?: unknown } | undefined)?.entries;
+  if (!Array.isArray(entries)) return null;
+  return entries.every(e => e && typeof e === 'object' && 'creationDate' in e) ? entries : null;
+};
+
+// Day One's JSON export: one file per journal, on its own or in the
+// export's zip. The first line, when a heading, becomes the title.
+export const dayOneImporter: Importer = {
+  id: 'dayone',
+  name: 'import.format.dayone',
+  description: 'import.format.dayoneHint',
+
+  detect(files) {
+    return files.some(file => hasExtension(file, ['.json']) && dayOneEntries(parseJson(file)) !== null);
+  },
+
+  async parse(files) {
+    const entries: Entry[] = [];
+    const warnings: ImportWarning[] = [];
+
+    files.filter(file => hasExtension(file, ['.json'])).forEach(file => {
+      const items = dayOneEntries(parseJson(file));
+      if (!items) {
+        warnings.push({ path: file.path, message: 'import.warning.unrecognized' });
+        return;
+      }
+      let droppedAttachments = false;
+      items.forEach((item, i) => {
+        const date = item.creationDate ? parseDate(item.creationDate) : null;
+        const raw = item.text || '';
+        if (!date || !raw.trim()) {
+          warnings.push({ path: `${file.path} #${i + 1}`, message: date ? 'import.warning.empty' : 'import.warning.noDate' });
+          return;
+        }
+        const text = raw.replace(MOMENT, '').replace(ESCAPED, '$1');
+        if (raw.match(MOMENT)) droppedAttachments = true;
+        const { title, content } = splitTitle(text);
+        entries.push(buildEntry(stableId('dayone', item.uuid || `${file.path}#${i}`), {
+          title,
+          content,
+          date,
+          tags: item.tags?.filter(tag => typeof tag === 'string') ?? [],
+          updatedAt: (item.modifiedDate && parseDate(item.modifiedDate)) || undefined,
+        }));
+      });
+      if (droppedAttachments) warnings.push({ path: file.path, message: 'import.warning.attachments' });
+    });
+
+    return { entries, warnings };
+  },
+};
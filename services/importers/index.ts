@@ -0,0 +1,54 @@
+import { Importer, ImporterId, ImportFile } from "./types";
+import { hasExtension } from "./common";
+import { readZip } from "./zip";
+import { luminaImporter } from "./lumina";
+import { dayOneImporter } from "./dayOne";
+import { markdownImporter } from "./markdown";
+import { plainTextImporter } from "./plainText";
+
+export * from "./types";
+
+// Every format the import dialog offers. Detection tries them in this
+// order, so Day One goes before Lumina's looser { entries } check.
+export const IMPORTERS: Importer[] = [
+  dayOneImporter,
+  luminaImporter,
+  markdownImporter,
+  plainTextImporter,
+];
+
+export const getImporter = (id: ImporterId): Importer => {
+  const importer = IMPORTERS.find(i => i.id === id);
+  if (!importer) throw new Error(`Unknown importer: ${id}`);
+  return importer;
+};
+
+export const detectImporter = (files: ImportFile[]): Importer | null =>
+  IMPORTERS.find(importer => importer.detect(files)) ?? null;
+
+// Files any importer reads; photos and the like in an export are left out
+const TEXT_EXTENSIONS = ['.json', '.md', '.markdown', '.txt'];
+
+// Dot-folders such as .obsidian, and the resource forks macOS adds to
+// zips, hold settings rather than writing
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+const decoder = new TextDecoder();
+
+// The text files among those picked, with zips opened. Files from a picked
+// folder keep their path inside it.
+export const readImportFiles = async (files: File[]): Promise<ImportFile[]> => {
+  const read: ImportFile[] = [];
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+    if (path.toLowerCase().endsWith('.zip')) {
+      for (const entry of readZip(await file.arrayBuffer())) {
+        if (isHidden(entry.path) || !hasExtension(entry, TEXT_EXTENSIONS)) continue;
+        read.push({ path: `${file.name}/${entry.path}`, lastModified: entry.lastModified, text: decoder.decode(await entry.read()) });
+      }
+    } else if (!isHidden(path) && hasExtension({ path }, TEXT_EXTENSIONS)) {
+      read.push({ path, lastModified: file.lastModified, text: await file.text() });
+    }
+  }
+  return read.sort((a, b) => a.path.localeCompare(b.path));
+};
@@ -0,0 +1,35 @@
+import { Importer, ImportWarning } from "./types";
+import { hasExtension, parseJson } from "./common";
+import { StorageService } from "../storageService";
+import { t } from "../../i18n";
+
+type Backup = Parameters<typeof StorageService.readBackupEntries>[0];
+
+// Older backups are a bare array of entries
+const isBackup = (data: unknown): data is Backup =>
+  Array.isArray(data) || (!!data && typeof data === 'object' && Array.isArray((data as Backup).entries));
+
+// Lumina's own backup, possibly encrypted with the passphrase it was
+// exported under
+export const luminaImporter: Importer = {
+  id: 'lumina',
+  name: 'import.format.lumina',
+  description: 'import.format.luminaHint',
+
+  detect(files) {
+    return files.some(file => hasExtension(file, ['.json']) && isBackup(parseJson(file)));
+  },
+
+  async parse(files, { askPassphrase }) {
+    const file = files.find(f => hasExtension(f, ['.json']));
+    const data = file && parseJson(file);
+    if (!file || data === undefined) throw new Error(t('sidebar.jsonParseFailed'));
+    if (!isBackup(data)) throw new Error(t('storage.noEntriesInBackup'));
+
+    const passphrase = data.encryption ? askPassphrase() : undefined;
+    if (passphrase === null) return { entries: [], warnings: [] };
+    const entries = await StorageService.readBackupEntries(data, passphrase);
+    const warnings: ImportWarning[] = files.length > 1 ? [{ path: file.path, message: 'import.warning.firstBackupOnly' }] : [];
+    return { entries, warnings };
+  },
+};
@@ -0,0 +1,115 @@
+import { Importer, ImportFile, ImportWarning } from "./types";
+import { buildEntry, dateFromFile, fileName, findDate, hasExtension, parseDate, splitTitle, stableId, stripExtension } from "./common";
+import { TagService } from "../tagService";
+import { Entry } from "../../types";
+
+type FrontMatter = Record<string, string | string[]>;
+
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+// The flat `key: value` part of YAML that notes use, with lists written
+// either as [a, b] or as "- item" lines. Nested values are ignored.
+const parseFrontMatter = (text: string): { data: FrontMatter; body: string } => {
+  const match = FRONT_MATTER.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = /^\s+-\s+(.*)$/.exec(line) || /^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      return;
+    }
+    const field = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+    if (!field) return;
+    const key = field[1].toLowerCase();
+    const value = field[2].trim();
+    listKey = null;
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      data[key] = unquote(value);
+    }
+  });
+  return { data, body: text.slice(match[0].length) };
+};
+
+const first = (data: FrontMatter, keys: string[]): string | string[] | undefined =>
+  keys.map(key => data[key]).find(value => value !== undefined && value.length > 0);
+
+const scalar = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+// "a, b", "a b" or a list, with or without leading #
+const parseTags = (value: string | string[] | undefined): string[] => {
+  if (!value) return [];
+  const tags = Array.isArray(value) ? value : value.split(value.includes(',') ? ',' : /\s+/);
+  return tags.reduce(TagService.add, [] as string[]);
+};
+
+// What is left of the file name once its date is taken out, as a title
+const titleFromName = (path: string) => {
+  const name = stripExtension(fileName(path));
+  const date = findDate(name, { compact: true });
+  const rest = date ? name.slice(0, date.index) + name.slice(date.end) : name;
+  return rest.replace(/^[\s\-_.]+|[\s\-_.]+$/g, '');
+};
+
+export const parseMarkdownFile = (file: ImportFile, warnings: ImportWarning[]): Entry | null => {
+  const { data, body } = parseFrontMatter(file.text.replace(/\r\n/g, '\n'));
+  const { title: heading, content } = splitTitle(body);
+  if (!content && !heading) {
+    warnings.push({ path: file.path, message: 'import.warning.empty' });
+    return null;
+  }
+
+  const written = scalar(first(data, ['date', 'created', 'created_at', 'createdat', 'day']));
+  let date = written ? parseDate(written) : null;
+  if (!date) {
+    const fromFile = dateFromFile(file);
+    if (!fromFile) {
+      warnings.push({ path: file.path, message: 'import.warning.noDate' });
+      return null;
+    }
+    if (!fromFile.fromName) warnings.push({ path: file.path, message: 'import.warning.fileDate' });
+    date = fromFile.date;
+  }
+  const updated = scalar(first(data, ['updated', 'modified', 'updated_at', 'updatedat']));
+
+  return buildEntry(stableId('md', file.path), {
+    title: scalar(data.title) || heading || titleFromName(file.path),
+    content,
+    date,
+    tags: parseTags(first(data, ['tags', 'tag', 'keywords'])),
+    updatedAt: (updated && parseDate(updated)) || undefined,
+  });
+};
+
+// A folder or zip of Markdown notes, one entry per file, such as an
+// Obsidian daily-notes folder. Dates come from YAML front-matter, else the
+// file name (2024-01-15.md), else when the file was last changed.
+export const markdownImporter: Importer = {
+  id: 'markdown',
+  name: 'import.format.markdown',
+  description: 'import.format.markdownHint',
+
+  detect(files) {
+    return files.some(file => hasExtension(file, MARKDOWN_EXTENSIONS));
+  },
+
+  async parse(files) {
+    const warnings: ImportWarning[] = [];
+    const entries = files
+      .filter(file => hasExtension(file, MARKDOWN_EXTENSIONS))
+      .map(file => parseMarkdownFile(file, warnings))
+      .filter((entry): entry is Entry => entry !== null);
+    return { entries, warnings };
+  },
+};
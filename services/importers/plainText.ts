@@ -0,0 +1,84 @@
+import { Importer, ImportFile, ImportWarning } from "./types";
+import { buildEntry, findDate, hasExtension, stableId } from "./common";
+import { parseMarkdownFile } from "./markdown";
+import { Entry } from "../../types";
+
+// Weekday names that often follow the date in a header. English ones must
+// be whole words, so titles like "Wedding" or "Sunrise hike" stay intact.
+const WEEKDAY = /^[\s,，(（]*(?:(?:星期|周|週)[一二三四五六日天]|(?:(?:mon|tues|wednes|thurs|fri|satur|sun)day|mon|tue|wed|thu|fri|sat|sun)(?![a-z]))\.?[)）]?/i;
+// Text files are picked up on their own; Markdown ones only when this
+// format is chosen for a journal kept in a single file
+const TEXT_EXTENSIONS = ['.txt', '.md', '.markdown'];
+// Longer than this, the rest of a dated line is writing, not a title
+const MAX_TITLE = 60;
+
+interface Section {
+  date: Date;
+  title: string;
+  lines: string[];
+}
+
+// A line starting with a date, optionally as a Markdown heading, such as
+// "2024-01-15", "## 2024年1月15日 星期一" or "2024/1/15 08:30 - Title"
+const parseHeader = (line: string): Omit<Section, 'lines'> | null => {
+  const text = line.trim().replace(/^#{1,6}\s*/, '');
+  const match = findDate(text, { anchored: true });
+  if (!match) return null;
+  const title = text.slice(match.end).replace(WEEKDAY, '').replace(/^[\s\-–—:：|·,，]+/, '').trim();
+  return title.length > MAX_TITLE ? null : { date: match.date, title };
+};
+
+const parseTextFile = (file: ImportFile, warnings: ImportWarning[]): Entry[] => {
+  const sections: Section[] = [];
+  const preamble: string[] = [];
+  file.text.replace(/\r\n/g, '\n').split('\n').forEach((line, i, lines) => {
+    // Headers start the file or follow an empty line, so a sentence that
+    // happens to begin with a date stays in its entry
+    const header = (i === 0 || !lines[i - 1].trim()) && parseHeader(line);
+    if (header) sections.push({ ...header, lines: [] });
+    else (sections.length ? sections[sections.length - 1].lines : preamble).push(line);
+  });
+
+  // Without date headers the file is one entry, dated like a Markdown note
+  if (!sections.length) {
+    const entry = parseMarkdownFile(file, warnings);
+    return entry ? [entry] : [];
+  }
+  if (preamble.join('').trim()) warnings.push({ path: file.path, message: 'import.warning.beforeFirstDate' });
+
+  // Ids come from each section's own header and text, so adding an entry
+  // elsewhere in the file leaves the others' ids alone; repeats are counted
+  const seen = new Map<string, number>();
+  return sections.flatMap((section, i) => {
+    const content = section.lines.join('\n').trim();
+    if (!content) {
+      warnings.push({ path: `${file.path} #${i + 1}`, message: 'import.warning.empty' });
+      return [];
+    }
+    const source = `${file.path}#${section.date.toISOString()}#${section.title}#${content}`;
+    const repeat = seen.get(source) || 0;
+    seen.set(source, repeat + 1);
+    const id = stableId('text', repeat ? `${source}#${repeat}` : source);
+    return [buildEntry(id, { title: section.title, content, date: section.date })];
+  });
+};
+
+// Plain text written as one long diary, split into entries at lines that
+// start with a date. Exports from diarium and similar apps look like this.
+export const plainTextImporter: Importer = {
+  id: 'text',
+  name: 'import.format.text',
+  description: 'import.format.textHint',
+
+  detect(files) {
+    return files.some(file => hasExtension(file, ['.txt']));
+  },
+
+  async parse(files) {
+    const warnings: ImportWarning[] = [];
+    const entries = files
+      .filter(file => hasExtension(file, TEXT_EXTENSIONS))
+      .flatMap(file => parseTextFile(file, warnings));
+    return { entries, warnings };
+  },
+};
@@ -0,0 +1,36 @@
+import { Entry } from "../../types";
+import { MessageKey } from "../../i18n";
+
+export type ImporterId = 'lumina' | 'dayone' | 'markdown' | 'text';
+
+// A text file picked for import, on its own, from a folder or out of a zip
+export interface ImportFile {
+  path: string; // Including folders, for the file name and messages
+  text: string;
+  lastModified?: number;
+}
+
+// Something about a file the preview should mention: skipped, or guessed at
+export interface ImportWarning {
+  path: string;
+  message: MessageKey;
+}
+
+export interface ImportResult {
+  entries: Entry[];
+  warnings: ImportWarning[];
+}
+
+export interface ImportContext {
+  // Asked for when a Lumina backup is encrypted; null when cancelled
+  askPassphrase(): string | null;
+}
+
+export interface Importer {
+  id: ImporterId;
+  name: MessageKey;
+  description: MessageKey;
+  // Whether the files look like this importer's format
+  detect(files: ImportFile[]): boolean;
+  parse(files: ImportFile[], context: ImportContext): Promise<ImportResult>;
+}
@@ -0,0 +1,86 @@
+import { t } from "../../i18n";
+
+export interface ZipEntry {
+  path: string;
+  lastModified: number;
+  read(): Promise<Uint8Array>;
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Names are UTF-8 in archives from macOS and recent tools; older Windows
+// tools on Chinese systems write GBK
+const decodeName = (bytes: Uint8Array, utf8: boolean): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: !utf8 }).decode(bytes);
+  } catch {
+    return new TextDecoder('gbk').decode(bytes);
+  }
+};
+
+// MS-DOS date and time, in local time
+const dosTime = (date: number, time: number) =>
+  new Date((date >> 9) + 1980, ((date >> 5) & 15) - 1, date & 31, time >> 11, (time >> 5) & 63, (time & 31) * 2).getTime();
+
+const inflate = (data: Uint8Array): Promise<Uint8Array> =>
+  new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')))
+    .arrayBuffer()
+    .then(buffer => new Uint8Array(buffer));
+
+// The files in a zip archive, read from its central directory. Files are
+// only decompressed when read. Stored and deflated files are supported,
+// which is what exports and operating systems write; encrypted and ZIP64
+// (over 4 GB) archives are not.
+export const readZip = (buffer: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(buffer);
+
+  // The directory's end record is the last thing in the file, before a
+  // comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error(t('import.zipInvalid'));
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error(t('import.zipUnsupported'));
+
+  const entries: ZipEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== DIRECTORY_HEADER) throw new Error(t('import.zipInvalid'));
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const lastModified = dosTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true));
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const path = decodeName(new Uint8Array(buffer, offset + 46, nameLength), (flags & 0x800) !== 0);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    entries.push({
+      path,
+      lastModified,
+      async read() {
+        if (flags & 1 || (method !== STORED && method !== DEFLATED)) throw new Error(t('import.zipUnsupported'));
+        if (view.getUint32(headerOffset, true) !== LOCAL_HEADER) throw new Error(t('import.zipInvalid'));
+        // The local header repeats the name but may have its own extra field
+        const start = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+        const data = new Uint8Array(buffer, start, size);
+        return method === STORED ? data : inflate(data);
+      },
+    });
+  }
+  return entries;
+};
@@ -0,0 +1,19 @@
+import { AppSettings } from "../types";
+
+export type TextLanguage = AppSettings['language'];
+
+const HAN_PATTERN = /\p{Script=Han}/gu;
+const LATIN_WORD_PATTERN = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+// Code, links and URLs say little about the language the text is written in
+const NOISE_PATTERN = /```[\s\S]*?```|`[^`\n]*`|\]\([^)]*\)|https?:\/\/\S+/g;
+
+// Guesses whether a text is Chinese or English. One Han character carries
+// about as much as one English word, so the two counts are compared
+// directly. Returns null when there is nothing to go on.
+export const detectTextLanguage = (text: string): TextLanguage | null => {
+  const prose = text.replace(NOISE_PATTERN, ' ');
+  const han = prose.match(HAN_PATTERN)?.length ?? 0;
+  const latinWords = prose.match(LATIN_WORD_PATTERN)?.length ?? 0;
+  if (!han && !latinWords) return null;
+  return han >= latinWords ? 'zh' : 'en';
+};
@@ -0,0 +1,430 @@
+// Small Markdown parser used for entries and AI reports. It produces a plain
+// AST that components render as React elements, so no HTML string from an
+// entry or a model is ever injected into the page.
+
+export type MarkdownInline =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'del'; children: MarkdownInline[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  checked?: boolean; // Present for task items ("- [ ]" / "- [x]")
+  line: number;      // Source line, used to toggle task items
+  sublists?: MarkdownList[]; // Nested lists, one per change of marker type
+}
+
+export interface MarkdownList {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: MarkdownListItem[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[]; text: string; line: number }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'hr' }
+  | MarkdownList;
+
+export const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^\s*(```|~~~)\s*([\w-]*)\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+
+// Paths on this site only: "//host" and "/\host" would lead to another one
+const SAFE_URL = /^(https?:|mailto:|#|\/(?![\/\\]))/i;
+
+// Inline parsing --------------------------------------------------------------
+
+const INLINE_RULES: Array<{ pattern: RegExp; build: (m: RegExpExecArray) => MarkdownInline | null }> = [
+  { pattern: /`([^`]+)`/, build: m => ({ type: 'code', value: m[1] }) },
+  { pattern: /\*\*(.+?)\*\*|__(.+?)__/, build: m => ({ type: 'strong', children: parseInline(m[1] ?? m[2]) }) },
+  { pattern: /~~(.+?)~~/, build: m => ({ type: 'del', children: parseInline(m[1]) }) },
+  { pattern: /\*([^*\s][^*]*?)\*|(?<![\w])_([^_\s][^_]*?)_(?![\w])/, build: m => ({ type: 'em', children: parseInline(m[1] ?? m[2]) }) },
+  {
+    pattern: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: m => SAFE_URL.test(m[2]) ? { type: 'link', href: m[2], children: parseInline(m[1]) } : null,
+  },
+];
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    // Pick the rule whose match starts earliest
+    let best: { index: number; length: number; node: MarkdownInline } | null = null;
+    for (const rule of INLINE_RULES) {
+      const match = rule.pattern.exec(rest);
+      if (!match || (best && match.index >= best.index)) continue;
+      const node = rule.build(match);
+      if (node) best = { index: match.index, length: match[0].length, node };
+    }
+
+    if (!best) {
+      nodes.push({ type: 'text', value: rest });
+      break;
+    }
+    if (best.index > 0) nodes.push({ type: 'text', value: rest.slice(0, best.index) });
+    nodes.push(best.node);
+    rest = rest.slice(best.index + best.length);
+  }
+
+  return nodes;
+};
+
+// Lines inside a paragraph are kept as hard breaks, which is what people
+// expect from a diary rather than the reflowing of strict Markdown.
+const parseParagraph = (lines: string[]): MarkdownInline[] =>
+  lines.flatMap((line, i) => (i === 0 ? parseInline(line.trim()) : [{ type: 'break' } as MarkdownInline, ...parseInline(line.trim())]));
+
+// Block parsing ---------------------------------------------------------------
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '  ').length;
+
+const parseList = (lines: string[], start: number, offset: number): { list: MarkdownList; next: number } => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = indentOf(lines[start]);
+  const ordered = /\d/.test(first[2]);
+  const list: MarkdownList = { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: [] };
+
+  let i = start;
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match) {
+      // Lazy continuation of the previous item's text
+      const last = list.items[list.items.length - 1];
+      if (last && lines[i].trim() && !HEADING.test(lines[i].trim()) && !QUOTE.test(lines[i]) && !FENCE.test(lines[i])) {
+        last.children.push({ type: 'break' }, ...parseInline(lines[i].trim()));
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    const indent = indentOf(lines[i]);
+    if (indent < baseIndent) break;
+    if (indent > baseIndent) {
+      const last = list.items[list.items.length - 1];
+      if (!last) break;
+      const nested = parseList(lines, i, offset);
+      last.sublists = [...(last.sublists || []), nested.list];
+      i = nested.next;
+      continue;
+    }
+    if (/\d/.test(match[2]) !== ordered) break;
+
+    const task = TASK.exec(match[3]);
+    list.items.push({
+      children: parseInline(task ? task[2] : match[3]),
+      checked: task ? task[1] !== ' ' : undefined,
+      line: offset + i,
+    });
+    i++;
+  }
+
+  return { list, next: i };
+};
+
+const parseBlocks = (lines: string[], offset: number): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // Closing fence
+      blocks.push({ type: 'code', lang: fence[2], value: body.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line.trim());
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+        text: heading[2],
+        line: offset + i,
+      });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const start = i;
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(QUOTE.exec(lines[i++])![1]);
+      blocks.push({ type: 'blockquote', children: parseBlocks(body, offset + start) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { list, next } = parseList(lines, i, offset);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length && lines[i].trim() &&
+      !FENCE.test(lines[i]) && !HEADING.test(lines[i].trim()) && !QUOTE.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i]) && !HR.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', children: parseParagraph(paragraph) });
+  }
+
+  return blocks;
+};
+
+// Editing commands ------------------------------------------------------------
+
+export type MarkdownCommand =
+  | 'heading1' | 'heading2' | 'heading3'
+  | 'bold' | 'italic' | 'strike'
+  | 'bulletList' | 'orderedList' | 'taskList' | 'quote';
+
+export interface TextEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAP_MARKERS: Partial<Record<MarkdownCommand, string>> = {
+  bold: '**',
+  italic: '*',
+  strike: '~~',
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownCommand, string>> = {
+  heading1: '# ',
+  heading2: '## ',
+  heading3: '### ',
+  bulletList: '- ',
+  orderedList: '1. ',
+  taskList: '- [ ] ',
+  quote: '> ',
+};
+
+// Any block marker a line may already carry, replaced when switching types
+const EXISTING_PREFIX = /^(#{1,6}\s+|>\s?|[-*+]\s+\[[ xX]\]\s+|[-*+]\s+|\d{1,9}[.)]\s+)/;
+
+const wrapSelection = (text: string, start: number, end: number, marker: string): TextEdit => {
+  const before = text.slice(0, start);
+  const selected = text.slice(start, end);
+  const after = text.slice(end);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      text: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+  return {
+    text: before + marker + selected + marker + after,
+    selectionStart: start + marker.length,
+    selectionEnd: end + marker.length,
+  };
+};
+
+const toggleLinePrefix = (text: string, start: number, end: number, prefix: string, numbered: boolean): TextEdit => {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end > start && text[end - 1] === '\n' ? end - 1 : end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+
+  const matches = (line: string) =>
+    numbered ? /^\d{1,9}[.)]\s+/.test(line) : line.startsWith(prefix) && (prefix !== '- ' || !/^- \[[ xX]\]/.test(line));
+  const remove = lines.every(line => !line.trim() || matches(line));
+
+  const updated = lines.map((line, i) => {
+    if (!line.trim() && lines.length > 1) return line;
+    const stripped = line.replace(EXISTING_PREFIX, '');
+    if (remove) return stripped;
+    return (numbered ? `${i + 1}. ` : prefix) + stripped;
+  }).join('\n');
+
+  const replaced = text.slice(0, lineStart) + updated + text.slice(lineEnd);
+  return {
+    text: replaced,
+    selectionStart: lines.length === 1 ? lineStart + updated.length : lineStart,
+    selectionEnd: lineStart + updated.length,
+  };
+};
+
+// Plain text ------------------------------------------------------------------
+
+const inlineToText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.value;
+      case 'break':
+        return ' ';
+      default:
+        return inlineToText(node.children);
+    }
+  }).join('');
+
+const blocksToText = (blocks: MarkdownBlock[]): string[] =>
+  blocks.flatMap(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        return [inlineToText(block.children)];
+      case 'blockquote':
+        return blocksToText(block.children);
+      case 'code':
+        return [block.value];
+      case 'list':
+        return block.items.flatMap(item => [
+          (item.checked === undefined ? '' : item.checked ? '☑ ' : '☐ ') + inlineToText(item.children),
+          ...blocksToText(item.sublists || []),
+        ]);
+      default:
+        return [];
+    }
+  });
+
+// HTML ------------------------------------------------------------------------
+
+// Everything from the source is escaped, so exported HTML carries only the
+// markup generated here
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const inlineToHtml = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.value);
+      case 'break':
+        return '<br>';
+      case 'strong':
+        return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case 'em':
+        return `<em>${inlineToHtml(node.children)}</em>`;
+      case 'del':
+        return `<del>${inlineToHtml(node.children)}</del>`;
+      case 'code':
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case 'link':
+        return `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`;
+    }
+  }).join('');
+
+const listToHtml = (list: MarkdownList): string => {
+  const tag = list.ordered ? 'ol' : 'ul';
+  const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+  const items = list.items.map(item => {
+    const box = item.checked === undefined ? '' : item.checked ? '☑ ' : '☐ ';
+    return `<li>${box}${inlineToHtml(item.children)}${(item.sublists || []).map(listToHtml).join('')}</li>`;
+  });
+  return `<${tag}${start}>${items.join('')}</${tag}>`;
+};
+
+const blocksToHtml = (blocks: MarkdownBlock[]): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${inlineToHtml(block.children)}</p>`;
+      case 'blockquote':
+        return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+      case 'code':
+        return `<pre><code>${escapeHtml(block.value)}</code></pre>`;
+      case 'hr':
+        return '<hr>';
+      case 'list':
+        return listToHtml(block);
+    }
+  }).join('\n');
+
+export const MarkdownService = {
+  parse(markdown: string): MarkdownBlock[] {
+    return parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), 0);
+  },
+
+  // Markdown stripped down to readable text, for list snippets and previews
+  toPlainText(markdown: string): string {
+    return blocksToText(this.parse(markdown)).filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+  },
+
+  inlineToText,
+
+  // Markdown as an HTML fragment, for exports that leave the app
+  toHtml(markdown: string): string {
+    return blocksToHtml(this.parse(markdown));
+  },
+
+  applyCommand(text: string, selectionStart: number, selectionEnd: number, command: MarkdownCommand): TextEdit {
+    const marker = WRAP_MARKERS[command];
+    if (marker) return wrapSelection(text, selectionStart, selectionEnd, marker);
+    return toggleLinePrefix(text, selectionStart, selectionEnd, LINE_PREFIXES[command]!, command === 'orderedList');
+  },
+
+  // Enter inside a list item starts the next item; Enter on an empty item
+  // ends the list. Returns null when the caret is not in a list.
+  continueList(text: string, caret: number): TextEdit | null {
+    const lineStart = text.lastIndexOf('\n', caret - 1) + 1;
+    const line = text.slice(lineStart, caret);
+    const match = /^(\s*)([-*+]\s+\[[ xX]\]\s+|[-*+]\s+|(\d{1,9})([.)])\s+|>\s?)(.*)$/.exec(line);
+    if (!match) return null;
+
+    const [, indent, marker, number, delimiter, rest] = match;
+    if (!rest.trim()) {
+      return { text: text.slice(0, lineStart) + text.slice(caret), selectionStart: lineStart, selectionEnd: lineStart };
+    }
+
+    const nextMarker = number
+      ? `${parseInt(number, 10) + 1}${delimiter} `
+      : marker.replace(/\[[xX]\]/, '[ ]');
+    const insertion = `\n${indent}${nextMarker}`;
+    return {
+      text: text.slice(0, caret) + insertion + text.slice(caret),
+      selectionStart: caret + insertion.length,
+      selectionEnd: caret + insertion.length,
+    };
+  },
+
+  // Flips "- [ ]" and "- [x]" on the given source line
+  toggleTask(markdown: string, line: number): string {
+    const lines = markdown.split('\n');
+    if (line < 0 || line >= lines.length) return markdown;
+    lines[line] = lines[line].replace(/^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/, (_, prefix, mark) =>
+      `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+    );
+    return lines.join('\n');
+  },
+};
@@ -0,0 +1,80 @@
+import { FinishReason, GoogleGenAI, Schema, Type } from "@google/genai";
+import { GeminiConfig } from "../../types";
+import { AIProvider, JsonSchema } from "./types";
+import { AIRequestError } from "./request";
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+// Gemini takes its own Schema type with upper-case type names
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+  }),
+});
+
+export const geminiProvider: AIProvider<GeminiConfig> = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'provider.gemini.description',
+  models: ['gemini-2.0-flash', 'gemini-2.0-flash-lite', 'gemini-1.5-pro', 'gemini-3-flash-preview'],
+  fields: [
+    { key: 'apiKey', label: 'provider.field.apiKey', input: 'password', placeholder: 'provider.gemini.apiKeyPlaceholder' },
+    { key: 'model', label: 'provider.field.model', input: 'select' },
+  ],
+  capabilities: () => ({ jsonSchema: true, jsonMode: true, streaming: true }),
+  isConfigured: (config) => !!config.apiKey,
+  createClient(config) {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    return {
+      async complete(request, options = {}) {
+        const stream = await ai.models.generateContentStream({
+          model: config.model,
+          contents: request.prompt,
+          config: {
+            systemInstruction: request.system,
+            ...(request.json && { responseMimeType: "application/json" }),
+            ...(request.json && request.schema && { responseSchema: toGeminiSchema(request.schema) }),
+            abortSignal: options.signal,
+          },
+        });
+
+        let text = '';
+        for await (const chunk of stream) {
+          const blockReason = chunk.promptFeedback?.blockReason;
+          const finishReason = chunk.candidates?.[0]?.finishReason;
+          if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+            throw new AIRequestError('contentFilter', 'Google Gemini', { detail: blockReason || finishReason });
+          }
+          if (!chunk.text) continue;
+          text += chunk.text;
+          options.onChunk?.(text);
+        }
+        return text;
+      },
+    };
+  },
+  async validate(client) {
+    await client.complete({ system: 'You are a test assistant.', prompt: 'Say "OK"' });
+  },
+};
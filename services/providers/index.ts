@@ -0,0 +1,58 @@
+import { AIProviderConfig, AIProviderType, AppSettings } from "../../types";
+import { AIProvider, ProviderClient } from "./types";
+import { DEFAULT_REQUEST_POLICY, withRequestPolicy } from "./request";
+import { deepSeekProvider, openAICompatibleProvider } from "./openAICompatible";
+import { geminiProvider } from "./gemini";
+
+export * from "./types";
+export { AIRequestError } from "./request";
+export type { AIErrorKind } from "./request";
+
+// Every provider the app can talk to, in the order they are offered in settings
+export const PROVIDERS: AIProvider[] = [
+  deepSeekProvider,
+  geminiProvider,
+  openAICompatibleProvider,
+];
+
+export const getProvider = (id: AIProviderType): AIProvider => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown AI provider: ${id}`);
+  return provider;
+};
+
+export interface ProviderChoice {
+  provider: AIProvider;
+  config: AIProviderConfig;
+}
+
+// Providers to try, in priority order: the active one first, then the
+// enabled fallbacks from providerOrder. Providers missing from a stored
+// order (added in a later version) go last. Unconfigured ones are skipped.
+export const getProviderOrder = (settings: AppSettings): AIProviderType[] =>
+  [
+    settings.activeProvider,
+    ...(settings.providerOrder || []),
+    ...PROVIDERS.map(p => p.id),
+  ].filter((id, i, ids) => ids.indexOf(id) === i);
+
+export const getProviderChain = (settings: AppSettings): ProviderChoice[] =>
+  getProviderOrder(settings)
+    .map(id => ({ provider: getProvider(id), config: settings.providers[id] as AIProviderConfig }))
+    .filter(({ provider, config }, i) =>
+      (i === 0 || config.enabled) && provider.isConfigured(config)
+    );
+
+// A client for the provider that goes through the shared request layer
+// (timeouts, retries, rate limiting) using the user's network settings
+export const createRequestClient = (
+  provider: AIProvider,
+  config: AIProviderConfig,
+  settings: AppSettings,
+  overrides: { maxRetries?: number } = {}
+): ProviderClient =>
+  withRequestPolicy(provider.createClient(config), provider.id, provider.name, {
+    ...DEFAULT_REQUEST_POLICY,
+    ...settings.network,
+    ...overrides,
+  });
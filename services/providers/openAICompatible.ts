@@ -0,0 +1,162 @@
+import { DeepSeekConfig, OpenAICompatibleConfig } from "../../types";
+import { AIProvider, CompletionRequest, ProviderClient, StreamOptions } from "./types";
+import { AIRequestError, httpError } from "./request";
+import { t } from "../../i18n";
+
+const DEEPSEEK_BASE_URL = 'https://api.deepseek.com';
+
+interface ChatClientOptions {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  jsonMode: boolean;
+  label: string; // Used in error messages
+}
+
+// Client for the OpenAI chat completions API, used for DeepSeek and for
+// self-hosted servers (Ollama, vLLM, LM Studio)
+const createChatClient = ({ apiKey, model, baseUrl, jsonMode, label }: ChatClientOptions): ProviderClient => ({
+  // Streams the completion over SSE and resolves with the full text; a
+  // plain JSON answer is read whole
+  async complete(request: CompletionRequest, options: StreamOptions = {}): Promise<string> {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers usually run without a key
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: request.system + (request.json ? '\n\nYou must respond with valid JSON only.' : '') },
+          { role: 'user', content: request.prompt }
+        ],
+        stream: true,
+        ...(request.json && jsonMode && { response_format: { type: 'json_object' } })
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) throw await httpError(label, response);
+    // Some servers ignore `stream` and answer with the whole completion
+    if (response.headers.get('content-type')?.includes('application/json')) {
+      const body = await response.text();
+      let completion;
+      try {
+        completion = JSON.parse(body);
+      } catch {
+        throw new AIRequestError('server', label, { detail: `malformed response: ${body.slice(0, 200)}` });
+      }
+      const choice = completion.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new AIRequestError('contentFilter', label);
+      }
+      const text = choice?.message?.content || '';
+      if (text) options.onChunk?.(text);
+      return text;
+    }
+    if (!response.body) throw new AIRequestError('server', label, { detail: 'empty response body' });
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are newline separated; keep the trailing partial line
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') return text;
+
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          throw new AIRequestError('server', label, { detail: `malformed stream event: ${data.slice(0, 200)}` });
+        }
+        const choice = event.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new AIRequestError('contentFilter', label);
+        }
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onChunk?.(text);
+        }
+      }
+    }
+
+    return text;
+  },
+});
+
+const TEST_REQUEST: CompletionRequest = {
+  system: 'You are a test assistant.',
+  prompt: 'Say "OK" if you can hear me.',
+};
+
+export const deepSeekProvider: AIProvider<DeepSeekConfig> = {
+  id: 'deepseek',
+  name: 'DeepSeek',
+  description: 'provider.deepseek.description',
+  models: ['deepseek-chat', 'deepseek-reasoner'],
+  fields: [
+    { key: 'apiKey', label: 'provider.field.apiKey', input: 'password', placeholder: 'provider.deepseek.apiKeyPlaceholder' },
+    { key: 'model', label: 'provider.field.model', input: 'select' },
+  ],
+  capabilities: () => ({ jsonSchema: false, jsonMode: true, streaming: true }),
+  isConfigured: (config) => !!config.apiKey,
+  createClient: (config) => createChatClient({
+    apiKey: config.apiKey,
+    model: config.model,
+    baseUrl: DEEPSEEK_BASE_URL,
+    jsonMode: true,
+    label: 'DeepSeek',
+  }),
+  async validate(client) {
+    await client.complete(TEST_REQUEST);
+  },
+};
+
+export const openAICompatibleProvider: AIProvider<OpenAICompatibleConfig> = {
+  id: 'openai',
+  // Generic name, so it follows the UI language
+  get name() {
+    return t('provider.openai.name');
+  },
+  description: 'provider.openai.description',
+  models: [],
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'provider.openai.baseUrl',
+      input: 'url',
+      placeholder: { literal: 'http://localhost:11434/v1' },
+      hint: 'provider.openai.baseUrlHint',
+    },
+    { key: 'apiKey', label: 'provider.field.apiKey', input: 'password', placeholder: 'provider.openai.apiKeyPlaceholder', optional: true },
+    { key: 'model', label: 'provider.field.model', input: 'text', placeholder: { literal: 'llama3.1, qwen2.5:7b ...' } },
+    { key: 'jsonMode', label: 'provider.openai.jsonMode', input: 'toggle', hint: 'provider.openai.jsonModeHint' },
+  ],
+  capabilities: (config) => ({ jsonSchema: false, jsonMode: config.jsonMode, streaming: true }),
+  isConfigured: (config) => !!(config.baseUrl.trim() && config.model.trim()),
+  createClient: (config) => createChatClient({
+    apiKey: config.apiKey,
+    model: config.model,
+    baseUrl: config.baseUrl,
+    jsonMode: config.jsonMode,
+    label: t('provider.openai.name'),
+  }),
+  async validate(client) {
+    await client.complete(TEST_REQUEST);
+  },
+};
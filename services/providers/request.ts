@@ -0,0 +1,266 @@
+import { AIProviderType, NetworkSettings } from "../../types";
+import { CompletionRequest, ProviderClient, StreamOptions } from "./types";
+import { MessageKey, t } from "../../i18n";
+
+export type AIErrorKind =
+  | 'auth'          // Key missing, wrong or without permission
+  | 'quota'         // Balance or plan exhausted
+  | 'rateLimit'     // Too many requests right now
+  | 'network'       // Server unreachable (offline, wrong address, CORS)
+  | 'timeout'
+  | 'contentFilter' // Blocked by the provider's safety policy
+  | 'server'        // 5xx from the provider
+  | 'badRequest'
+  | 'unknown';
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['rateLimit', 'network', 'timeout', 'server'];
+
+// What the user can do about each kind of failure
+const ERROR_MESSAGES: Record<AIErrorKind, MessageKey> = {
+  auth: 'aiError.auth',
+  quota: 'aiError.quota',
+  rateLimit: 'aiError.rateLimit',
+  network: 'aiError.network',
+  timeout: 'aiError.timeout',
+  contentFilter: 'aiError.contentFilter',
+  server: 'aiError.server',
+  badRequest: 'aiError.badRequest',
+  unknown: 'aiError.unknown',
+};
+
+// A provider failure sorted into a kind the UI can act on; the message is
+// meant for the user, the detail for the console
+export class AIRequestError extends Error {
+  readonly kind: AIErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  readonly detail?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AIErrorKind, provider: string, options: { status?: number; detail?: string; retryAfterMs?: number } = {}) {
+    super(t(ERROR_MESSAGES[kind], { provider }) + (options.detail && kind === 'badRequest' ? t('aiError.detail', { detail: options.detail }) : ''));
+    this.name = 'AIRequestError';
+    this.kind = kind;
+    this.provider = provider;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+const QUOTA_PATTERN = /quota|insufficient|balance|billing|exceeded your current/i;
+const CONTENT_FILTER_PATTERN = /content[ _-]?(filter|risk|policy)|safety|blocked|prohibited/i;
+
+// Sorts an HTTP failure into a kind from its status and message
+export const classifyStatus = (
+  provider: string,
+  status: number,
+  detail: string,
+  retryAfterMs?: number
+): AIRequestError => {
+  let kind: AIErrorKind;
+  if (status === 401 || status === 403) kind = 'auth';
+  else if (status === 402) kind = 'quota';
+  else if (status === 429) kind = QUOTA_PATTERN.test(detail) && !retryAfterMs ? 'quota' : 'rateLimit';
+  else if (status === 408) kind = 'timeout';
+  else if (status >= 500) kind = 'server';
+  else if (CONTENT_FILTER_PATTERN.test(detail)) kind = 'contentFilter';
+  else if (status >= 400) kind = 'badRequest';
+  else kind = 'unknown';
+  return new AIRequestError(kind, provider, { status, detail, retryAfterMs });
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Builds the error for a non-OK fetch response
+export const httpError = async (provider: string, response: Response): Promise<AIRequestError> => {
+  const body = await response.json().catch(() => ({}));
+  const detail = body.error?.message || body.message || response.statusText || 'Unknown error';
+  return classifyStatus(provider, response.status, detail, parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+// Turns anything a client threw into an AIRequestError
+const normalizeError = (provider: string, error: unknown): AIRequestError => {
+  if (error instanceof AIRequestError) return error;
+  const err = error as { name?: string; message?: string; status?: unknown };
+  const message = err?.message || String(error);
+  if (typeof err?.status === 'number') {
+    // SDK errors (e.g. Gemini's ApiError) carry the status but no headers;
+    // Google puts the suggested delay in the body as "retryDelay": "30s"
+    const delay = /"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message);
+    return classifyStatus(provider, err.status, message, delay ? parseFloat(delay[1]) * 1000 : undefined);
+  }
+  if (err?.name === 'TypeError' || /fetch|network/i.test(message)) {
+    return new AIRequestError('network', provider, { detail: message });
+  }
+  return new AIRequestError('unknown', provider, { detail: message });
+};
+
+export interface RequestPolicy extends NetworkSettings {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxConcurrent: number; // Requests in flight per provider
+  minIntervalMs: number; // Spacing between request starts per provider
+}
+
+export const DEFAULT_REQUEST_POLICY: Omit<RequestPolicy, keyof NetworkSettings> = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  maxConcurrent: 2,
+  minIntervalMs: 500,
+};
+
+const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Caps concurrent requests and spaces out their starts. Waiters are served
+// in order; a waiter whose signal aborts leaves the queue.
+class RequestLimiter {
+  private active = 0;
+  private lastStart = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private maxConcurrent: number, private minIntervalMs: number) {}
+
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (this.active < this.maxConcurrent && !this.queue.length) {
+      this.active++;
+    } else {
+      // Woken by release(), which hands its slot straight over
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.queue = this.queue.filter(waiter => waiter !== start);
+          reject(abortError());
+        };
+        const start = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        if (signal?.aborted) return reject(abortError());
+        signal?.addEventListener('abort', onAbort, { once: true });
+        this.queue.push(start);
+      });
+    }
+
+    const wait = this.lastStart + this.minIntervalMs - Date.now();
+    this.lastStart = Math.max(Date.now(), this.lastStart + this.minIntervalMs);
+    if (wait > 0) {
+      try {
+        await sleep(wait, signal);
+      } catch (e) {
+        this.release();
+        throw e;
+      }
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.release();
+    };
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+const limiters = new Map<AIProviderType, RequestLimiter>();
+
+const getLimiter = (id: AIProviderType, policy: RequestPolicy) => {
+  let limiter = limiters.get(id);
+  if (!limiter) {
+    limiter = new RequestLimiter(policy.maxConcurrent, policy.minIntervalMs);
+    limiters.set(id, limiter);
+  }
+  return limiter;
+};
+
+// Wraps a provider client with the shared request handling: per-provider
+// throttling, an idle timeout (reset by every streamed chunk, so long
+// reports are not cut off), and exponential backoff on retryable failures,
+// honouring the server's Retry-After when it sends one.
+export const withRequestPolicy = (
+  client: ProviderClient,
+  id: AIProviderType,
+  name: string,
+  policy: RequestPolicy
+): ProviderClient => ({
+  async complete(request: CompletionRequest, options: StreamOptions = {}): Promise<string> {
+    const { signal } = options;
+    const limiter = getLimiter(id, policy);
+
+    for (let attempt = 0; ; attempt++) {
+      const release = await limiter.acquire(signal);
+      const controller = new AbortController();
+      let timedOut = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const touch = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, policy.timeoutMs);
+      };
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let retryDelay = 0;
+      try {
+        touch();
+        return await client.complete(request, {
+          signal: controller.signal,
+          onChunk: (text) => {
+            touch();
+            options.onChunk?.(text);
+          },
+        });
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const error = timedOut ? new AIRequestError('timeout', name) : normalizeError(name, e);
+        if (!error.retryable || attempt >= policy.maxRetries) throw error;
+
+        const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+        // A server's Retry-After is followed, but never past the longest wait
+        retryDelay = error.retryAfterMs !== undefined
+          ? Math.min(policy.maxDelayMs, error.retryAfterMs)
+          : backoff + Math.random() * policy.baseDelayMs;
+        console.warn(`${name} request failed (${error.kind}), retrying in ${Math.round(retryDelay)}ms`, error.detail);
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        release();
+      }
+
+      // Wait outside the limiter so other requests can use the slot
+      await sleep(retryDelay, signal);
+    }
+  },
+});
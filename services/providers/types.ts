@@ -0,0 +1,63 @@
+import { AIProviderConfig, AIProviderType } from "../../types";
+import { MessageKey } from "../../i18n";
+
+// Options shared by every AI call: an abort signal to cancel the request
+// and a callback receiving the text as it streams in.
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onChunk?: (accumulated: string) => void;
+}
+
+// A JSON Schema subset describing structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  // Ask for a JSON response; providers with schema support also get the shape
+  json?: boolean;
+  schema?: JsonSchema;
+}
+
+export interface ProviderCapabilities {
+  jsonSchema: boolean; // Enforces a response schema
+  jsonMode: boolean; // Guarantees syntactically valid JSON
+  streaming: boolean;
+}
+
+// A settings input rendered for the provider in SettingsPanel. Texts are
+// message keys, or literal strings where there is nothing to translate.
+export interface ProviderField {
+  key: 'apiKey' | 'baseUrl' | 'model' | 'jsonMode';
+  label: MessageKey;
+  input: 'password' | 'url' | 'text' | 'select' | 'toggle';
+  placeholder?: MessageKey | { literal: string };
+  hint?: MessageKey;
+  optional?: boolean;
+}
+
+export interface ProviderClient {
+  complete(request: CompletionRequest, options?: StreamOptions): Promise<string>;
+}
+
+export interface AIProvider<C extends AIProviderConfig = AIProviderConfig> {
+  id: AIProviderType;
+  name: string;
+  description: MessageKey;
+  // Models offered in a select; empty when the model is typed in
+  models: string[];
+  fields: ProviderField[];
+  capabilities(config: C): ProviderCapabilities;
+  // Whether the config has what it needs to make a request
+  isConfigured(config: C): boolean;
+  createClient(config: C): ProviderClient;
+  // Makes a small test request through the given client; throws on failure
+  validate(client: ProviderClient, config: C): Promise<void>;
+}
@@ -0,0 +1,101 @@
+import { Entry } from "../types";
+import { I18n, t } from "../i18n";
+import { escapeHtml } from "./markdownService";
+
+// Same colors as the dashboard charts
+const SENTIMENT_COLORS: Record<NonNullable<Entry['sentiment']>, string> = {
+  positive: '#22c55e',
+  neutral: '#eab308',
+  negative: '#ef4444',
+};
+const LINE_COLOR = '#6366f1';
+const GRID_COLOR = '#e2e8f0';
+const LABEL_COLOR = '#64748b';
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 24, bottom: 32, left: 40 };
+
+export interface ChartImage {
+  title: string;
+  svg: string;
+}
+
+const svgDocument = (body: string, height = HEIGHT) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}" font-family="system-ui, sans-serif" font-size="11">` +
+  `<rect width="${WIDTH}" height="${height}" fill="#ffffff"/>${body}</svg>`;
+
+const label = (x: number, y: number, text: string, anchor: 'start' | 'middle' | 'end' = 'middle') =>
+  `<text x="${x}" y="${y}" text-anchor="${anchor}" fill="${LABEL_COLOR}">${escapeHtml(text)}</text>`;
+
+// Sentiment score of each analyzed entry in date order, on a 0–100 scale
+const moodTrend = (entries: Entry[]): string | null => {
+  const scored = entries
+    .filter(e => e.sentimentScore !== undefined)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  if (scored.length < 2) return null;
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (i / (scored.length - 1)) * plotWidth;
+  const y = (score: number) => PAD.top + ((100 - score) / 100) * plotHeight;
+
+  const grid = [0, 50, 100].map(score =>
+    `<line x1="${PAD.left}" x2="${WIDTH - PAD.right}" y1="${y(score)}" y2="${y(score)}" stroke="${GRID_COLOR}" stroke-dasharray="3 3"/>` +
+    label(PAD.left - 6, y(score) + 4, String(score), 'end'));
+  const points = scored.map((e, i) => `${x(i).toFixed(1)},${y(e.sentimentScore!).toFixed(1)}`);
+  const dots = scored.length <= 60
+    ? scored.map((e, i) => `<circle cx="${x(i).toFixed(1)}" cy="${y(e.sentimentScore!).toFixed(1)}" r="3" fill="${LINE_COLOR}"/>`)
+    : [];
+  const dates = [0, Math.floor((scored.length - 1) / 2), scored.length - 1]
+    .filter((index, i, all) => all.indexOf(index) === i)
+    .map(index => label(x(index), HEIGHT - 10, I18n.formatDate(scored[index].date, 'date.chartDay')));
+
+  return svgDocument([
+    ...grid,
+    `<polyline points="${points.join(' ')}" fill="none" stroke="${LINE_COLOR}" stroke-width="2"/>`,
+    ...dots,
+    ...dates,
+  ].join(''));
+};
+
+// How many entries were positive, neutral and negative
+const moodDistribution = (entries: Entry[]): string | null => {
+  const sentiments = Object.keys(SENTIMENT_COLORS) as Array<keyof typeof SENTIMENT_COLORS>;
+  const counts = sentiments.map(sentiment => entries.filter(e => e.sentiment === sentiment).length);
+  const most = Math.max(...counts);
+  if (!most) return null;
+
+  const rowHeight = 36;
+  const height = PAD.top * 2 + rowHeight * sentiments.length;
+  const barLeft = PAD.left + 60;
+  const barWidth = WIDTH - barLeft - PAD.right - 40;
+
+  return svgDocument(sentiments.map((sentiment, i) => {
+    const top = PAD.top + i * rowHeight;
+    const width = Math.max(2, (counts[i] / most) * barWidth);
+    return label(barLeft - 10, top + 20, t(`sentiment.${sentiment}`), 'end') +
+      `<rect x="${barLeft}" y="${top + 6}" width="${width.toFixed(1)}" height="20" rx="4" fill="${SENTIMENT_COLORS[sentiment]}"/>` +
+      label(barLeft + width + 8, top + 20, String(counts[i]), 'start');
+  }).join(''), height);
+};
+
+// Static images of a report period's charts, for exports that cannot run
+// the dashboard's interactive ones. Charts without data are left out.
+export const ReportCharts = {
+  build(entries: Entry[]): ChartImage[] {
+    const charts: Array<[string, string | null]> = [
+      [t('export.moodTrend'), moodTrend(entries)],
+      [t('export.moodDistribution'), moodDistribution(entries)],
+    ];
+    return charts.filter((chart): chart is [string, string] => !!chart[1]).map(([title, svg]) => ({ title, svg }));
+  },
+
+  // Base64 keeps the image intact inside Markdown link syntax
+  toDataUri(svg: string): string {
+    const bytes = new TextEncoder().encode(svg);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return `data:image/svg+xml;base64,${btoa(binary)}`;
+  },
+};
@@ -0,0 +1,170 @@
+import { Entry, Report, ReportTemplate } from "../types";
+import { I18n, t } from "../i18n";
+import { MarkdownService, escapeHtml } from "./markdownService";
+import { ReportCharts, ChartImage } from "./reportCharts";
+import { AIProviderService } from "./aiProviderService";
+
+export type ReportExportFormat = 'markdown' | 'html' | 'pdf';
+
+// What an export needs beyond the reports: the entries to chart and the
+// templates to name
+export interface ReportExportContext {
+  entries: Entry[];
+  templates: ReportTemplate[];
+}
+
+interface PreparedReport {
+  report: Report;
+  metadata: Array<[string, string]>;
+  charts: ChartImage[];
+}
+
+const STYLES = `
+  @page { margin: 18mm; }
+  * { box-sizing: border-box; }
+  body { max-width: 760px; margin: 40px auto; padding: 0 24px; font-family: system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #1e293b; line-height: 1.75; }
+  h1 { font-family: Georgia, "Songti SC", serif; font-size: 28px; margin: 0 0 12px; }
+  h2 { font-size: 20px; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e2e8f0; }
+  h3 { font-size: 16px; margin: 20px 0 6px; }
+  .meta { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 0 0 24px; font-size: 13px; color: #475569; }
+  .meta dt { font-weight: 600; }
+  .meta dd { margin: 0; }
+  .charts { display: grid; gap: 16px; margin: 0 0 24px; }
+  figure { margin: 0; padding: 12px; border: 1px solid #e2e8f0; border-radius: 12px; }
+  figcaption { font-size: 13px; font-weight: 600; color: #475569; margin-bottom: 6px; }
+  svg { display: block; max-width: 100%; height: auto; }
+  blockquote { margin: 12px 0; padding-left: 16px; border-left: 4px solid #c7d2fe; color: #475569; font-style: italic; }
+  code { font-family: ui-monospace, Menlo, monospace; font-size: 0.9em; background: #f1f5f9; padding: 1px 4px; border-radius: 4px; }
+  pre { background: #f1f5f9; padding: 12px; border-radius: 8px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+  a { color: #4f46e5; }
+  article + article { margin-top: 64px; padding-top: 40px; border-top: 2px solid #e2e8f0; }
+  footer { margin-top: 48px; font-size: 12px; color: #94a3b8; text-align: center; }
+  @media print {
+    body { max-width: none; margin: 0; padding: 0; }
+    article + article { break-before: page; margin-top: 0; padding-top: 0; border-top: none; }
+    figure, .meta { break-inside: avoid; }
+    h2, h3 { break-after: avoid; }
+    a { color: inherit; text-decoration: none; }
+  }
+`;
+
+const prepare = (reports: Report[], { entries, templates }: ReportExportContext): PreparedReport[] =>
+  reports.map(report => {
+    const start = new Date(report.startDate);
+    const end = new Date(report.endDate);
+    const inPeriod = entries.filter(e => {
+      const date = new Date(e.date);
+      return date >= start && date <= end;
+    });
+    const template = templates.find(tp => tp.id === report.type);
+
+    const metadata: Array<[string, string]> = [
+      [t('export.period'), `${I18n.formatDate(start, 'date.medium')} – ${I18n.formatDate(end, 'date.medium')}`],
+      [t('export.entryCount'), String(report.entryCount)],
+      [t('export.createdAt'), I18n.formatDate(report.createdAt, 'date.fullDateTime')],
+    ];
+    if (template) metadata.splice(1, 0, [t('export.template'), `${template.icon} ${template.name}`]);
+    if (report.generatedBy) metadata.push([t('export.generatedBy'), AIProviderService.describeAttribution(report.generatedBy)]);
+
+    return { report, metadata, charts: ReportCharts.build(inPeriod) };
+  });
+
+const toMarkdown = (prepared: PreparedReport[]): string => prepared
+  .map(({ report, metadata, charts }) => [
+    `# ${report.title}`,
+    metadata.map(([name, value]) => `- **${name}**: ${value}`).join('\n'),
+    ...charts.map(chart => `![${chart.title}](${ReportCharts.toDataUri(chart.svg)})`),
+    report.content.trim(),
+  ].join('\n\n'))
+  .join('\n\n---\n\n') + '\n';
+
+const toHtml = (prepared: PreparedReport[]): string => {
+  const articles = prepared.map(({ report, metadata, charts }) => `<article>
+<header>
+<h1>${escapeHtml(report.title)}</h1>
+<dl class="meta">${metadata.map(([name, value]) => `<dt>${escapeHtml(name)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+</header>
+${charts.length ? `<section class="charts">${charts.map(chart => `<figure><figcaption>${escapeHtml(chart.title)}</figcaption>${chart.svg}</figure>`).join('')}</section>` : ''}
+${MarkdownService.toHtml(report.content)}
+</article>`);
+
+  const title = prepared.length === 1 ? prepared[0].report.title : t('export.collectionTitle', { count: prepared.length });
+  return `<!DOCTYPE html>
+<html lang="${I18n.getLanguage() === 'zh' ? 'zh-CN' : 'en'}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${articles.join('\n')}
+<footer>${escapeHtml(t('export.footer', { date: I18n.formatDate(new Date(), 'date.iso') }))}</footer>
+</body>
+</html>
+`;
+};
+
+// A single report is named after its title, minus characters some systems
+// do not allow in file names
+const fileName = (reports: Report[], extension: string) => {
+  const base = reports.length === 1
+    ? reports[0].title.replace(/[\\/:*?"<>|]+/g, '-').trim()
+    : `lumina_reports_${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${extension}`;
+};
+
+const download = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = name;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Prints from a hidden frame, so the browser's "Save as PDF" gets the
+// print layout rather than the app around it
+const print = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+// Takes reports out of the app as Markdown, a standalone HTML page, or a
+// print layout for saving as PDF, each with its metadata and charts
+export const ReportExportService = {
+  toMarkdown(reports: Report[], context: ReportExportContext): string {
+    return toMarkdown(prepare(reports, context));
+  },
+
+  toHtml(reports: Report[], context: ReportExportContext): string {
+    return toHtml(prepare(reports, context));
+  },
+
+  export(format: ReportExportFormat, reports: Report[], context: ReportExportContext): void {
+    if (!reports.length) return;
+    switch (format) {
+      case 'markdown':
+        download(fileName(reports, 'md'), this.toMarkdown(reports, context), 'text/markdown;charset=utf-8');
+        break;
+      case 'html':
+        download(fileName(reports, 'html'), this.toHtml(reports, context), 'text/html;charset=utf-8');
+        break;
+      case 'pdf':
+        print(this.toHtml(reports, context));
+        break;
+    }
+  },
+};
@@ -0,0 +1,85 @@
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, max as latest, min as earliest } from 'date-fns';
+import { Entry } from "../types";
+
+// Largest prompt a report sends in one request. Well inside every supported
+// model's context window, and it keeps the cost of a single report sane.
+export const REPORT_TOKEN_BUDGET = 24_000;
+// What one digest is expected to add to the final prompt, for planning
+const DIGEST_TOKENS = 600;
+
+export type DigestLevel = 'week' | 'month' | 'year';
+
+// Entries falling in one week, month or year
+export interface EntryGroup {
+  level: DigestLevel;
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+  entries: Entry[];
+}
+
+export interface ReportPlan {
+  tokens: number; // Estimated size of the entries as one prompt
+  level: 'direct' | DigestLevel; // How the report will be built
+  groups: number; // Digests at that level
+}
+
+const DAY_FORMAT = 'yyyy-MM-dd';
+const HAN_PATTERN = /[㐀-鿿豈-﫿]/g;
+
+// Close enough to real tokenizers for budgeting: CJK characters cost about
+// a token each, everything else about a token per four characters
+export const estimateTokens = (text: string): number => {
+  const han = text.match(HAN_PATTERN)?.length ?? 0;
+  return han + Math.ceil((text.length - han) / 4);
+};
+
+export const formatEntries = (entries: Entry[]): string => entries
+  .map(e => `Date: ${e.date.split('T')[0]}\nTitle: ${e.title}\nContent: ${e.content}`)
+  .join('\n---\n');
+
+// Shortens every entry by the same share when they would not fit in
+// `budget` tokens together. Only a single, unusually long week or month
+// gets here; the hierarchy handles everything else.
+export const fitEntries = (entries: Entry[], budget: number): Entry[] => {
+  const tokens = estimateTokens(formatEntries(entries));
+  if (tokens <= budget) return entries;
+  const share = budget / tokens;
+  return entries.map(e => ({ ...e, content: `${e.content.slice(0, Math.floor(e.content.length * share))}…` }));
+};
+
+// Splits entries into chronological weeks (Monday first), months or years.
+// Weeks are cut at month boundaries so monthly digests can be built from them.
+export const groupEntries = (entries: Entry[], level: DigestLevel): EntryGroup[] => {
+  const groups = new Map<string, EntryGroup>();
+  [...entries]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(entry => {
+      const date = new Date(entry.date);
+      const start = level === 'week' ? latest([startOfWeek(date, { weekStartsOn: 1 }), startOfMonth(date)])
+        : level === 'month' ? startOfMonth(date) : startOfYear(date);
+      const end = level === 'week' ? earliest([endOfWeek(date, { weekStartsOn: 1 }), endOfMonth(date)])
+        : level === 'month' ? endOfMonth(date) : endOfYear(date);
+      const startDate = format(start, DAY_FORMAT);
+      const group = groups.get(startDate);
+      if (group) {
+        group.entries.push(entry);
+      } else {
+        groups.set(startDate, { level, startDate, endDate: format(end, DAY_FORMAT), entries: [entry] });
+      }
+    });
+  return [...groups.values()];
+};
+
+// Decides up front whether the entries can go to the model as they are, or
+// have to be condensed into weekly digests, or further into monthly or
+// yearly ones. Yearly digests fit the budget for any diary under 40 years.
+export const planReport = (entries: Entry[]): ReportPlan => {
+  const tokens = estimateTokens(formatEntries(entries));
+  if (tokens <= REPORT_TOKEN_BUDGET) return { tokens, level: 'direct', groups: 1 };
+
+  for (const level of ['week', 'month'] as const) {
+    const groups = groupEntries(entries, level).length;
+    if (groups * DIGEST_TOKENS <= REPORT_TOKEN_BUDGET) return { tokens, level, groups };
+  }
+  return { tokens, level: 'year', groups: groupEntries(entries, 'year').length };
+};
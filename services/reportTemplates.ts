@@ -0,0 +1,168 @@
+import { subDays } from 'date-fns';
+import { AppSettings, BuiltInReportType, DateRange, Entry, ReportTemplate, ReportType } from "../types";
+import { t, MessageKey, Language } from "../i18n";
+
+interface BuiltInTemplate {
+  name: MessageKey;
+  icon: string;
+  period: ReportTemplate['period'];
+  prompt: string;
+  // Given in each output language so the report reads naturally rather than half-translated
+  sections: Record<Language, string[]>;
+}
+
+const DEFAULT_TONE = 'warm, encouraging, but analytical';
+
+const BUILT_IN_TEMPLATES: Record<BuiltInReportType, BuiltInTemplate> = {
+  weekly: {
+    name: 'report.type.weekly',
+    icon: '📅',
+    period: 'week',
+    prompt: `Generate a weekly summary report based on the following diary entries.
+Identify recurring themes, emotional trends, and key events.
+Provide actionable insights and encouragement.`,
+    sections: {
+      zh: ['📊 本周概览', '💭 情绪趋势', '🎯 主要话题', '💡 洞察与建议', '✨ 下周展望'],
+      en: ['📊 Overview', '💭 Emotional Trends', '🎯 Key Topics', '💡 Insights & Suggestions', '✨ Looking Ahead'],
+    },
+  },
+  monthly: {
+    name: 'report.type.monthly',
+    icon: '📆',
+    period: 'month',
+    prompt: `Generate a monthly summary report based on the following diary entries.
+Analyze the overall emotional journey, identify patterns and growth areas.`,
+    sections: {
+      zh: ['📅 本月回顾', '📈 情绪变化曲线', '🏆 本月成就', '🔄 反复出现的主题', '🌱 成长与变化', '💪 下月目标建议'],
+      en: ['📅 Monthly Overview', '📈 Emotional Journey', '🏆 Achievements', '🔄 Recurring Themes', '🌱 Growth & Changes', '💪 Goals for Next Month'],
+    },
+  },
+  yearly: {
+    name: 'report.type.yearly',
+    icon: '📊',
+    period: 'year',
+    prompt: `Generate a comprehensive yearly review based on the following diary entries.
+This is a deep reflection on the entire year's journey.`,
+    sections: {
+      zh: ['🎊 年度总结', '📊 情绪全景图', '⭐ 年度高光时刻', '🎓 学到的人生经验', '🔮 个人成长轨迹', '💫 新年寄语'],
+      en: ['🎊 Year in Review', '📊 Emotional Landscape', '⭐ Highlights of the Year', '🎓 Life Lessons Learned', '🔮 Personal Growth Trajectory', '💫 Message for the New Year'],
+    },
+  },
+  custom: {
+    name: 'report.type.custom',
+    icon: '🗓️',
+    period: 'custom',
+    prompt: `Generate a summary report for the chosen period based on the following diary entries.
+Describe what happened, how the writer's mood developed, and what the period meant to them.`,
+    sections: {
+      zh: ['🗓️ 时段概览', '💭 情绪变化', '🎯 主要事件与话题', '💡 洞察与建议'],
+      en: ['🗓️ Overview', '💭 Emotional Journey', '🎯 Key Events & Topics', '💡 Insights & Suggestions'],
+    },
+  },
+};
+
+// A few made-up entries from the past week for previewing templates
+const SAMPLE_ENTRIES: Record<Language, Array<Pick<Entry, 'title' | 'content' | 'tags'>>> = {
+  zh: [
+    { title: '新项目启动', content: '今天正式接手了新项目，会议很多，有点紧张，但团队氛围很好。晚上跑了五公里，心情放松了不少。', tags: ['工作', '运动'] },
+    { title: '和妈妈通电话', content: '和妈妈聊了一个小时，她最近在学画画，听起来很开心。我答应下个月回家一趟。', tags: ['家人'] },
+    { title: '加班的一天', content: '需求又改了，加班到十点。有点沮丧，不过把最难的模块写完了，明天可以轻松一点。', tags: ['工作'] },
+  ],
+  en: [
+    { title: 'New project kickoff', content: 'Officially took over the new project today. Lots of meetings and a bit nervous, but the team feels great. Ran 5k in the evening and felt much calmer.', tags: ['work', 'exercise'] },
+    { title: 'Call with Mom', content: 'Talked to Mom for an hour. She has started painting lately and sounds really happy. Promised to visit next month.', tags: ['family'] },
+    { title: 'Late night at work', content: 'Requirements changed again and I stayed until ten. Frustrating, but I finished the hardest module, so tomorrow should be easier.', tags: ['work'] },
+  ],
+};
+
+const isBuiltIn = (id: ReportType): id is BuiltInReportType => id in BUILT_IN_TEMPLATES;
+
+// The shipped version of a built-in template, in `language`
+const builtIn = (id: BuiltInReportType, language: Language): ReportTemplate => {
+  const { name, icon, period, prompt, sections } = BUILT_IN_TEMPLATES[id];
+  return { id, name: t(name), icon, period, prompt, sections: sections[language], tone: DEFAULT_TONE };
+};
+
+const newTemplateId = () => `template-${Date.now().toString(36)}`;
+
+const sameTemplate = (a: ReportTemplate, b: ReportTemplate) => JSON.stringify(a) === JSON.stringify(b);
+
+// Report templates: the built-ins, edited copies of them stored in settings
+// under the same id, and templates the user made
+export const ReportTemplates = {
+  isBuiltIn,
+
+  builtIn,
+
+  // Built-ins first, in their edited form where there is one
+  list(settings: AppSettings): ReportTemplate[] {
+    const stored = new Map(settings.reportTemplates.map(template => [template.id, template]));
+    const builtIns = (Object.keys(BUILT_IN_TEMPLATES) as BuiltInReportType[])
+      .map(id => stored.get(id) || builtIn(id, settings.language));
+    return [...builtIns, ...settings.reportTemplates.filter(template => !isBuiltIn(template.id))];
+  },
+
+  find(settings: AppSettings, id: ReportType): ReportTemplate | undefined {
+    return ReportTemplates.list(settings).find(template => template.id === id);
+  },
+
+  // A built-in the user has edited and saved
+  isCustomized(settings: AppSettings, id: ReportType): boolean {
+    return isBuiltIn(id) && settings.reportTemplates.some(template => template.id === id);
+  },
+
+  // An unedited built-in switches to the shipped wording for the output
+  // language; anything the user wrote is used as written
+  localize(template: ReportTemplate, language: Language): ReportTemplate {
+    if (!isBuiltIn(template.id)) return template;
+    const unedited = (Object.keys(BUILT_IN_TEMPLATES[template.id].sections) as Language[])
+      .some(shipped => sameTemplate(template, builtIn(template.id as BuiltInReportType, shipped)));
+    return unedited ? builtIn(template.id, language) : template;
+  },
+
+  // Settings with `template` added, or replacing the stored one with its id.
+  // Blank lines are dropped and a blank tone falls back to the default.
+  // Saving a built-in exactly as shipped drops the stored copy instead.
+  save(settings: AppSettings, edited: ReportTemplate): AppSettings {
+    const template: ReportTemplate = {
+      ...edited,
+      name: edited.name.trim(),
+      sections: edited.sections.map(section => section.trim()).filter(Boolean),
+      tone: edited.tone.trim() || DEFAULT_TONE,
+    };
+    const others = settings.reportTemplates.filter(stored => stored.id !== template.id);
+    if (isBuiltIn(template.id) && sameTemplate(template, builtIn(template.id, settings.language))) {
+      return { ...settings, reportTemplates: others };
+    }
+    const index = settings.reportTemplates.findIndex(stored => stored.id === template.id);
+    const reportTemplates = index < 0
+      ? [...settings.reportTemplates, template]
+      : settings.reportTemplates.map(stored => (stored.id === template.id ? template : stored));
+    return { ...settings, reportTemplates };
+  },
+
+  // Deletes a user template, or resets a built-in to how it shipped
+  remove(settings: AppSettings, id: ReportType): AppSettings {
+    return { ...settings, reportTemplates: settings.reportTemplates.filter(template => template.id !== id) };
+  },
+
+  // An editable copy under a new id
+  duplicate(template: ReportTemplate): ReportTemplate {
+    return { ...template, id: newTemplateId(), name: t('templates.copyOf', { name: template.name }) };
+  },
+
+  // A new template, starting from the custom range one
+  create(language: Language): ReportTemplate {
+    return { ...builtIn('custom', language), id: newTemplateId(), name: t('templates.untitled'), icon: '📝' };
+  },
+
+  // Sample entries spread over the past week, and that week as a range
+  samples(language: Language): { entries: Entry[]; range: DateRange } {
+    const now = new Date();
+    const entries = SAMPLE_ENTRIES[language].map((sample, i) => {
+      const date = subDays(now, 6 - i * 3).toISOString();
+      return { ...sample, id: `sample-${i}`, date, updatedAt: date };
+    });
+    return { entries, range: { start: subDays(now, 6), end: now } };
+  },
+};
@@ -0,0 +1,262 @@
+import { Entry } from "../types";
+import { MarkdownService } from "./markdownService";
+import { ParsedQuery, SearchClause, matchesFilter } from "./searchQuery";
+
+// Han, kana and Hangul are written without spaces between words, so they
+// are indexed as single characters and overlapping pairs (bigrams), which
+// lets any substring be found without a dictionary. Other scripts are
+// indexed by word and matched by prefix.
+const CJK_CHARS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const CJK = new RegExp(`[${CJK_CHARS}]`, 'u');
+const RUN = new RegExp(`[${CJK_CHARS}]+|(?:(?![${CJK_CHARS}])[\\p{L}\\p{N}])+`, 'gu');
+
+// A title word counts for three words of content, a tag for two
+const FIELD_WEIGHTS = { title: 3, tags: 2, content: 1 };
+
+// BM25 ranking constants
+const K1 = 1.2;
+const B = 0.75;
+
+export type HighlightRange = [start: number, end: number];
+
+export interface Snippet {
+  text: string;
+  ranges: HighlightRange[];
+}
+
+export interface SearchResult {
+  entry: Entry;
+  score: number;
+}
+
+interface IndexedDoc {
+  entry: Entry;
+  text: string; // Every field, normalized, for phrase checks
+  terms: Map<string, number>; // Weighted term frequency
+  length: number;
+}
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ');
+
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [run] of normalize(text).matchAll(RUN)) {
+    if (!CJK.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    const chars = [...run];
+    chars.forEach((char, i) => {
+      tokens.push(char);
+      if (i + 1 < chars.length) tokens.push(char + chars[i + 1]);
+    });
+  }
+  return tokens;
+};
+
+const cjkRuns = (text: string) => [...normalize(text).matchAll(RUN)].map(([run]) => run).filter(run => CJK.test(run));
+
+const indexEntry = (entry: Entry): IndexedDoc => {
+  const content = MarkdownService.toPlainText(entry.content);
+  const terms = new Map<string, number>();
+  let length = 0;
+  const add = (text: string, weight: number) => tokenize(text).forEach(term => {
+    terms.set(term, (terms.get(term) || 0) + weight);
+    length += weight;
+  });
+  add(entry.title, FIELD_WEIGHTS.title);
+  add(entry.tags.join(' '), FIELD_WEIGHTS.tags);
+  add(content, FIELD_WEIGHTS.content);
+  return { entry, text: normalize([entry.title, entry.tags.join(' '), content].join('\n')), terms, length };
+};
+
+// Full-text index over the entries, kept up to date with `sync`. Only
+// entries whose object changed are re-indexed.
+export const createSearchIndex = () => {
+  const docs = new Map<string, IndexedDoc>();
+  const postings = new Map<string, Set<string>>();
+  let order: Entry[] = [];
+  let totalLength = 0;
+
+  const remove = (id: string) => {
+    const doc = docs.get(id);
+    if (!doc) return;
+    doc.terms.forEach((_, term) => {
+      const ids = postings.get(term);
+      ids?.delete(id);
+      if (ids && !ids.size) postings.delete(term);
+    });
+    totalLength -= doc.length;
+    docs.delete(id);
+  };
+
+  const add = (entry: Entry) => {
+    const doc = indexEntry(entry);
+    doc.terms.forEach((_, term) => {
+      const ids = postings.get(term);
+      if (ids) ids.add(entry.id); else postings.set(term, new Set([entry.id]));
+    });
+    totalLength += doc.length;
+    docs.set(entry.id, doc);
+  };
+
+  // BM25 weight of an indexed term for one entry
+  const termScore = (term: string, id: string, idCount: number) => {
+    const doc = docs.get(id)!;
+    const tf = doc.terms.get(term)!;
+    const idf = Math.log(1 + (docs.size - idCount + 0.5) / (idCount + 0.5));
+    const averageLength = totalLength / Math.max(1, docs.size);
+    return idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+  };
+
+  // Index terms a query token stands for: itself for CJK, or every
+  // indexed word it begins
+  const expand = (token: string): string[] => {
+    if (CJK.test(token)) return postings.has(token) ? [token] : [];
+    return [...postings.keys()].filter(term => term.startsWith(token) && !CJK.test(term));
+  };
+
+  // Score of every entry containing the text, or null if the text has
+  // nothing searchable in it (only punctuation, say)
+  const matchText = (clause: Extract<SearchClause, { kind: 'text' }>): Map<string, number> | null => {
+    const tokens = [...new Set(tokenize(clause.value))];
+    if (!tokens.length) return null;
+
+    let scores: Map<string, number> | null = null;
+    for (const token of tokens) {
+      // Every token has to be there, so only entries that had the ones before count
+      const previous: Map<string, number> | null = scores;
+      const next = new Map<string, number>();
+      expand(token).forEach(term => {
+        const ids = postings.get(term)!;
+        ids.forEach(id => {
+          if (previous && !previous.has(id)) return;
+          next.set(id, (next.get(id) ?? previous?.get(id) ?? 0) + termScore(term, id, ids.size));
+        });
+      });
+      scores = next;
+    }
+    if (!scores) return null;
+
+    // Tokens may all be present without being next to each other
+    const required = clause.phrase ? [normalize(clause.value).trim()] : cjkRuns(clause.value);
+    if (required.length) {
+      const found = scores;
+      found.forEach((_, id) => {
+        const { text } = docs.get(id)!;
+        if (!required.every(part => text.includes(part))) found.delete(id);
+      });
+    }
+    return scores;
+  };
+
+  return {
+    sync(entries: Entry[]) {
+      const current = new Set(entries.map(e => e.id));
+      [...docs.keys()].filter(id => !current.has(id)).forEach(remove);
+      entries.forEach(entry => {
+        if (docs.get(entry.id)?.entry === entry) return;
+        remove(entry.id);
+        add(entry);
+      });
+      order = entries;
+    },
+
+    // Entries matching every part of the query. With text to match they
+    // are ranked by relevance, newest first among equals; otherwise they
+    // keep the order they were synced in.
+    search({ parts }: ParsedQuery): SearchResult[] {
+      const scores = new Map<string, number>();
+      let ranked = false;
+      const excluded = new Set<string>();
+
+      for (const { clause, negated } of parts) {
+        if (clause.kind !== 'text') continue;
+        const matches = matchText(clause);
+        if (!matches) continue;
+        if (negated) {
+          matches.forEach((_, id) => excluded.add(id));
+        } else if (!ranked) {
+          matches.forEach((score, id) => scores.set(id, score));
+          ranked = true;
+        } else {
+          scores.forEach((score, id) => {
+            if (matches.has(id)) scores.set(id, score + matches.get(id)!);
+            else scores.delete(id);
+          });
+        }
+      }
+
+      const filters = parts.filter((part): part is { clause: Exclude<SearchClause, { kind: 'text' }>; negated: boolean } =>
+        part.clause.kind !== 'text');
+      const results = order
+        .filter(entry => (!ranked || scores.has(entry.id)) && !excluded.has(entry.id))
+        .filter(entry => filters.every(({ clause, negated }) => matchesFilter(entry, clause) !== negated))
+        .map(entry => ({ entry, score: scores.get(entry.id) || 0 }));
+
+      if (ranked) {
+        results.sort((a, b) => b.score - a.score || new Date(b.entry.date).getTime() - new Date(a.entry.date).getTime());
+      }
+      return results;
+    },
+
+    // The entries that best match free text such as a question, where not
+    // every word will appear: each shared term adds to the score, rarer
+    // terms more. Words must match whole.
+    rank(text: string, limit: number): SearchResult[] {
+      const scores = new Map<string, number>();
+      new Set(tokenize(text)).forEach(term => {
+        const ids = postings.get(term);
+        ids?.forEach(id => scores.set(id, (scores.get(id) || 0) + termScore(term, id, ids.size)));
+      });
+      return [...scores]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([id, score]) => ({ entry: docs.get(id)!.entry, score }));
+    },
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+// The words and phrases a query looks for, to highlight in results
+export const highlightTerms = ({ parts }: ParsedQuery): string[] =>
+  parts.flatMap(({ clause, negated }) => (clause.kind === 'text' && !negated ? [clause.value] : []));
+
+// Where the terms occur in `text`, case-insensitively, merged where they overlap
+export const findHighlights = (text: string, terms: string[]): HighlightRange[] => {
+  const lower = text.toLowerCase();
+  // Lowercasing a few rare characters changes the length; positions would be off
+  if (lower.length !== text.length) return [];
+
+  const ranges: HighlightRange[] = [];
+  terms.map(term => term.toLowerCase()).filter(Boolean).forEach(term => {
+    for (let at = lower.indexOf(term); at >= 0; at = lower.indexOf(term, at + term.length)) {
+      ranges.push([at, at + term.length]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<HighlightRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+};
+
+// A short excerpt around the first match, with the matches in it
+export const buildSnippet = (text: string, terms: string[], length = 120): Snippet | null => {
+  const ranges = findHighlights(text, terms);
+  if (!ranges.length) return null;
+
+  const start = Math.max(0, ranges[0][0] - Math.floor(length / 4));
+  const end = Math.min(text.length, start + length);
+  const prefix = start > 0 ? '…' : '';
+  const offset = prefix.length - start;
+  return {
+    text: prefix + text.slice(start, end) + (end < text.length ? '…' : ''),
+    ranges: ranges
+      .filter(([from, to]) => from < end && to > start)
+      .map(([from, to]): HighlightRange => [Math.max(from, start) + offset, Math.min(to, end) + offset]),
+  };
+};
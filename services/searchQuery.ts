@@ -0,0 +1,158 @@
+import { Entry, DateRange } from "../types";
+import { t } from "../i18n";
+
+export type Sentiment = NonNullable<Entry['sentiment']>;
+export type ScoreOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchClause =
+  | { kind: 'text'; value: string; phrase: boolean }
+  | { kind: 'tag'; value: string }
+  | { kind: 'mood'; value: string }
+  | { kind: 'sentiment'; value: Sentiment }
+  | { kind: 'score'; operator: ScoreOperator; value: number }
+  // before: ends before the period starts, after: starts after it ends
+  | { kind: 'date'; relation: 'before' | 'after' | 'within'; range: DateRange };
+
+export interface QueryPart {
+  clause: SearchClause;
+  negated: boolean;
+}
+
+export interface ParsedQuery {
+  parts: QueryPart[];
+  // Operators whose value could not be understood, as typed
+  invalid: string[];
+}
+
+const OPERATORS = ['tag', 'mood', 'sentiment', 'score', 'before', 'after', 'date'] as const;
+type Operator = typeof OPERATORS[number];
+
+const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative'];
+const SENTIMENT_ALIASES: Record<string, Sentiment> = {
+  pos: 'positive', neu: 'neutral', neg: 'negative',
+  积极: 'positive', 正面: 'positive', 中性: 'neutral', 消极: 'negative', 负面: 'negative',
+};
+
+// An optional "-", an optional "operator:", then a quoted phrase or a word.
+// An unclosed quote runs to the end of the input.
+const TOKEN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+// Chinese input methods type a full-width colon
+const FULL_WIDTH_OPERATOR = new RegExp(`\\b(${OPERATORS.join('|')})：`, 'gi');
+
+const parseSentiment = (value: string): Sentiment | null => {
+  const lower = value.toLowerCase();
+  if ((SENTIMENTS as string[]).includes(lower)) return lower as Sentiment;
+  return SENTIMENT_ALIASES[lower] || SENTIMENTS.find(s => t(`sentiment.${s}`).toLowerCase() === lower) || null;
+};
+
+// "<40", ">=70", "=50", "50", or a range "40..60"
+const parseScore = (value: string): Array<{ operator: ScoreOperator; value: number }> | null => {
+  const range = value.match(/^(\d+(?:\.\d+)?)\.\.(\d+(?:\.\d+)?)$/);
+  if (range) return [{ operator: '>=', value: Number(range[1]) }, { operator: '<=', value: Number(range[2]) }];
+  const single = value.match(/^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)$/);
+  if (!single) return null;
+  return [{ operator: (single[1] || '=') as ScoreOperator, value: Number(single[2]) }];
+};
+
+// A year, month or day: "2025", "2025-03", "2025-03-15" ("/" and "." work too)
+const parsePeriod = (value: string): DateRange | null => {
+  const match = value.match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+  if (month === null) return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1, 0, 0, 0, -1) };
+  if (day === null) return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1, 0, 0, 0, -1) };
+  const start = new Date(year, month, day);
+  if (start.getMonth() !== month) return null; // e.g. February 30th
+  return { start, end: new Date(year, month, day + 1, 0, 0, 0, -1) };
+};
+
+const parseOperator = (operator: Operator, value: string): SearchClause[] | null => {
+  switch (operator) {
+    case 'tag':
+    case 'mood':
+      return [{ kind: operator, value }];
+    case 'sentiment': {
+      const sentiment = parseSentiment(value);
+      return sentiment && [{ kind: 'sentiment', value: sentiment }];
+    }
+    case 'score': {
+      const conditions = parseScore(value);
+      return conditions && conditions.map(condition => ({ kind: 'score' as const, ...condition }));
+    }
+    case 'before':
+    case 'after':
+    case 'date': {
+      const range = parsePeriod(value);
+      return range && [{ kind: 'date', relation: operator === 'date' ? 'within' : operator, range }];
+    }
+  }
+};
+
+// Parses a search box query such as
+//   "团队" tag:工作 -mood:😴 sentiment:negative score:<40 after:2025-02 before:2025-04
+// Plain words and "quoted phrases" search the text, "#tag" is short for
+// tag:tag, and a leading "-" negates any part. Unknown operators are
+// searched as plain text, so times like 10:30 still work.
+export const parseSearchQuery = (input: string): ParsedQuery => {
+  const parts: QueryPart[] = [];
+  const invalid: string[] = [];
+
+  for (const match of input.replace(FULL_WIDTH_OPERATOR, '$1:').matchAll(TOKEN)) {
+    const [raw, minus, key, quoted, word] = match;
+    const negated = !!minus;
+    const value = (quoted ?? word).trim();
+    const operator = key?.toLowerCase() as Operator | undefined;
+
+    if (operator && OPERATORS.includes(operator)) {
+      const clauses = value ? parseOperator(operator, value) : null;
+      if (clauses) clauses.forEach(clause => parts.push({ clause, negated }));
+      else invalid.push(raw);
+      continue;
+    }
+
+    const text = key ? `${key}:${value}` : value;
+    if (!text) continue;
+    if (quoted === undefined && text.startsWith('#') && text.length > 1) {
+      parts.push({ clause: { kind: 'tag', value: text.slice(1) }, negated });
+    } else {
+      parts.push({ clause: { kind: 'text', value: text, phrase: quoted !== undefined }, negated });
+    }
+  }
+  return { parts, invalid };
+};
+
+const compareScore = (score: number, operator: ScoreOperator, value: number) => {
+  switch (operator) {
+    case '<': return score < value;
+    case '<=': return score <= value;
+    case '>': return score > value;
+    case '>=': return score >= value;
+    case '=': return score === value;
+  }
+};
+
+// Whether an entry passes a non-text clause, before any negation
+export const matchesFilter = (entry: Entry, clause: Exclude<SearchClause, { kind: 'text' }>): boolean => {
+  switch (clause.kind) {
+    case 'tag': {
+      const tag = clause.value.toLowerCase();
+      return entry.tags.some(other => other.toLowerCase() === tag);
+    }
+    case 'mood':
+      return !!entry.mood && entry.mood.toLowerCase().includes(clause.value.toLowerCase());
+    case 'sentiment':
+      return entry.sentiment === clause.value;
+    case 'score':
+      return entry.sentimentScore !== undefined && compareScore(entry.sentimentScore, clause.operator, clause.value);
+    case 'date': {
+      const date = new Date(entry.date);
+      if (clause.relation === 'before') return date < clause.range.start;
+      if (clause.relation === 'after') return date > clause.range.end;
+      return date >= clause.range.start && date <= clause.range.end;
+    }
+  }
+};
@@ -1,42 +1,387 @@
-import { Entry, AppSettings, Report, DEFAULT_SETTINGS } from "../types";
-import { v4 as uuidv4 } from 'uuid'; // Assuming uuid is available or we use a simple random string
+import { Entry, AppSettings, Report, EntryRevision, EntryDraft, AnalysisJob, ReportDigest, Conversation, DEFAULT_SETTINGS } from "../types";
+import { Database, STORES, StoreName } from "./database";
+import { CryptoService, EncryptedPayload, KeyDerivationParams } from "./cryptoService";
+import { t } from "../i18n";
 
-const STORAGE_KEY = 'lumina_diary_entries';
-const SETTINGS_KEY = 'lumina_diary_settings';
-const REPORTS_KEY = 'lumina_diary_reports';
+// Legacy localStorage keys, only read once to migrate into IndexedDB
+const LEGACY_STORAGE_KEY = 'lumina_diary_entries';
+const LEGACY_SETTINGS_KEY = 'lumina_diary_settings';
+const LEGACY_REPORTS_KEY = 'lumina_diary_reports';
+
+const SETTINGS_RECORD = 'app';
+const MIGRATION_FLAG = 'migratedFromLocalStorage';
+const ENCRYPTION_RECORD = 'encryption';
+const ANALYSIS_QUEUE_PAUSED_RECORD = 'analysisQueuePaused';
+// Older unpinned reports beyond this are removed; pinned ones are always kept
+const MAX_REPORTS = 50;
+const MAX_REVISIONS_PER_ENTRY = 50;
+// Continuous typing within this window updates the latest revision in place
+const REVISION_COALESCE_MS = 2 * 60 * 1000;
 
 const generateId = () => {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
-export const StorageService = {
+const byDateDesc = (a: Entry, b: Entry) => new Date(b.date).getTime() - new Date(a.date).getTime();
+
+const toRevision = (entry: Entry): EntryRevision => ({
+  id: generateId(),
+  entryId: entry.id,
+  title: entry.title,
+  content: entry.content,
+  tags: [...entry.tags],
+  createdAt: entry.updatedAt,
+});
+
+const sameSnapshot = (a: Pick<Entry, 'title' | 'content' | 'tags'>, b: Pick<Entry, 'title' | 'content' | 'tags'>) =>
+  a.title === b.title && a.content === b.content && a.tags.join('\u0000') === b.tags.join('\u0000');
+
+const readLegacy = <T>(key: string): T | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error(`Failed to read legacy data "${key}"`, e);
+    return null;
+  }
+};
+
+// Copies data written by older versions from localStorage into IndexedDB.
+// The legacy keys are only removed once every store has been written, so an
+// interrupted migration simply runs again on the next launch.
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const migrated = await Database.get<boolean>(STORES.meta, MIGRATION_FLAG);
+  if (migrated) return;
+
+  const entries = readLegacy<Entry[]>(LEGACY_STORAGE_KEY);
+  const reports = readLegacy<Report[]>(LEGACY_REPORTS_KEY);
+  const settings = readLegacy<Partial<AppSettings>>(LEGACY_SETTINGS_KEY);
+
+  if (Array.isArray(entries)) await Database.putMany(STORES.entries, entries);
+  if (Array.isArray(reports)) await Database.putMany(STORES.reports, reports);
+  if (settings) await Database.put(STORES.settings, settings, SETTINGS_RECORD);
+
+  await Database.put(STORES.meta, true, MIGRATION_FLAG);
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_REPORTS_KEY);
+  localStorage.removeItem(LEGACY_SETTINGS_KEY);
+};
+
+// Encryption at rest. Only the listed fields are sealed; ids, dates, tags and
+// sentiment stay readable so the IndexedDB indexes keep working.
+interface EncryptionConfig extends KeyDerivationParams {
+  verifier: EncryptedPayload;
+}
+
+type SealedRecord<T> = Omit<T, 'title' | 'content'> & { sealed?: EncryptedPayload };
+
+// analyzedHash is a fingerprint of the content, so it is sealed along with it
+const ENTRY_SECRET_FIELDS = ['title', 'content', 'summary', 'mood', 'aiAnalysis', 'analyzedHash'] as const;
+const REPORT_SECRET_FIELDS = ['title', 'content'] as const;
+const REVISION_SECRET_FIELDS = ['title', 'content'] as const;
+const DRAFT_SECRET_FIELDS = ['title', 'content'] as const;
+// Provider error details can quote the request
+const ANALYSIS_JOB_SECRET_FIELDS = ['error'] as const;
+// Digests retell the entries; the hash fingerprints them
+const DIGEST_SECRET_FIELDS = ['content', 'sourceHash'] as const;
+const CONVERSATION_SECRET_FIELDS = ['title', 'messages'] as const;
+
+export class DiaryLockedError extends Error {
+  constructor() {
+    super(t('storage.locked'));
+    this.name = 'DiaryLockedError';
+  }
+}
+
+let encryptionConfig: EncryptionConfig | null = null;
+let sessionKey: CryptoKey | null = null;
+
+const sealRecord = async <T extends object>(record: T, fields: readonly string[], key: CryptoKey | null): Promise<SealedRecord<T>> => {
+  if (!key) return record;
+  const secret: Record<string, unknown> = {};
+  const rest = { ...record } as Record<string, unknown>;
+  fields.forEach(field => {
+    if (field in rest) {
+      secret[field] = rest[field];
+      delete rest[field];
+    }
+  });
+  return { ...rest, sealed: await CryptoService.encrypt(key, JSON.stringify(secret)) } as SealedRecord<T>;
+};
+
+const openRecord = async <T>(stored: SealedRecord<T>, key: CryptoKey | null): Promise<T> => {
+  const { sealed, ...rest } = stored;
+  if (!sealed) return stored as T;
+  if (!key) throw new DiaryLockedError();
+  return { ...rest, ...JSON.parse(await CryptoService.decrypt(key, sealed)) } as T;
+};
+
+const currentKey = (): CryptoKey | null => {
+  if (encryptionConfig && !sessionKey) throw new DiaryLockedError();
+  return sessionKey;
+};
+
+const openAll = <T>(stored: SealedRecord<T>[]): Promise<T[]> => {
+  const key = currentKey();
+  return Promise.all(stored.map(record => openRecord<T>(record, key)));
+};
+
+const sealAll = <T extends object>(records: T[], fields: readonly string[], key: CryptoKey | null) =>
+  Promise.all(records.map(record => sealRecord(record, fields, key)));
+
+// Re-encryption reads every store and writes it all back. A save landing in
+// between would be overwritten with the stale copy, or sealed with the old
+// key after the switch, so writes wait while a rewrite runs and a rewrite
+// waits for the writes already under way.
+let rewriting: Promise<void> | null = null;
+const pendingWrites = new Set<Promise<unknown>>();
+
+// The checks for a running rewrite are inline so that nothing can start
+// between the check and what it guards
+const write = async <T>(work: () => Promise<T>): Promise<T> => {
+  while (rewriting) await rewriting.catch(() => undefined);
+  const task = work();
+  pendingWrites.add(task);
+  try {
+    return await task;
+  } finally {
+    pendingWrites.delete(task);
+  }
+};
+
+const exclusive = async (work: () => Promise<void>): Promise<void> => {
+  while (rewriting) await rewriting.catch(() => undefined);
+  const running = [...pendingWrites];
+  const task = Promise.allSettled(running).then(work);
+  rewriting = task;
+  try {
+    await task;
+  } finally {
+    if (rewriting === task) rewriting = null;
+  }
+};
+
+// Seals every entry, report and revision with `nextKey` (or stores them in
+// the clear when null) and swaps the encryption config in the same
+// transaction, so a failure can never leave records under two keys.
+const rewriteAll = (nextKey: CryptoKey | null, nextConfig: EncryptionConfig | null): Promise<void> => exclusive(async () => {
+  const [entries, reports, revisions, drafts, analysisJobs, digests, conversations] = await Promise.all([
+    Database.getAll<SealedRecord<Entry>>(STORES.entries).then(openAll<Entry>),
+    Database.getAll<SealedRecord<Report>>(STORES.reports).then(openAll<Report>),
+    Database.getAll<SealedRecord<EntryRevision>>(STORES.revisions).then(openAll<EntryRevision>),
+    Database.getAll<SealedRecord<EntryDraft>>(STORES.drafts).then(openAll<EntryDraft>),
+    Database.getAll<SealedRecord<AnalysisJob>>(STORES.analysisJobs).then(openAll<AnalysisJob>),
+    Database.getAll<SealedRecord<ReportDigest>>(STORES.digests).then(openAll<ReportDigest>),
+    Database.getAll<SealedRecord<Conversation>>(STORES.conversations).then(openAll<Conversation>),
+  ]);
+
+  const writes: Array<[StoreName, object[]]> = [
+    [STORES.entries, await sealAll(entries, ENTRY_SECRET_FIELDS, nextKey)],
+    [STORES.reports, await sealAll(reports, REPORT_SECRET_FIELDS, nextKey)],
+    [STORES.revisions, await sealAll(revisions, REVISION_SECRET_FIELDS, nextKey)],
+    [STORES.drafts, await sealAll(drafts, DRAFT_SECRET_FIELDS, nextKey)],
+    [STORES.analysisJobs, await sealAll(analysisJobs, ANALYSIS_JOB_SECRET_FIELDS, nextKey)],
+    [STORES.digests, await sealAll(digests, DIGEST_SECRET_FIELDS, nextKey)],
+    [STORES.conversations, await sealAll(conversations, CONVERSATION_SECRET_FIELDS, nextKey)],
+  ];
+
+  await Database.transaction([STORES.entries, STORES.reports, STORES.revisions, STORES.drafts, STORES.analysisJobs, STORES.digests, STORES.conversations, STORES.meta], tx => {
+    writes.forEach(([store, records]) => {
+      const objectStore = tx.objectStore(store);
+      records.forEach(record => objectStore.put(record));
+    });
+    if (nextConfig) {
+      tx.objectStore(STORES.meta).put(nextConfig, ENCRYPTION_RECORD);
+    } else {
+      tx.objectStore(STORES.meta).delete(ENCRYPTION_RECORD);
+    }
+  });
+
+  encryptionConfig = nextConfig;
+  sessionKey = nextKey;
+});
+
+const createEncryption = async (passphrase: string): Promise<{ key: CryptoKey; config: EncryptionConfig }> => {
+  const params = CryptoService.createKeyDerivationParams();
+  const key = await CryptoService.deriveKey(passphrase, params);
+  return { key, config: { ...params, verifier: await CryptoService.createVerifier(key) } };
+};
+
+const unlockWith = async (passphrase: string, config: EncryptionConfig): Promise<CryptoKey | null> => {
+  const key = await CryptoService.deriveKey(passphrase, config);
+  return (await CryptoService.verify(key, config.verifier)) ? key : null;
+};
+
+let readyPromise: Promise<void> | null = null;
+// Revision writes read the latest revision first, so they must not interleave
+let revisionQueue: Promise<void> = Promise.resolve();
+
+// Async repository for everything the app persists
+export interface DiaryRepository {
+  init(): Promise<void>;
+
+  getEncryptionStatus(): Promise<{ enabled: boolean; unlocked: boolean }>;
+  unlock(passphrase: string): Promise<boolean>;
+  lock(): void;
+  enableEncryption(passphrase: string): Promise<void>;
+  changePassphrase(current: string, next: string): Promise<void>;
+  disableEncryption(passphrase: string): Promise<void>;
+  readBackupEntries(backup: { entries?: unknown; encryption?: EncryptionConfig }, passphrase?: string): Promise<Entry[]>;
+
+  loadEntries(): Promise<Entry[]>;
+  loadEntriesInRange(start: Date, end: Date): Promise<Entry[]>;
+  loadEntriesByTag(tag: string): Promise<Entry[]>;
+  saveEntry(entry: Entry): Promise<void>;
+  saveEntries(entries: Entry[]): Promise<void>;
+  deleteEntry(id: string): Promise<void>;
+  createEntry(date?: Date): Entry;
+  exportData(): Promise<void>;
+
+  loadRevisions(entryId: string): Promise<EntryRevision[]>;
+  recordRevision(previous: Entry, updated: Entry, options?: { coalesce?: boolean }): Promise<void>;
+
+  loadDraft(entryId: string): Promise<EntryDraft | undefined>;
+  saveDraft(draft: EntryDraft): Promise<void>;
+  deleteDraft(entryId: string): Promise<void>;
+
+  loadAnalysisQueue(): Promise<{ jobs: AnalysisJob[]; paused: boolean }>;
+  saveAnalysisJobs(jobs: AnalysisJob[]): Promise<void>;
+  deleteAnalysisJobs(entryIds: string[]): Promise<void>;
+  setAnalysisQueuePaused(paused: boolean): Promise<void>;
+
+  loadDigest(id: string): Promise<ReportDigest | undefined>;
+  saveDigest(digest: ReportDigest): Promise<void>;
+
+  loadSettings(): Promise<AppSettings>;
+  saveSettings(settings: AppSettings): Promise<void>;
+
+  loadReports(): Promise<Report[]>;
+  saveReport(report: Report): Promise<string[]>;
+  deleteReport(id: string): Promise<void>;
+
+  loadConversations(): Promise<Conversation[]>;
+  saveConversation(conversation: Conversation): Promise<void>;
+  deleteConversation(id: string): Promise<void>;
+}
+
+export const StorageService: DiaryRepository = {
+  // Opens the database and runs the one-off localStorage migration.
+  // Every other method awaits this, so callers never need to call it first.
+  init(): Promise<void> {
+    if (!readyPromise) {
+      readyPromise = migrateFromLocalStorage()
+        .then(async () => {
+          encryptionConfig = (await Database.get<EncryptionConfig>(STORES.meta, ENCRYPTION_RECORD)) || null;
+        })
+        .catch(e => {
+          readyPromise = null;
+          throw e;
+        });
+      // Ask the browser not to evict the journal under storage pressure
+      navigator.storage?.persist?.().catch(() => undefined);
+    }
+    return readyPromise;
+  },
+
+  // Encryption operations
+  async getEncryptionStatus(): Promise<{ enabled: boolean; unlocked: boolean }> {
+    await this.init();
+    return { enabled: !!encryptionConfig, unlocked: !encryptionConfig || !!sessionKey };
+  },
+
+  async unlock(passphrase: string): Promise<boolean> {
+    await this.init();
+    if (!encryptionConfig) return true;
+    const key = await unlockWith(passphrase, encryptionConfig);
+    if (key) sessionKey = key;
+    return !!key;
+  },
+
+  lock(): void {
+    sessionKey = null;
+  },
+
+  async enableEncryption(passphrase: string): Promise<void> {
+    await this.init();
+    if (encryptionConfig) throw new Error(t('storage.encryptionOn'));
+    const { key, config } = await createEncryption(passphrase);
+    await rewriteAll(key, config);
+  },
+
+  async changePassphrase(current: string, next: string): Promise<void> {
+    await this.init();
+    if (!encryptionConfig) throw new Error(t('storage.encryptionOff'));
+    if (!(await unlockWith(current, encryptionConfig))) throw new Error(t('storage.wrongCurrentPassword'));
+    const { key, config } = await createEncryption(next);
+    await rewriteAll(key, config);
+  },
+
+  async disableEncryption(passphrase: string): Promise<void> {
+    await this.init();
+    if (!encryptionConfig) return;
+    if (!(await unlockWith(passphrase, encryptionConfig))) throw new Error(t('storage.wrongPassword'));
+    await rewriteAll(null, null);
+  },
+
+  // Reads entries out of a parsed backup file. Encrypted backups carry their
+  // own key-derivation header and need the passphrase they were made with.
+  async readBackupEntries(backup: { entries?: unknown; encryption?: EncryptionConfig }, passphrase?: string): Promise<Entry[]> {
+    const entries = Array.isArray(backup) ? backup : backup.entries;
+    if (!Array.isArray(entries)) throw new Error(t('storage.noEntriesInBackup'));
+    if (!backup.encryption) return entries as Entry[];
+
+    if (!passphrase) throw new DiaryLockedError();
+    const key = await unlockWith(passphrase, backup.encryption);
+    if (!key) throw new Error(t('storage.wrongBackupPassword'));
+    return Promise.all(entries.map(e => openRecord<Entry>(e, key)));
+  },
+
   // Entry operations
-  loadEntries(): Entry[] {
+  async loadEntries(): Promise<Entry[]> {
+    await this.init();
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      const entries = await openAll<Entry>(await Database.getAll(STORES.entries));
+      return entries.sort(byDateDesc);
     } catch (e) {
+      if (e instanceof DiaryLockedError) throw e;
       console.error("Failed to load entries", e);
       return [];
     }
   },
 
-  saveEntry(entry: Entry): void {
-    const entries = this.loadEntries();
-    const index = entries.findIndex(e => e.id === entry.id);
-    
-    if (index >= 0) {
-      entries[index] = entry;
-    } else {
-      entries.push(entry);
-    }
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  async loadEntriesInRange(start: Date, end: Date): Promise<Entry[]> {
+    await this.init();
+    const range = IDBKeyRange.bound(start.toISOString(), end.toISOString());
+    const entries = await openAll<Entry>(await Database.getAllFromIndex(STORES.entries, 'date', range));
+    return entries.sort(byDateDesc);
+  },
+
+  async loadEntriesByTag(tag: string): Promise<Entry[]> {
+    await this.init();
+    const entries = await openAll<Entry>(await Database.getAllFromIndex(STORES.entries, 'tags', tag));
+    return entries.sort(byDateDesc);
+  },
+
+  async saveEntry(entry: Entry): Promise<void> {
+    await this.init();
+    await write(async () => Database.put(STORES.entries, await sealRecord(entry, ENTRY_SECRET_FIELDS, currentKey())));
+  },
+
+  async saveEntries(entries: Entry[]): Promise<void> {
+    await this.init();
+    await write(async () => Database.putMany(STORES.entries, await sealAll(entries, ENTRY_SECRET_FIELDS, currentKey())));
   },
 
-  deleteEntry(id: string): void {
-    const entries = this.loadEntries().filter(e => e.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  async deleteEntry(id: string): Promise<void> {
+    await this.init();
+    await write(async () => {
+      await Database.delete(STORES.entries, id);
+      const revisionIds = await Database.getAllKeysFromIndex(STORES.revisions, 'entryId', id);
+      await Database.deleteMany(STORES.revisions, revisionIds);
+      await Database.delete(STORES.drafts, id);
+      await Database.delete(STORES.analysisJobs, id);
+    });
   },
 
   createEntry(date?: Date): Entry {
@@ -50,36 +395,149 @@ export const StorageService = {
     };
   },
 
-  exportData(): void {
-    const entries = this.loadEntries();
-    const settings = this.loadSettings();
-    const reports = this.loadReports();
-    
+  // With encryption on, the backup holds the sealed records exactly as
+  // stored plus the key-derivation header, so it stays encrypted on disk.
+  async exportData(): Promise<void> {
+    await this.init();
+    currentKey();
+
+    const [entries, settings, reports] = encryptionConfig
+      ? await Promise.all([
+          Database.getAll(STORES.entries),
+          this.loadSettings(),
+          Database.getAll(STORES.reports),
+        ])
+      : await Promise.all([
+          this.loadEntries(),
+          this.loadSettings(),
+          this.loadReports(),
+        ]);
+
     const exportData = {
       entries,
       settings,
       reports,
+      ...(encryptionConfig && { encryption: encryptionConfig }),
       exportedAt: new Date().toISOString(),
       version: '2.0'
     };
-    
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(exportData, null, 2));
+
+    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
     const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
+    downloadAnchorNode.setAttribute("href", url);
     downloadAnchorNode.setAttribute("download", "lumina_diary_backup_" + new Date().toISOString().slice(0,10) + ".json");
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
+    URL.revokeObjectURL(url);
+  },
+
+  // Revision operations
+  async loadRevisions(entryId: string): Promise<EntryRevision[]> {
+    await this.init();
+    const revisions = await openAll<EntryRevision>(await Database.getAllFromIndex(STORES.revisions, 'entryId', entryId));
+    return revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt)); // Newest first
+  },
+
+  // Records the saved state of an entry. Saves that leave title, content and
+  // tags untouched (e.g. only sentiment changed) don't produce a revision.
+  // Entries created before history existed get their pre-edit state recorded
+  // first, so the very first edit can be undone too. With `coalesce`, an edit
+  // that keeps the tags and follows the latest revision closely replaces it,
+  // so autosave while typing doesn't flood the capped history.
+  recordRevision(previous: Entry, updated: Entry, options: { coalesce?: boolean } = {}): Promise<void> {
+    const task = revisionQueue.then(() => write(async () => {
+      const revisions = await this.loadRevisions(updated.id);
+      const latest = revisions[0];
+      if (latest && sameSnapshot(latest, updated)) return;
+
+      const canCoalesce = options.coalesce && latest
+        && latest.tags.join('\u0000') === updated.tags.join('\u0000')
+        && new Date(updated.updatedAt).getTime() - new Date(latest.createdAt).getTime() < REVISION_COALESCE_MS;
+      if (canCoalesce) {
+        const replacement = { ...toRevision(updated), id: latest.id };
+        await Database.put(STORES.revisions, await sealRecord(replacement, REVISION_SECRET_FIELDS, currentKey()));
+        return;
+      }
+
+      const additions: EntryRevision[] = [];
+      if (!latest && (previous.title || previous.content) && !sameSnapshot(previous, updated)) {
+        additions.push(toRevision(previous));
+      }
+      additions.push(toRevision(updated));
+      await Database.putMany(STORES.revisions, await sealAll(additions, REVISION_SECRET_FIELDS, currentKey()));
+
+      const overflow = revisions.slice(Math.max(0, MAX_REVISIONS_PER_ENTRY - additions.length));
+      await Database.deleteMany(STORES.revisions, overflow.map(r => r.id));
+    }));
+    revisionQueue = task.catch(() => undefined);
+    return task;
+  },
+
+  // Draft operations
+  async loadDraft(entryId: string): Promise<EntryDraft | undefined> {
+    await this.init();
+    const stored = await Database.get<SealedRecord<EntryDraft>>(STORES.drafts, entryId);
+    return stored && openRecord<EntryDraft>(stored, currentKey());
+  },
+
+  async saveDraft(draft: EntryDraft): Promise<void> {
+    await this.init();
+    await write(async () => Database.put(STORES.drafts, await sealRecord(draft, DRAFT_SECRET_FIELDS, currentKey())));
+  },
+
+  async deleteDraft(entryId: string): Promise<void> {
+    await this.init();
+    await write(() => Database.delete(STORES.drafts, entryId));
+  },
+
+  // Analysis queue operations
+  async loadAnalysisQueue(): Promise<{ jobs: AnalysisJob[]; paused: boolean }> {
+    await this.init();
+    const [jobs, paused] = await Promise.all([
+      Database.getAll<SealedRecord<AnalysisJob>>(STORES.analysisJobs).then(openAll<AnalysisJob>),
+      Database.get<boolean>(STORES.meta, ANALYSIS_QUEUE_PAUSED_RECORD),
+    ]);
+    jobs.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+    return { jobs, paused: !!paused };
+  },
+
+  async saveAnalysisJobs(jobs: AnalysisJob[]): Promise<void> {
+    await this.init();
+    await write(async () => Database.putMany(STORES.analysisJobs, await sealAll(jobs, ANALYSIS_JOB_SECRET_FIELDS, currentKey())));
+  },
+
+  async deleteAnalysisJobs(entryIds: string[]): Promise<void> {
+    await this.init();
+    await write(() => Database.deleteMany(STORES.analysisJobs, entryIds));
+  },
+
+  async setAnalysisQueuePaused(paused: boolean): Promise<void> {
+    await this.init();
+    await Database.put(STORES.meta, paused, ANALYSIS_QUEUE_PAUSED_RECORD);
+  },
+
+  // Report digest cache
+  async loadDigest(id: string): Promise<ReportDigest | undefined> {
+    await this.init();
+    const stored = await Database.get<SealedRecord<ReportDigest>>(STORES.digests, id);
+    return stored && openRecord<ReportDigest>(stored, currentKey());
+  },
+
+  async saveDigest(digest: ReportDigest): Promise<void> {
+    await this.init();
+    await write(async () => Database.put(STORES.digests, await sealRecord(digest, DIGEST_SECRET_FIELDS, currentKey())));
   },
 
   // Settings operations
-  loadSettings(): AppSettings {
+  async loadSettings(): Promise<AppSettings> {
+    await this.init();
     try {
-      const stored = localStorage.getItem(SETTINGS_KEY);
+      const stored = await Database.get<Partial<AppSettings>>(STORES.settings, SETTINGS_RECORD);
       if (stored) {
-        const parsed = JSON.parse(stored);
         // Merge with defaults to ensure new fields are present
-        return { ...DEFAULT_SETTINGS, ...parsed, providers: { ...DEFAULT_SETTINGS.providers, ...parsed.providers } };
+        return { ...DEFAULT_SETTINGS, ...stored, providers: { ...DEFAULT_SETTINGS.providers, ...stored.providers } };
       }
       return DEFAULT_SETTINGS;
     } catch (e) {
@@ -88,31 +546,58 @@ export const StorageService = {
     }
   },
 
-  saveSettings(settings: AppSettings): void {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  async saveSettings(settings: AppSettings): Promise<void> {
+    await this.init();
+    await Database.put(STORES.settings, settings, SETTINGS_RECORD);
   },
 
   // Report operations
-  loadReports(): Report[] {
+  async loadReports(): Promise<Report[]> {
+    await this.init();
     try {
-      const stored = localStorage.getItem(REPORTS_KEY);
-      return stored ? JSON.parse(stored) : [];
+      const reports = await openAll<Report>(await Database.getAllFromIndex(STORES.reports, 'createdAt'));
+      return reports.reverse(); // Newest first
     } catch (e) {
+      if (e instanceof DiaryLockedError) throw e;
       console.error("Failed to load reports", e);
       return [];
     }
   },
 
-  saveReport(report: Report): void {
-    const reports = this.loadReports();
-    reports.unshift(report); // Add to beginning
-    // Keep only last 50 reports
-    const trimmed = reports.slice(0, 50);
-    localStorage.setItem(REPORTS_KEY, JSON.stringify(trimmed));
+  // Saves a new or changed report and resolves with the ids of old
+  // reports cleaned up to make room, so callers can drop them too
+  async saveReport(report: Report): Promise<string[]> {
+    await this.init();
+    return write(async () => {
+      await Database.put(STORES.reports, await sealRecord(report, REPORT_SECRET_FIELDS, currentKey()));
+      // pinned is not sealed, so this needs no key
+      const stored = await Database.getAllFromIndex<SealedRecord<Report>>(STORES.reports, 'createdAt');
+      const unpinned = stored.filter(r => !r.pinned).map(r => r.id);
+      const removed = unpinned.slice(0, Math.max(0, unpinned.length - MAX_REPORTS));
+      await Database.deleteMany(STORES.reports, removed);
+      return removed;
+    });
+  },
+
+  async deleteReport(id: string): Promise<void> {
+    await this.init();
+    await write(() => Database.delete(STORES.reports, id));
+  },
+
+  // Conversation operations
+  async loadConversations(): Promise<Conversation[]> {
+    await this.init();
+    const conversations = await openAll<Conversation>(await Database.getAllFromIndex(STORES.conversations, 'updatedAt'));
+    return conversations.reverse(); // Most recently active first
+  },
+
+  async saveConversation(conversation: Conversation): Promise<void> {
+    await this.init();
+    await write(async () => Database.put(STORES.conversations, await sealRecord(conversation, CONVERSATION_SECRET_FIELDS, currentKey())));
   },
 
-  deleteReport(id: string): void {
-    const reports = this.loadReports().filter(r => r.id !== id);
-    localStorage.setItem(REPORTS_KEY, JSON.stringify(reports));
+  async deleteConversation(id: string): Promise<void> {
+    await this.init();
+    await write(() => Database.delete(STORES.conversations, id));
   }
 };
@@ -0,0 +1,90 @@
+import { Entry, AppSettings } from "../types";
+
+export interface TagCount {
+  tag: string;
+  count: number; // Entries carrying the tag
+}
+
+// New tag lists for the entries a bulk edit changes
+export type TagChanges = Array<{ id: string; tags: string[] }>;
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const unique = (tags: string[]) => tags.filter((tag, i) => tags.findIndex(other => sameTag(other, tag)) === i);
+
+// Replaces the tags of every entry carrying one of `from`; `to` of null
+// drops them instead
+const retag = (entries: Entry[], from: string[], to: string | null): TagChanges =>
+  entries
+    .filter(entry => entry.tags.some(tag => from.includes(tag)))
+    .map(entry => ({
+      id: entry.id,
+      tags: unique(entry.tags.flatMap(tag => (from.includes(tag) ? (to === null ? [] : [to]) : [tag]))),
+    }));
+
+// Tags across all entries: counting, suggesting, and edits that rename,
+// merge or delete a tag everywhere it is used
+export const TagService = {
+  // Trimmed, without a leading "#" and with single spaces
+  normalize(tag: string): string {
+    return tag.trim().replace(/^[#＃]+/, '').replace(/\s+/g, ' ').trim();
+  },
+
+  // Most used first, then alphabetically
+  count(entries: Entry[]): TagCount[] {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => entry.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  },
+
+  // Known tags for what is being typed, leaving out ones the entry already
+  // has: those starting with it first, then those containing it
+  suggest(counts: TagCount[], input: string, exclude: string[], limit = 8): string[] {
+    const query = TagService.normalize(input).toLowerCase();
+    const available = counts.filter(({ tag }) => !exclude.some(other => sameTag(other, tag)));
+    if (!query) return available.slice(0, limit).map(({ tag }) => tag);
+    const starting = available.filter(({ tag }) => tag.toLowerCase().startsWith(query));
+    const containing = available.filter(({ tag }) => !tag.toLowerCase().startsWith(query) && tag.toLowerCase().includes(query));
+    return [...starting, ...containing].slice(0, limit).map(({ tag }) => tag);
+  },
+
+  // `tags` with `tag` added, unless it is blank or already there in any case
+  add(tags: string[], tag: string): string[] {
+    const normalized = TagService.normalize(tag);
+    if (!normalized || tags.some(other => sameTag(other, normalized))) return tags;
+    return [...tags, normalized];
+  },
+
+  // Every tag in `from` becomes `to`; an entry that ends up with it twice
+  // keeps one. Renaming is merging a single tag.
+  merge(entries: Entry[], from: string[], to: string): TagChanges {
+    return retag(entries, from.filter(tag => tag !== to), to);
+  },
+
+  remove(entries: Entry[], tag: string): TagChanges {
+    return retag(entries, [tag], null);
+  },
+
+  // Settings with the colors of `from` moved to `to` (keeping a color `to`
+  // already has), or dropped when `to` is null
+  moveColors(settings: AppSettings, from: string[], to: string | null): AppSettings {
+    const tagColors = { ...settings.tagColors };
+    const color = from.map(tag => tagColors[tag]).find(Boolean);
+    from.forEach(tag => delete tagColors[tag]);
+    if (to !== null && color && !tagColors[to]) tagColors[to] = color;
+    return { ...settings, tagColors };
+  },
+
+  // Pairs where one tag contains the other, like "工作" and "工作压力",
+  // which analysis tends to produce over time. The less used one comes first.
+  similar(counts: TagCount[], limit = 5): Array<[TagCount, TagCount]> {
+    const pairs: Array<[TagCount, TagCount]> = [];
+    counts.forEach((a, i) => counts.slice(i + 1).forEach(b => {
+      const [x, y] = [a.tag.toLowerCase(), b.tag.toLowerCase()];
+      if (x.includes(y) || y.includes(x)) pairs.push(a.count < b.count ? [a, b] : [b, a]);
+    }));
+    return pairs.slice(0, limit);
+  },
+};
@@ -1,7 +1,10 @@
-export type ViewMode = 'editor' | 'analytics' | 'settings' | 'calendar';
+export type ViewMode = 'editor' | 'analytics' | 'reports' | 'chat' | 'settings' | 'calendar';
 export type ThemeMode = 'light' | 'dark';
-export type ReportType = 'weekly' | 'monthly' | 'yearly';
-export type AIProviderType = 'gemini' | 'deepseek';
+export type BuiltInReportType = 'weekly' | 'monthly' | 'yearly' | 'custom';
+// A report template id: one of the built-ins or a user template
+export type ReportType = BuiltInReportType | (string & {});
+export type ReportPeriod = 'week' | 'month' | 'year' | 'custom';
+export type AIProviderType = 'gemini' | 'deepseek' | 'openai';
 
 // AI Provider Configuration
 export interface AIProviderConfig {
@@ -18,18 +21,68 @@ export interface DeepSeekConfig extends AIProviderConfig {
 
 export interface GeminiConfig extends AIProviderConfig {
   type: 'gemini';
-  model: 'gemini-2.0-flash' | 'gemini-2.0-flash-lite' | 'gemini-1.5-pro';
+  model: 'gemini-2.0-flash' | 'gemini-2.0-flash-lite' | 'gemini-1.5-pro' | 'gemini-3-flash-preview';
+}
+
+// Any server speaking the OpenAI chat completions API (Ollama, vLLM, LM Studio...)
+export interface OpenAICompatibleConfig extends AIProviderConfig {
+  type: 'openai';
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  jsonMode: boolean; // Server supports response_format: json_object
+}
+
+// Shared limits for every AI request
+export interface NetworkSettings {
+  timeoutMs: number; // Without a response or streamed chunk for this long
+  maxRetries: number; // For rate limits, network and server errors
 }
 
 // App Settings
 export interface AppSettings {
-  activeProvider: AIProviderType;
+  activeProvider: AIProviderType; // Always the first of providerOrder
+  // Tried in this order; later enabled providers are fallbacks
+  providerOrder: AIProviderType[];
   providers: {
     gemini: GeminiConfig;
     deepseek: DeepSeekConfig;
+    openai: OpenAICompatibleConfig;
   };
   language: 'zh' | 'en';
+  // Language of AI output: the interface language, or whatever each entry is written in
+  aiLanguage: 'interface' | 'auto';
   autoAnalyze: boolean;
+  network: NetworkSettings;
+  // User templates, and built-in ones the user edited (same id)
+  reportTemplates: ReportTemplate[];
+  // Who the analysis speaks as; empty for the default persona
+  analysisPersona: string;
+  // Colors picked in the tag manager; other tags use the default
+  tagColors: Record<string, TagColor>;
+}
+
+export type TagColor = 'slate' | 'red' | 'amber' | 'green' | 'teal' | 'sky' | 'indigo' | 'purple' | 'pink';
+
+// What a report asks for: the sections to write, in what tone, over which period
+export interface ReportTemplate {
+  id: ReportType;
+  name: string;
+  icon: string;
+  period: ReportPeriod;
+  prompt: string;
+  sections: string[];
+  tone: string;
+}
+
+// Which provider and model produced an analysis or report
+export interface AIAttribution {
+  provider: AIProviderType;
+  model: string;
+}
+
+// Inclusive span of time a report covers
+export interface DateRange {
+  start: Date;
+  end: Date;
 }
 
 // Report
@@ -38,10 +91,12 @@ export interface Report {
   type: ReportType;
   title: string;
   content: string;
-  startDate: string;
-  endDate: string;
+  startDate: string; // ISO String, start of the period covered
+  endDate: string; // ISO String, end of the period covered
   createdAt: string;
   entryCount: number;
+  generatedBy?: AIAttribution;
+  pinned?: boolean; // Kept when old reports are cleaned up
 }
 
 export interface Entry {
@@ -59,6 +114,73 @@ export interface Entry {
     suggestions?: string[];
     keywords?: string[];
   };
+  analyzedBy?: AIAttribution;
+  // Hash of the content the current analysis was made from
+  analyzedHash?: string;
+}
+
+export interface EntryUpdateOptions {
+  // Fold this save into the latest revision (continuous typing)
+  coalesce?: boolean;
+}
+
+// Snapshot of an entry recorded on every save
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  title: string;
+  content: string;
+  tags: string[];
+  createdAt: string; // ISO String
+}
+
+// Unsaved editor state, kept apart from the entry so a crash mid-edit can be recovered
+export interface EntryDraft {
+  entryId: string;
+  title: string;
+  content: string;
+  savedAt: string; // ISO String
+}
+
+// One entry in the bulk analysis queue
+export interface AnalysisJob {
+  entryId: string;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  attempts: number;
+  error?: string; // Message of the last failure
+  addedAt: string; // ISO String
+}
+
+// Condensed summary of one week, month or year of entries, cached so that
+// long reports only re-summarize periods whose entries changed
+export interface ReportDigest {
+  id: string; // level, period and language
+  level: 'week' | 'month' | 'year';
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+  language: AppSettings['language'];
+  sourceHash: string; // Fingerprint of the text the digest was made from
+  content: string;
+  createdAt: string; // ISO String
+}
+
+// One turn of an "Ask my journal" conversation
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string; // ISO String
+  // Answers: ids of the entries sent as context, cited as [1], [2]... in this order
+  sources?: string[];
+  generatedBy?: AIAttribution;
+}
+
+export interface Conversation {
+  id: string;
+  title: string; // The first question
+  messages: ChatMessage[];
+  createdAt: string; // ISO String
+  updatedAt: string; // ISO String
 }
 
 export interface AnalysisResult {
@@ -73,6 +195,7 @@ export interface AnalysisResult {
 // Default settings
 export const DEFAULT_SETTINGS: AppSettings = {
   activeProvider: 'deepseek',
+  providerOrder: ['deepseek', 'gemini', 'openai'],
   providers: {
     gemini: {
       type: 'gemini',
@@ -86,7 +209,23 @@ export const DEFAULT_SETTINGS: AppSettings = {
       model: 'deepseek-chat',
       enabled: true,
     },
+    openai: {
+      type: 'openai',
+      apiKey: '',
+      model: 'llama3.1',
+      baseUrl: 'http://localhost:11434/v1',
+      jsonMode: true,
+      enabled: false,
+    },
   },
   language: 'zh',
+  aiLanguage: 'interface',
   autoAnalyze: false,
+  reportTemplates: [],
+  analysisPersona: '',
+  tagColors: {},
+  network: {
+    timeoutMs: 60_000,
+    maxRetries: 3,
+  },
 };